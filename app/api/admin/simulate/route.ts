@@ -1,24 +1,71 @@
 import { NextRequest, NextResponse } from "next/server";
 import { updateSettings, getSettings } from "@/lib/state/settings";
-import { setRunnerSymbols } from "@/lib/agents/runner";
+import { getRunnerStatus } from "@/lib/agents/runner";
+import {
+  getSimulationControls,
+  setIndianDriftOverride,
+  setExchangeOutage,
+  setPollIntervalOverride,
+  resetSimulationControls,
+  MIN_POLL_INTERVAL_MS,
+} from "@/lib/exchanges/simulation";
+import {
+  loadFaultScenario,
+  clearFaultScenario,
+  getActiveScenario,
+  getActiveFaults,
+  listFaultScenarios,
+} from "@/lib/exchanges/faults";
+import { addAuditLog } from "@/lib/state/auditLog";
+import { isBacktestActive, backtestBusyMessage } from "@/lib/backtest/guard";
 
-// Global simulation state
-let simulationState = {
-  indianDriftOverride: null as number | null,
-  exchangeOutages: [] as string[],
-  pollIntervalOverride: null as number | null,
-};
+/**
+ * Overrides plus the loaded fault scenario and the faults active right now
+ */
+function currentState() {
+  const active = getActiveScenario();
+  return {
+    ...getSimulationControls(),
+    faultScenario: active
+      ? {
+          name: active.scenario.name,
+          description: active.scenario.description,
+          startedAt: active.startedAt,
+          elapsedMs: Date.now() - active.startedAt,
+          steps: active.scenario.steps,
+        }
+      : null,
+    activeFaults: getActiveFaults(),
+  };
+}
+
+/**
+ * Start a fault scenario and record it in the audit log
+ */
+function startScenario(nameOrScenario: any): string {
+  const { scenario } = loadFaultScenario(nameOrScenario);
+  addAuditLog({
+    eventType: "system",
+    action: "fault_scenario_loaded",
+    component: "simulation",
+    details: { name: scenario.name, steps: scenario.steps },
+  });
+  return scenario.name;
+}
 
 /**
  * GET /api/admin/simulate
  *
  * Admin controls for runtime simulation adjustments
+ * Overrides are shared with the exchange adapters, the guardian and the runner
  *
  * Query params:
  * - drift: Set Indian exchange drift (e.g., 0.02 for 2%)
  * - outage: Simulate exchange outage (e.g., 'india', 'binance', 'nse')
  * - clearOutage: Clear outage simulation (e.g., 'india')
- * - pollMs: Override poll interval in milliseconds
+ * - pollMs: Override poll interval in milliseconds (applies on next runner start)
+ * - scenario: Load a named fault scenario (see `availableScenarios` in the response)
+ * - clearScenario: Stop the loaded fault scenario
  */
 export async function GET(request: NextRequest) {
   try {
@@ -27,6 +74,8 @@ export async function GET(request: NextRequest) {
     const outage = searchParams.get("outage");
     const clearOutage = searchParams.get("clearOutage");
     const pollMs = searchParams.get("pollMs");
+    const scenario = searchParams.get("scenario");
+    const clearScenario = searchParams.get("clearScenario");
 
     const changes: string[] = [];
 
@@ -34,7 +83,7 @@ export async function GET(request: NextRequest) {
     if (drift !== null) {
       const driftValue = parseFloat(drift);
       if (!isNaN(driftValue)) {
-        simulationState.indianDriftOverride = driftValue;
+        setIndianDriftOverride(driftValue);
         changes.push(`Indian drift set to ${(driftValue * 100).toFixed(2)}%`);
 
         // Update settings for Indian exchange
@@ -50,8 +99,7 @@ export async function GET(request: NextRequest) {
     // Handle exchange outage
     if (outage) {
       const exchange = outage.toLowerCase();
-      if (!simulationState.exchangeOutages.includes(exchange)) {
-        simulationState.exchangeOutages.push(exchange);
+      if (setExchangeOutage(exchange, true)) {
         changes.push(`${exchange} outage simulated`);
       }
     }
@@ -59,9 +107,7 @@ export async function GET(request: NextRequest) {
     // Handle clear outage
     if (clearOutage) {
       const exchange = clearOutage.toLowerCase();
-      const index = simulationState.exchangeOutages.indexOf(exchange);
-      if (index > -1) {
-        simulationState.exchangeOutages.splice(index, 1);
+      if (setExchangeOutage(exchange, false)) {
         changes.push(`${exchange} outage cleared`);
       }
     }
@@ -69,16 +115,41 @@ export async function GET(request: NextRequest) {
     // Handle poll interval
     if (pollMs !== null) {
       const pollValue = parseInt(pollMs);
-      if (!isNaN(pollValue) && pollValue >= 500) {
-        simulationState.pollIntervalOverride = pollValue;
-        changes.push(`Poll interval set to ${pollValue}ms`);
+      if (!isNaN(pollValue) && pollValue >= MIN_POLL_INTERVAL_MS) {
+        setPollIntervalOverride(pollValue);
+        changes.push(
+          getRunnerStatus().isRunning
+            ? `Poll interval set to ${pollValue}ms (takes effect when the runner restarts)`
+            : `Poll interval set to ${pollValue}ms`
+        );
       }
     }
 
+    // Handle fault scenarios
+    if (clearScenario !== null && getActiveScenario()) {
+      clearFaultScenario();
+      changes.push("Fault scenario cleared");
+    }
+
+    if (scenario) {
+      if (!listFaultScenarios().some((s) => s.name === scenario)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Unknown fault scenario: ${scenario}`,
+            availableScenarios: listFaultScenarios().map((s) => s.name),
+          },
+          { status: 400 }
+        );
+      }
+      changes.push(`Fault scenario ${startScenario(scenario)} loaded`);
+    }
+
     return NextResponse.json({
       success: true,
       changes,
-      currentState: simulationState,
+      currentState: currentState(),
+      availableScenarios: listFaultScenarios().map(({ name, description }) => ({ name, description })),
       message:
         changes.length > 0 ? "Simulation state updated" : "No changes made",
     });
@@ -98,30 +169,59 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/admin/simulate
  *
- * Reset all simulation overrides
+ * Body:
+ * - { reset: true }: Reset all simulation overrides and stop any fault scenario
+ * - { scenario: "name" }: Load a built-in fault scenario
+ * - { scenario: { name, description?, steps: [{ exchange, fault, atMs, durationMs?, params? }] } }:
+ *   Load a custom fault timeline
  */
 export async function POST(request: NextRequest) {
   try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
     const body = await request.json().catch(() => ({}));
 
     if (body.reset === true) {
-      simulationState = {
-        indianDriftOverride: null,
-        exchangeOutages: [],
-        pollIntervalOverride: null,
-      };
+      resetSimulationControls();
+      clearFaultScenario();
 
       return NextResponse.json({
         success: true,
         message: "All simulation overrides reset",
-        currentState: simulationState,
+        currentState: currentState(),
+      });
+    }
+
+    if (body.scenario) {
+      let name: string;
+      try {
+        name = startScenario(body.scenario);
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error instanceof Error ? error.message : "Invalid scenario",
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: `Fault scenario ${name} loaded`,
+        currentState: currentState(),
       });
     }
 
     return NextResponse.json(
       {
         success: false,
-        message: "Invalid request. Use {reset: true} to reset",
+        message: "Invalid request. Use {reset: true} to reset or {scenario} to load faults",
       },
       { status: 400 }
     );
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { assessRisk } from '@/lib/agents/riskAssessment';
 import { Opportunity } from '@/lib/arbitrage/detector';
 import { addAuditLog } from '@/lib/state/auditLog';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
 
 /**
  * POST /api/agents/risk
@@ -16,6 +17,13 @@ import { addAuditLog } from '@/lib/state/auditLog';
  */
 export async function POST(request: NextRequest) {
   try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
     const body = await request.json();
     const { opportunity, targetQuantity = 1 } = body;
 
@@ -1,17 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { startRunner } from '@/lib/agents/runner';
+import { getRngSeed } from '@/lib/state/rng';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
 
 /**
  * POST /api/agents/runner/start
  * 
  * Start the autonomous runner
+ * Body: { pollMs?: number, seed?: number } - pass a previous session's seed to replay it
  */
 export async function POST(request: NextRequest) {
   try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
     const body = await request.json().catch(() => ({}));
-    const { pollMs = 2000 } = body;
+    const { pollMs = 2000, seed } = body;
+
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'seed must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
 
-    const started = startRunner(pollMs);
+    const started = startRunner(pollMs, seed);
 
     if (!started) {
       return NextResponse.json({
@@ -25,6 +42,7 @@ export async function POST(request: NextRequest) {
       success: true,
       status: 'running',
       pollMs,
+      seed: getRngSeed(),
       message: 'Autonomous runner started successfully'
     });
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { discoverPrices } from '@/lib/agents/priceDiscovery';
 import { detectArbitrage } from '@/lib/arbitrage/detector';
+import { getAverageSpread } from '@/lib/arbitrage/spread';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
 
 /**
  * GET /api/arbitrage/detect
@@ -12,9 +14,18 @@ import { detectArbitrage } from '@/lib/arbitrage/detector';
  * - minSpreadPct: minimum spread percentage (default: 0.5)
  * - persistenceMs: time persistence required in ms (default: 2000)
  * - minPersistenceCount: minimum consecutive polls required (default: 2)
+ * 
+ * Each opportunity carries `spreadStats` for its exchange pair over the last hour
  */
 export async function GET(request: NextRequest) {
   try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const symbolsParam = searchParams.get('symbols');
     const minSpreadPct = parseFloat(searchParams.get('minSpreadPct') || '0.5');
@@ -35,9 +46,15 @@ export async function GET(request: NextRequest) {
       minPersistenceCount
     });
 
+    // Attach spread history so callers can tell normal spreads from abnormal ones
+    const enriched = await Promise.all(opportunities.map(async opp => ({
+      ...opp,
+      spreadStats: await getAverageSpread(opp.symbol, [opp.buyExchange, opp.sellExchange], 60)
+    })));
+
     return NextResponse.json({
       success: true,
-      opportunities,
+      opportunities: enriched,
       scannedSymbols: symbols.length,
       foundOpportunities: opportunities.length,
       filters: {
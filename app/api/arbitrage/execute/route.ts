@@ -1,21 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { executeArbitrageWithPartialFills } from '@/lib/agents/executionEngine';
+import { validateOpportunity } from '@/lib/arbitrage/detector';
+import { addAuditLog } from '@/lib/state/auditLog';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
 
 /**
  * POST /api/arbitrage/execute
  * 
  * Execute arbitrage opportunity with partial fill handling
+ * The opportunity is re-quoted first; one older than the maximum age or whose
+ * net edge has decayed below the floor is rejected with 409, as is any
+ * request while a backtest is running
  * 
  * Body:
  * {
  *   opportunity: Opportunity;
  *   allocatedUSDT: number;
+ *   risk?: { slippagePct: number; buySlippagePct: number }; // picks limit vs market per leg
  * }
  */
 export async function POST(request: NextRequest) {
   try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
     const body = await request.json();
-    const { opportunity, allocatedUSDT } = body;
+    const { opportunity, allocatedUSDT, risk } = body;
 
     if (!opportunity || !allocatedUSDT) {
       return NextResponse.json(
@@ -24,11 +38,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Execute arbitrage with partial fill handling
-    const result = await executeArbitrageWithPartialFills(opportunity, allocatedUSDT);
+    // Pre-trade gate on current quotes, fees and depth
+    const revalidation = await validateOpportunity(opportunity, { allocationUSDT: allocatedUSDT });
+
+    if (!revalidation.valid) {
+      addAuditLog({
+        action: 'execution_aborted',
+        component: 'api',
+        opportunityId: opportunity.id,
+        details: {
+          symbol: opportunity.symbol,
+          reason: revalidation.reason,
+          ageMs: revalidation.ageMs,
+          spreadPct: revalidation.spreadPct,
+          netEdgePct: revalidation.netEdgePct
+        },
+        eventType: 'execution'
+      });
+
+      return NextResponse.json(
+        { success: false, error: 'Opportunity no longer viable', details: revalidation.reason, revalidation },
+        { status: 409 }
+      );
+    }
+
+    // Execute arbitrage with partial fill handling at the re-quoted prices
+    const result = await executeArbitrageWithPartialFills(
+      { ...opportunity, buyPrice: revalidation.buyPrice, sellPrice: revalidation.sellPrice },
+      allocatedUSDT,
+      risk
+    );
 
     return NextResponse.json({
       ...result,
+      revalidation,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
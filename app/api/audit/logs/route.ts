@@ -4,7 +4,7 @@ import { getAuditLog, getEnhancedAuditLog } from "@/lib/state/auditLog";
 /**
  * GET /api/audit/logs
  * Returns audit log entries with optional filtering
- * Query params: ?limit=20&enhanced=true
+ * Query params: ?limit=20&enhanced=true&seed=12345
  */
 export async function GET(request: Request) {
   try {
@@ -12,6 +12,7 @@ export async function GET(request: Request) {
     const eventType = searchParams.get("eventType") || undefined;
     const agentName = searchParams.get("agentName") || undefined;
     const opportunityId = searchParams.get("opportunityId") || undefined;
+    const seed = searchParams.get("seed") ? parseInt(searchParams.get("seed")!) : undefined;
     const limit = searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : 20;
     const enhanced = searchParams.get("enhanced") === "true";
 
@@ -31,6 +32,7 @@ export async function GET(request: Request) {
       eventType,
       agentName,
       opportunityId,
+      seed,
       limit,
     });
 
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  runBacktest,
+  checkBacktestDeterminism,
+  getBacktestResult,
+  listBacktestResults,
+  listDatasets
+} from '@/lib/backtest/engine';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
+
+/**
+ * POST /api/backtest
+ * 
+ * Run the agent pipeline over a recorded dataset
+ * One backtest runs at a time; live quote, order and runner endpoints answer
+ * 409 until it finishes
+ * 
+ * Body:
+ * {
+ *   dataset?: string;          // file name in lib/data/replay (default sample.jsonl)
+ *   symbols?: string[];
+ *   stepMs?: number;           // virtual clock step (default 2000)
+ *   initialCapital?: number;
+ *   maxTradeAmount?: number;
+ *   minSpreadPct?: number;
+ *   minPersistenceCount?: number;
+ *   executeConfidenceThreshold?: number;
+ *   guardian?: Partial<GuardianConfig>;
+ *   seed?: number;
+ *   checkDeterminism?: boolean; // run twice on one seed and report any difference
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
+    const { checkDeterminism, ...body } = await request.json().catch(() => ({}));
+
+    if (checkDeterminism === true) {
+      const check = await checkBacktestDeterminism(body);
+      return NextResponse.json({
+        success: true,
+        deterministic: check.deterministic,
+        seed: check.seed,
+        mismatches: check.mismatches,
+        results: check.results,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await runBacktest(body);
+
+    return NextResponse.json({
+      success: true,
+      result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Backtest error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Backtest failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/backtest
+ * 
+ * List recent backtest results and available datasets
+ * 
+ * Query params:
+ * - id: Return a single result
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (id) {
+      const result = getBacktestResult(id);
+      if (!result) {
+        return NextResponse.json(
+          { success: false, error: `Backtest ${id} not found` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, result });
+    }
+
+    return NextResponse.json({
+      success: true,
+      datasets: listDatasets(),
+      results: listBacktestResults()
+    });
+  } catch (error) {
+    console.error('Error fetching backtests:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch backtests',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkInventoryBands } from '@/lib/agents/inventoryManager';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
+import { findExchange } from '@/lib/exchanges/registry';
+import { recordDeposit } from '@/lib/state/ledger';
+import { refreshPortfolio } from '@/lib/state/portfolio';
+
+/**
+ * POST /api/inventory/deposit
+ * Pre-fund a venue with base asset for inventory arbitrage
+ *
+ * Body: { exchange: string, symbol: string, quantity: number, unitCostUSDT?: number }
+ * Without a unit cost the deposit is carried at the venue's current price
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
+    const { exchange, symbol, quantity, unitCostUSDT } = await request.json();
+
+    const venue = typeof exchange === 'string' ? findExchange(exchange) : undefined;
+    if (!venue || typeof symbol !== 'string' || !(quantity > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'A known exchange, symbol and positive quantity are required' },
+        { status: 400 }
+      );
+    }
+
+    const cost = unitCostUSDT ?? (await venue.getTicker(symbol)).price;
+    const transaction = recordDeposit(venue.id, symbol, quantity, cost);
+    refreshPortfolio();
+
+    return NextResponse.json({
+      success: true,
+      transaction,
+      rebalanceTasks: checkInventoryBands()
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to record deposit',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
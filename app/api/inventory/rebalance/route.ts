@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeRebalanceTask, getRebalanceTasks } from '@/lib/agents/inventoryManager';
+
+/**
+ * POST /api/inventory/rebalance
+ * Carry out an open rebalancing task, moving its inventory between venues
+ *
+ * Body: { taskId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId } = await request.json();
+
+    if (typeof taskId !== 'string' || taskId.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'taskId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!getRebalanceTasks('open').some(task => task.id === taskId)) {
+      return NextResponse.json(
+        { success: false, error: `No open rebalancing task ${taskId}` },
+        { status: 404 }
+      );
+    }
+
+    const task = completeRebalanceTask(taskId);
+
+    return NextResponse.json({
+      success: true,
+      task
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to rebalance inventory',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
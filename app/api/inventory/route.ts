@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkInventoryBands,
+  getInventorySkew,
+  getRebalanceTasks,
+  setExecutionMode,
+  updateInventoryBand
+} from '@/lib/agents/inventoryManager';
+import { getSettings } from '@/lib/state/settings';
+
+/**
+ * GET /api/inventory
+ * Inventory per venue with its skew against the configured bands, and the
+ * rebalancing tasks raised for venues outside them
+ */
+export async function GET() {
+  try {
+    checkInventoryBands();
+
+    return NextResponse.json({
+      success: true,
+      executionMode: getSettings().executionMode,
+      skew: getInventorySkew(),
+      tasks: getRebalanceTasks()
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load inventory',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inventory
+ * Switch execution mode and set inventory bands
+ *
+ * Body: { executionMode?: 'transfer' | 'inventory', bands?: { [asset]: { minShare, maxShare } } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { executionMode, bands = {} } = await request.json();
+
+    try {
+      if (executionMode !== undefined) setExecutionMode(executionMode);
+      for (const [asset, band] of Object.entries(bands as Record<string, any>)) {
+        updateInventoryBand(asset, band);
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid inventory settings' },
+        { status: 400 }
+      );
+    }
+
+    const settings = getSettings();
+    return NextResponse.json({
+      success: true,
+      executionMode: settings.executionMode,
+      bands: settings.inventoryBands
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update inventory settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
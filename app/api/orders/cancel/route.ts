@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelOrder, getOpenOrders } from '@/lib/agents/executionEngine';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
+
+/**
+ * POST /api/orders/cancel
+ * Cancel a resting order
+ *
+ * Body: { orderId: string, exchange?: string, symbol?: string }
+ * exchange and symbol are only needed for orders placed outside the engine
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
+    const { orderId, exchange = '', symbol = '' } = await request.json();
+
+    if (typeof orderId !== 'string' || orderId.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'orderId is required' },
+        { status: 400 }
+      );
+    }
+
+    const tracked = getOpenOrders().some(o => o.orderId === orderId || o.venueOrderId === orderId);
+    if (!tracked && !exchange) {
+      return NextResponse.json(
+        { success: false, error: `No open order ${orderId}; pass exchange and symbol for orders placed elsewhere` },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelOrder(orderId, exchange, symbol);
+
+    return NextResponse.json({
+      success: cancelled,
+      orderId,
+      error: cancelled ? undefined : 'Order is not resting or could not be cancelled'
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to cancel order',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { syncOpenOrders } from '@/lib/agents/executionEngine';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
+
+/**
+ * GET /api/orders
+ * Resting limit orders, after posting any fills they picked up
+ */
+export async function GET() {
+  try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
+    const orders = await syncOpenOrders();
+
+    return NextResponse.json({
+      success: true,
+      orders,
+      count: orders.length
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load open orders',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { discoverPrices } from '@/lib/agents/priceDiscovery';
+import { isBacktestActive, backtestBusyMessage } from '@/lib/backtest/guard';
 
 /**
  * GET /api/prices
@@ -11,6 +12,13 @@ import { discoverPrices } from '@/lib/agents/priceDiscovery';
  */
 export async function GET(request: NextRequest) {
   try {
+    if (isBacktestActive()) {
+      return NextResponse.json(
+        { success: false, error: backtestBusyMessage() },
+        { status: 409 }
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const symbolsParam = searchParams.get('symbols');
 
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listFeeSchedules, resetFeeSchedule, updateFeeSchedule } from '@/lib/exchanges/fees';
+
+/**
+ * GET /api/settings/fees
+ * Effective fee schedule for every exchange
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    schedules: listFeeSchedules()
+  });
+}
+
+/**
+ * POST /api/settings/fees
+ * Update one exchange's fee schedule
+ *
+ * Body: { exchange: string, vipLevel?, tiers?, levies?, withdrawal?, network?, reset?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { exchange, reset, ...updates } = await request.json();
+
+    if (typeof exchange !== 'string' || exchange.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'exchange is required' },
+        { status: 400 }
+      );
+    }
+
+    let schedule;
+    try {
+      schedule = reset ? resetFeeSchedule(exchange) : updateFeeSchedule(exchange, updates);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid fee schedule' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      exchange,
+      schedule
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update fee schedule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
-import { getPortfolio } from "@/lib/state/portfolio";
+import { getValuedPortfolio } from "@/lib/state/portfolio";
+import { getEquityCurve } from "@/lib/state/equityCurve";
 import { getSettings } from "@/lib/state/settings";
 import { getRunnerStatus, getGuardianConfig } from "@/lib/agents/runner";
 import { getExecutionLog } from "@/lib/state/executionLog";
@@ -7,14 +8,16 @@ import { getExecutionLog } from "@/lib/state/executionLog";
 /**
  * GET /api/state
  * Returns current system state (portfolio, settings, runner status, recent executions, guardian)
+ * The portfolio is marked to market, with realized and unrealized P&L
  */
 export async function GET() {
   try {
-    const portfolio = getPortfolio();
+    const portfolio = await getValuedPortfolio();
     const settings = getSettings();
     const runnerStatus = getRunnerStatus();
     const guardianSettings = getGuardianConfig();
     const executionLogRecent = getExecutionLog().slice(-10); // Last 10 executions
+    const equityCurve = getEquityCurve(200);
 
     return NextResponse.json({
       portfolio,
@@ -22,6 +25,7 @@ export async function GET() {
       runnerStatus,
       guardianSettings,
       executionLogRecent,
+      equityCurve,
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -179,6 +179,11 @@ export default function ArbitragePage() {
                     {analysisResult.risk.riskScore}/100
                   </p>
                   <p className="text-xs text-zinc-500 mt-1">{analysisResult.risk.notes?.[0] || "No risk notes available"}</p>
+                  {analysisResult.risk.spreadAbnormal && (
+                    <p className="text-xs text-amber-400 mt-1">
+                      Abnormal spread (z={analysisResult.risk.spreadZScore?.toFixed(1)})
+                    </p>
+                  )}
                 </div>
                 <div className="p-4 rounded-lg bg-white/5">
                   <p className="text-sm text-zinc-400">Recommended Allocation</p>
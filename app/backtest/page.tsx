@@ -0,0 +1,284 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import SimpleLineChart from "@/components/charts/SimpleLineChart";
+import { FlaskConical, Play } from "lucide-react";
+
+export default function BacktestPage() {
+  const [datasets, setDatasets] = useState<string[]>([]);
+  const [results, setResults] = useState<any[]>([]);
+  const [selected, setSelected] = useState<any>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    dataset: "sample.jsonl",
+    symbols: "BTCUSDT,ETHUSDT",
+    stepMs: 2000,
+    initialCapital: 10000,
+    minSpreadPct: 0.5,
+  });
+
+  const fetchResults = async () => {
+    try {
+      const res = await fetch('/api/backtest');
+      const data = await res.json();
+      if (data.success) {
+        setDatasets(data.datasets || []);
+        setResults(data.results || []);
+        if (!selected && data.results?.length > 0) {
+          setSelected(data.results[0]);
+        }
+      }
+    } catch (err) {
+      console.error("Failed to fetch backtests:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchResults();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const runBacktest = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          symbols: form.symbols.split(',').map(s => s.trim().toUpperCase()).filter(Boolean),
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setSelected(data.result);
+        await fetchResults();
+      } else {
+        setError(data.details || data.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backtest failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const metrics = selected?.metrics;
+  const equityData = (selected?.equityCurve || []).map((point: any) => ({
+    time: new Date(point.ts).toLocaleTimeString('en-US'),
+    price: point.equity,
+  }));
+
+  const stats = metrics ? [
+    { label: "Total P&L", value: `${metrics.totalPnL >= 0 ? '+' : ''}$${metrics.totalPnL.toFixed(2)}`, positive: metrics.totalPnL >= 0 },
+    { label: "Return", value: `${metrics.returnPct.toFixed(3)}%`, positive: metrics.returnPct >= 0 },
+    { label: "Trades", value: metrics.tradeCount },
+    { label: "Hit Rate", value: `${(metrics.hitRate * 100).toFixed(1)}%` },
+    { label: "Max Drawdown", value: `$${metrics.maxDrawdown.toFixed(2)} (${metrics.maxDrawdownPct.toFixed(2)}%)` },
+    { label: "Avg Fill Ratio", value: `${(metrics.avgFillRatio * 100).toFixed(1)}%` },
+    { label: "Min Fill Ratio", value: `${(metrics.minFillRatio * 100).toFixed(1)}%` },
+    { label: "Partial Fills", value: metrics.partialFills },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Backtesting</h1>
+          <p className="text-zinc-400">Replay recorded market data through the full agent pipeline</p>
+        </div>
+      </div>
+
+      {/* Run Configuration */}
+      <div className="glass-card p-6">
+        <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-blue-400" />
+          New Backtest
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Dataset
+            <select
+              value={form.dataset}
+              onChange={(e) => setForm({ ...form, dataset: e.target.value })}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            >
+              {(datasets.length > 0 ? datasets : [form.dataset]).map((name) => (
+                <option key={name} value={name} className="bg-zinc-900">{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Symbols
+            <input
+              value={form.symbols}
+              onChange={(e) => setForm({ ...form, symbols: e.target.value })}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Step (ms)
+            <input
+              type="number"
+              value={form.stepMs}
+              onChange={(e) => setForm({ ...form, stepMs: Number(e.target.value) })}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Initial Capital ($)
+            <input
+              type="number"
+              value={form.initialCapital}
+              onChange={(e) => setForm({ ...form, initialCapital: Number(e.target.value) })}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Min Spread (%)
+            <input
+              type="number"
+              step="0.1"
+              value={form.minSpreadPct}
+              onChange={(e) => setForm({ ...form, minSpreadPct: Number(e.target.value) })}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            />
+          </label>
+        </div>
+        <div className="flex items-center gap-4 mt-4">
+          <button
+            onClick={runBacktest}
+            disabled={running}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 border border-blue-500/20 transition-colors disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            {running ? "Running..." : "Run Backtest"}
+          </button>
+          {error && <span className="text-sm text-red-400">{error}</span>}
+        </div>
+      </div>
+
+      {selected && (
+        <>
+          {/* Metrics */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="glass-card p-4">
+                <p className="text-xs text-zinc-500 mb-1">{stat.label}</p>
+                <p className={`font-mono font-bold text-lg ${
+                  stat.positive === undefined ? "text-white" : stat.positive ? "text-emerald-400" : "text-red-400"
+                }`}>
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Equity Curve */}
+            <div className="glass-card p-6 lg:col-span-2">
+              <h3 className="text-lg font-bold text-white mb-4">Equity Curve</h3>
+              <div className="h-64">
+                <SimpleLineChart data={equityData} />
+              </div>
+            </div>
+
+            {/* Pipeline Breakdown */}
+            <div className="glass-card p-6">
+              <h3 className="text-lg font-bold text-white mb-4">Pipeline</h3>
+              <div className="space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">Steps</span>
+                  <span className="text-white font-mono">{selected.steps}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">Opportunities</span>
+                  <span className="text-white font-mono">{selected.opportunitiesSeen}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">Debate waits</span>
+                  <span className="text-white font-mono">{selected.debateWaits}</span>
+                </div>
+                <div className="pt-3 border-t border-white/5">
+                  <p className="text-zinc-500 mb-2">Guardian vetoes</p>
+                  {Object.keys(selected.guardianVetoes).length === 0 ? (
+                    <p className="text-zinc-600 text-xs">None</p>
+                  ) : (
+                    Object.entries(selected.guardianVetoes).map(([rule, count]) => (
+                      <div key={rule} className="flex justify-between">
+                        <span className="text-zinc-400 text-xs">{rule.replace(/_/g, ' ')}</span>
+                        <span className="text-amber-400 font-mono">{count as number}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Trades */}
+          <div className="glass-card p-6">
+            <h3 className="text-lg font-bold text-white mb-4">Simulated Trades</h3>
+            {selected.trades.length === 0 ? (
+              <div className="text-zinc-500 text-center py-4">No trades executed</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-zinc-500 text-xs">
+                      <th className="pb-2">Time</th>
+                      <th className="pb-2">Symbol</th>
+                      <th className="pb-2">Route</th>
+                      <th className="pb-2 text-right">Allocated</th>
+                      <th className="pb-2 text-right">Fill</th>
+                      <th className="pb-2 text-right">Net P&L</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.trades.map((trade: any, i: number) => (
+                      <tr key={i} className="border-t border-white/5">
+                        <td className="py-2 text-zinc-400">{new Date(trade.ts).toLocaleTimeString('en-US')}</td>
+                        <td className="py-2 text-white font-bold">{trade.symbol}</td>
+                        <td className="py-2 text-zinc-400 capitalize">{trade.buyExchange} → {trade.sellExchange}</td>
+                        <td className="py-2 text-right font-mono text-zinc-300">${trade.allocatedUSDT.toFixed(2)}</td>
+                        <td className="py-2 text-right font-mono text-zinc-300">{(trade.fillRatio * 100).toFixed(1)}%</td>
+                        <td className={`py-2 text-right font-mono ${trade.netProfit >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+                          {trade.netProfit >= 0 ? '+' : ''}${trade.netProfit.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* History */}
+      {results.length > 0 && (
+        <div className="glass-card p-6">
+          <h3 className="text-lg font-bold text-white mb-4">Recent Runs</h3>
+          <div className="space-y-2">
+            {results.map((run) => (
+              <button
+                key={run.id}
+                onClick={() => setSelected(run)}
+                className={`w-full flex justify-between items-center p-3 rounded-xl border transition-colors ${
+                  selected?.id === run.id ? "bg-white/10 border-white/10" : "bg-white/5 border-white/5 hover:bg-white/10"
+                }`}
+              >
+                <span className="text-sm text-white">{run.dataset} · {run.config.symbols.join(', ')}</span>
+                <span className="text-xs text-zinc-500">
+                  {run.metrics.tradeCount} trades · {new Date(run.startedAt).toLocaleString('en-US')}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
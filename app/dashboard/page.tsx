@@ -63,7 +63,11 @@ export default function DashboardPage() {
             details: {
               symbol: exec.buyOrder?.symbol,
               netProfit: exec.profit,
-              opportunity: exec.buyOrder?.symbol
+              opportunity: exec.buyOrder?.symbol,
+              buyLatencyMs: exec.buyLatencyMs,
+              sellLatencyMs: exec.sellLatencyMs,
+              legSkewMs: exec.legSkewMs,
+              legTimedOut: exec.legTimedOut
             },
             eventType: exec.status
           })).reverse();
@@ -3,11 +3,15 @@
 import React, { useEffect, useState } from "react";
 import PortfolioBalance from "@/components/PortfolioBalance";
 import AllocationChart from "@/components/AllocationChart";
-import { ArrowRight, History } from "lucide-react";
+import SimpleLineChart from "@/components/charts/SimpleLineChart";
+import { ArrowRight, History, Landmark } from "lucide-react";
+
+const CASH_ASSETS = ["USDT", "INR"];
 
 export default function PortfolioPage() {
   const [portfolio, setPortfolio] = useState<any>(null);
   const [transactions, setTransactions] = useState<any[]>([]);
+  const [equityData, setEquityData] = useState<any[]>([]);
 
   const fetchData = async () => {
     try {
@@ -19,16 +23,26 @@ export default function PortfolioPage() {
         const transformedPortfolio = {
           totalValue: stateData.portfolio.totalValue,
           usdtBalance: stateData.portfolio.cash, // Map cash to usdtBalance
-          positions: stateData.portfolio.positions || []
+          positions: stateData.portfolio.positions || [],
+          balances: stateData.portfolio.balances || [],
+          realizedPnL: stateData.portfolio.realizedPnL,
+          unrealizedPnL: stateData.portfolio.unrealizedPnL
         };
         setPortfolio(transformedPortfolio);
       }
 
+      if (stateData.equityCurve) {
+        setEquityData(stateData.equityCurve.map((point: any) => ({
+          time: new Date(point.timestamp).toLocaleTimeString('en-US'),
+          price: point.totalValue
+        })));
+      }
+
       if (stateData.executionLogRecent) {
         setTransactions(stateData.executionLogRecent.map((exec: any) => ({
-          type: exec.status === 'completed' ? 'Trade Profit' : 'Execution',
+          type: exec.status === 'completed' ? 'Trade Profit' : exec.type === 'hedge' ? 'Hedge Unwind' : 'Execution',
           asset: exec.symbol || 'USDT',
-          amount: exec.profit ? `+$${exec.profit.toFixed(2)}` : '$0.00',
+          amount: exec.profit ? `${exec.profit < 0 ? '-' : '+'}$${Math.abs(exec.profit).toFixed(2)}` : '$0.00',
           status: exec.status,
           time: new Date(exec.completedAt || exec.timestamp).toLocaleTimeString('en-US')
         })).reverse());
@@ -59,6 +73,18 @@ export default function PortfolioPage() {
 
       <PortfolioBalance portfolio={portfolio} />
 
+      {/* Marked-to-market equity, one point per runner poll */}
+      <div className="glass-card p-6">
+        <h3 className="text-lg font-bold text-white mb-4">Equity Curve</h3>
+        {equityData.length === 0 ? (
+          <div className="text-zinc-500 text-center py-4">Start the runner to record equity snapshots</div>
+        ) : (
+          <div className="h-64">
+            <SimpleLineChart data={equityData} />
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <AllocationChart portfolio={portfolio} />
         
@@ -96,6 +122,53 @@ export default function PortfolioPage() {
           </div>
         </div>
       </div>
+
+      {/* Per-exchange ledger balances */}
+      <div className="glass-card p-6">
+        <h3 className="text-lg font-bold text-white mb-6 flex items-center gap-2">
+          <Landmark className="w-5 h-5 text-zinc-400" />
+          Exchange Balances
+        </h3>
+        {!portfolio?.balances?.length ? (
+          <div className="text-zinc-500 text-center py-4">No balances recorded</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-zinc-500 border-b border-white/5">
+                <th className="pb-3 font-medium">Exchange</th>
+                <th className="pb-3 font-medium">Asset</th>
+                <th className="pb-3 font-medium text-right">Balance</th>
+                <th className="pb-3 font-medium text-right">Value (USDT)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.balances.map((b: any) => {
+                // Non-cash balances are inventory left behind by partially filled sells
+                const inventory = !CASH_ASSETS.includes(b.asset) && b.balance !== 0;
+                return (
+                  <tr key={`${b.exchange}-${b.asset}`} className="border-b border-white/5 last:border-0">
+                    <td className="py-3 text-zinc-300 capitalize">{b.exchange}</td>
+                    <td className="py-3">
+                      <span className="font-bold text-white">{b.asset}</span>
+                      {inventory && (
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded bg-orange-500/10 text-orange-400 border border-orange-500/20">
+                          Open inventory
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 text-right font-mono text-zinc-300">
+                      {b.balance.toLocaleString('en-US', { maximumFractionDigits: CASH_ASSETS.includes(b.asset) ? 2 : 6 })}
+                    </td>
+                    <td className="py-3 text-right font-mono text-white">
+                      ${b.valueUSDT.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
     </div>
   );
 }
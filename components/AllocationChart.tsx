@@ -7,7 +7,7 @@ interface AllocationChartProps {
   portfolio?: {
     totalValue: number;
     usdtBalance: number;
-    positions: Record<string, any>;
+    positions: any[];
   };
 }
 
@@ -23,11 +23,11 @@ const AllocationChart = ({ portfolio }: AllocationChartProps) => {
       percent: (usdtBalance / totalValue) * 100,
       color: "bg-blue-500" 
     },
-    ...Object.entries(portfolio?.positions || {}).map(([symbol, pos]: [string, any], i) => {
+    ...(portfolio?.positions || []).map((pos: any, i) => {
       const colors = ["bg-orange-500", "bg-purple-500", "bg-emerald-500", "bg-pink-500", "bg-yellow-500"];
-      const value = pos.quantity * pos.currentPrice; // Approximate value if currentPrice available, else use entryPrice
+      const value = pos.quantity * (pos.currentPrice ?? pos.averagePrice); // Cost basis until marked to market
       return {
-        asset: symbol,
+        asset: `${pos.symbol} (${pos.exchange})`,
         amount: value,
         percent: (value / totalValue) * 100,
         color: colors[i % colors.length]
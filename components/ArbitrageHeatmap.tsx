@@ -7,8 +7,10 @@ interface Opportunity {
   symbol: string;
   spreadPct: number;
   estimatedGrossProfitPct: number;
-  binancePrice: number;
-  indianPrice: number;
+  buyExchange: string;
+  sellExchange: string;
+  buyPrice: number;
+  sellPrice: number;
 }
 
 interface ArbitrageHeatmapProps {
@@ -55,12 +57,12 @@ const ArbitrageHeatmap = ({ opportunities = [] }: ArbitrageHeatmapProps) => {
 
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between items-center">
-                  <span className="text-zinc-500 text-xs">Binance</span>
-                  <span className="text-zinc-300">${opp.binancePrice.toLocaleString()}</span>
+                  <span className="text-zinc-500 text-xs capitalize">Buy · {opp.buyExchange}</span>
+                  <span className="text-zinc-300">${opp.buyPrice.toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-zinc-500 text-xs">Indian</span>
-                  <span className="text-zinc-300">${opp.indianPrice.toLocaleString()}</span>
+                  <span className="text-zinc-500 text-xs capitalize">Sell · {opp.sellExchange}</span>
+                  <span className="text-zinc-300">${opp.sellPrice.toLocaleString()}</span>
                 </div>
                 <div className="pt-2 mt-2 border-t border-white/5 flex justify-between items-center">
                   <span className="text-zinc-500 text-xs">Est. Profit</span>
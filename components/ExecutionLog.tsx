@@ -60,6 +60,15 @@ const ExecutionLog = ({ logs = [] }: ExecutionLogProps) => {
                     {log.eventType}
                   </span>
                 </div>
+                {log.details?.legSkewMs !== undefined && (
+                  <div className={`flex items-center gap-1 mt-1 text-xs font-mono ${
+                    log.details.legTimedOut ? "text-amber-400" : "text-zinc-500"
+                  }`}>
+                    <Clock className="w-3 h-3" />
+                    Legs B {log.details.buyLatencyMs}ms · S {log.details.sellLatencyMs}ms · skew {log.details.legSkewMs}ms
+                    {log.details.legTimedOut && ` · ${log.details.legTimedOut} timed out`}
+                  </div>
+                )}
               </div>
               
               {log.details?.netProfit && (
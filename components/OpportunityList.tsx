@@ -9,9 +9,17 @@ interface Opportunity {
   symbol: string;
   spreadPct: number;
   estimatedGrossProfitPct: number;
-  binancePrice: number;
-  indianPrice: number;
+  buyExchange: string;
+  sellExchange: string;
+  buyPrice: number;
+  sellPrice: number;
   persistenceCount: number;
+  spreadStats?: {
+    mean: number;
+    sampleCount: number;
+    zScore: number;
+    isOutlier: boolean;
+  };
 }
 
 interface OpportunityListProps {
@@ -81,16 +89,24 @@ const OpportunityList = ({
                   </div>
                 </td>
                 <td className="px-6 py-4">
-                  <div className="flex items-center gap-2 text-zinc-400">
-                    <span>Binance</span>
+                  <div className="flex items-center gap-2 text-zinc-400 capitalize">
+                    <span>{opp.buyExchange}</span>
                     <ArrowRight className="w-3 h-3" />
-                    <span>Indian</span>
+                    <span>{opp.sellExchange}</span>
                   </div>
                 </td>
                 <td className="px-6 py-4">
                   <span className="px-2 py-1 rounded bg-emerald-500/10 text-emerald-400 font-bold border border-emerald-500/20">
                     +{opp.spreadPct.toFixed(2)}%
                   </span>
+                  {opp.spreadStats && opp.spreadStats.sampleCount > 0 && (
+                    <div
+                      className={`text-xs mt-2 ${opp.spreadStats.isOutlier ? 'text-amber-400' : 'text-zinc-500'}`}
+                      title={`Mean ${opp.spreadStats.mean.toFixed(2)}% over ${opp.spreadStats.sampleCount} samples`}
+                    >
+                      z {opp.spreadStats.zScore.toFixed(1)}{opp.spreadStats.isOutlier ? ' · abnormal' : ''}
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 font-mono text-white">
                   {opp.estimatedGrossProfitPct.toFixed(2)}%
@@ -7,7 +7,9 @@ interface PortfolioBalanceProps {
   portfolio?: {
     totalValue: number;
     usdtBalance: number;
-    positions: Record<string, any>;
+    positions: any[];
+    realizedPnL?: number;
+    unrealizedPnL?: number;
   };
 }
 
@@ -15,9 +17,13 @@ const PortfolioBalance = ({ portfolio }: PortfolioBalanceProps) => {
   const totalValue = portfolio?.totalValue || 100000;
   const usdtBalance = portfolio?.usdtBalance || 100000;
   const inTrade = totalValue - usdtBalance;
-  const initialBalance = 100000; // Assuming 100k start
-  const profit = totalValue - initialBalance;
-  const profitPct = (profit / initialBalance) * 100;
+  const realizedPnL = portfolio?.realizedPnL || 0;
+  const unrealizedPnL = portfolio?.unrealizedPnL || 0;
+  const profit = realizedPnL + unrealizedPnL;
+  const initialBalance = totalValue - profit;
+  const profitPct = initialBalance > 0 ? (profit / initialBalance) * 100 : 0;
+  const formatPnL = (value: number) =>
+    `${value >= 0 ? '+' : '-'}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -55,15 +61,15 @@ const PortfolioBalance = ({ portfolio }: PortfolioBalanceProps) => {
               </p>
             </div>
             <div>
-              <p className="text-sm text-zinc-500 mb-1">In Active Trades</p>
+              <p className="text-sm text-zinc-500 mb-1">Held Inventory (marked)</p>
               <p className="text-xl font-bold text-blue-400">
                 ${inTrade.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </p>
             </div>
             <div>
-              <p className="text-sm text-zinc-500 mb-1">Total Profit (All Time)</p>
-              <p className={`text-xl font-bold ${profit >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                {profit >= 0 ? '+' : ''}${profit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              <p className="text-sm text-zinc-500 mb-1">Unrealized P&L</p>
+              <p className={`text-xl font-bold ${unrealizedPnL >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatPnL(unrealizedPnL)}
               </p>
             </div>
           </div>
@@ -89,11 +95,19 @@ const PortfolioBalance = ({ portfolio }: PortfolioBalanceProps) => {
           <div>
             <p className="text-zinc-400 font-medium mb-1">Net Profit</p>
             <h3 className={`text-3xl font-bold mb-2 ${profit >= 0 ? 'text-white' : 'text-red-400'}`}>
-              {profit >= 0 ? '+' : ''}${profit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              {formatPnL(profit)}
             </h3>
+            <div className="flex gap-4 text-sm mb-2">
+              <span className="text-zinc-500">
+                Realized <span className={`font-mono font-bold ${realizedPnL >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{formatPnL(realizedPnL)}</span>
+              </span>
+              <span className="text-zinc-500">
+                Unrealized <span className={`font-mono font-bold ${unrealizedPnL >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{formatPnL(unrealizedPnL)}</span>
+              </span>
+            </div>
             <p className="text-sm text-zinc-500">
               <span className={`${profit >= 0 ? 'text-emerald-400' : 'text-red-400'} font-bold`}>
-                {Object.keys(portfolio?.positions || {}).length} active
+                {portfolio?.positions?.length || 0} active
               </span> positions currently open
             </p>
           </div>
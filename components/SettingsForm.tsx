@@ -4,6 +4,12 @@ import React, { useEffect, useState } from "react";
 import { Save, Bell, Shield, Wallet, User, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
+interface FeeSchedule {
+  vipLevel: number;
+  tiers: { vipLevel: number; min30dVolumeUSDT: number; maker: number; taker: number }[];
+  levies: { name: string; rate: number }[];
+}
+
 const SettingsForm = () => {
   const [config, setConfig] = useState({
     maxTradeAmount: 5000,
@@ -12,6 +18,8 @@ const SettingsForm = () => {
     maxExposurePerAsset: 20000,
     requireHumanApproval: false
   });
+  const [feeSchedules, setFeeSchedules] = useState<Record<string, FeeSchedule>>({});
+  const [savedVipLevels, setSavedVipLevels] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
@@ -22,11 +30,21 @@ const SettingsForm = () => {
 
   const fetchConfig = async () => {
     try {
-      const res = await fetch('/api/settings/guardian');
+      const [res, feeRes] = await Promise.all([
+        fetch('/api/settings/guardian'),
+        fetch('/api/settings/fees')
+      ]);
       const data = await res.json();
       if (data.success) {
         setConfig(data.config);
       }
+      const feeData = await feeRes.json();
+      if (feeData.success) {
+        setFeeSchedules(feeData.schedules);
+        setSavedVipLevels(Object.fromEntries(
+          Object.entries(feeData.schedules as Record<string, FeeSchedule>).map(([id, s]) => [id, s.vipLevel])
+        ));
+      }
     } catch (error) {
       console.error("Failed to fetch settings:", error);
     } finally {
@@ -43,7 +61,20 @@ const SettingsForm = () => {
         body: JSON.stringify(config)
       });
       const data = await res.json();
-      if (data.success) {
+      
+      // Only exchanges whose VIP level changed are sent
+      const changed = Object.entries(feeSchedules).filter(([id, s]) => s.vipLevel !== savedVipLevels[id]);
+      const feeResults = await Promise.all(changed.map(([exchange, s]) =>
+        fetch('/api/settings/fees', {
+          method: 'POST',
+          body: JSON.stringify({ exchange, vipLevel: s.vipLevel })
+        }).then(r => r.json())
+      ));
+      if (feeResults.every(r => r.success)) {
+        setSavedVipLevels(Object.fromEntries(Object.entries(feeSchedules).map(([id, s]) => [id, s.vipLevel])));
+      }
+      
+      if (data.success && feeResults.every(r => r.success)) {
         setMessage({ type: 'success', text: 'Settings saved successfully' });
       } else {
         setMessage({ type: 'error', text: 'Failed to save settings' });
@@ -131,6 +162,43 @@ const SettingsForm = () => {
           </div>
         </section>
 
+        {/* Fee Schedule */}
+        <section>
+          <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-emerald-400" />
+            Trading Fees
+          </h3>
+          <div className="space-y-3">
+            {Object.entries(feeSchedules).map(([exchange, schedule]) => {
+              const tier = schedule.tiers.find(t => t.vipLevel === schedule.vipLevel) ?? schedule.tiers[0];
+              const levyRate = schedule.levies.reduce((sum, levy) => sum + levy.rate, 0);
+              return (
+                <div key={exchange} className="flex items-center justify-between p-4 rounded-xl bg-white/5 border border-white/5">
+                  <div>
+                    <span className="text-zinc-300 font-bold block capitalize">{exchange}</span>
+                    <span className="text-xs text-zinc-500 font-mono">
+                      Maker {((tier.maker + levyRate) * 100).toFixed(3)}% · Taker {((tier.taker + levyRate) * 100).toFixed(3)}%
+                      {schedule.levies.length > 0 && ` (incl. ${schedule.levies.map(l => l.name.toUpperCase()).join(', ')})`}
+                    </span>
+                  </div>
+                  <select
+                    value={schedule.vipLevel}
+                    onChange={(e) => setFeeSchedules({
+                      ...feeSchedules,
+                      [exchange]: { ...schedule, vipLevel: parseInt(e.target.value, 10) }
+                    })}
+                    className="bg-black/20 border border-white/5 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                  >
+                    {schedule.tiers.map(t => (
+                      <option key={t.vipLevel} value={t.vipLevel}>VIP {t.vipLevel}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+
         {/* Risk Controls */}
         <section>
           <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
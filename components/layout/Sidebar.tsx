@@ -12,7 +12,8 @@ import {
   Wallet,
   ChevronLeft,
   ChevronRight,
-  Zap
+  Zap,
+  FlaskConical
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useLayout } from "@/context/LayoutContext";
@@ -27,6 +28,7 @@ const Sidebar = () => {
     { name: "Agents", href: "/agents", icon: Bot },
     { name: "Markets", href: "/markets", icon: LineChart },
     { name: "Portfolio", href: "/portfolio", icon: Wallet },
+    { name: "Backtest", href: "/backtest", icon: FlaskConical },
     { name: "Settings", href: "/settings", icon: Settings },
   ];
 
@@ -0,0 +1,15 @@
+/**
+ * Server startup hook
+ * Reconciles executions a previous process left mid-flight before any new
+ * trade can start
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { recoverInFlightExecutions } = await import('@/lib/agents/recovery');
+  try {
+    await recoverInFlightExecutions();
+  } catch (error) {
+    console.error('[Recovery] Startup recovery failed:', error);
+  }
+}
@@ -403,14 +403,16 @@ export interface DebateResult {
 
 /**
  * Conduct debate with median consensus using Groq llama-3.3-70b-versatile
+ * `fallbackOnly` skips the LLM and uses deterministic scoring (backtests)
  */
 export async function debateWithMedianConsensus(
   opportunity: any,
   risk: any,
   allocation: any,
-  executeConfidenceThreshold: number = 0.6
+  executeConfidenceThreshold: number = 0.6,
+  opts: { fallbackOnly?: boolean } = {}
 ): Promise<DebateResult> {
-  const client = getGroqClient();
+  const client = opts.fallbackOnly ? null : getGroqClient();
   
   if (!client) {
     return fallbackDebateResult(opportunity, risk, allocation, executeConfidenceThreshold);
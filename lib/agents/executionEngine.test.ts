@@ -0,0 +1,60 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep the live state database out of the run
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'execution-engine-test-'));
+process.env.STATE_DB_PATH = path.join(stateDir, 'state.db');
+after(() => fs.rmSync(stateDir, { recursive: true, force: true }));
+
+test('a triangular cycle books its cross leg in the quote coin at USDT cost', async () => {
+  const { startReplay, stopReplay } = await import('../exchanges/replay');
+  const { resetSimulatedBooks } = await import('../exchanges/indianBook');
+  const { detectTriangularArbitrage } = await import('../arbitrage/triangular');
+  const { executeTriangularCycle } = await import('./executionEngine');
+  const { getFeesPaidUSDT, getHoldings } = await import('../state/ledger');
+
+  const ts = 1_700_000_000_000;
+  startReplay([
+    { ts, type: 'ticker', exchange: 'binance', symbol: 'BTCUSDT', price: 60_000 },
+    { ts, type: 'ticker', exchange: 'binance', symbol: 'ETHUSDT', price: 3_000 },
+    { ts, type: 'ticker', exchange: 'binance', symbol: 'ETHBTC', price: 0.05 }
+  ]);
+  resetSimulatedBooks();
+  try {
+    const [cycle] = await detectTriangularArbitrage({
+      exchanges: ['wazirx'],
+      triangles: [['USDT', 'BTC', 'ETH']],
+      minProfitPct: -100,
+      minPersistenceCount: 1
+    });
+    const feesBefore = getFeesPaidUSDT();
+
+    const result = await executeTriangularCycle(cycle, 1000);
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.legs.length, 3);
+
+    // The cross leg's base and quote are both carried at a USDT cost
+    const holding = (asset: string) => getHoldings().find(h => h.exchange === 'wazirx' && h.asset === asset);
+    assert.ok(holding('ETH')!.averageCostUSDT > 1000);
+    assert.ok(holding('BTC')!.averageCostUSDT > 1000);
+
+    // Back in cash but for lot-size dust
+    assert.ok(Math.abs(holding('ETH')!.quantity) < 0.0001);
+    assert.ok(Math.abs(holding('BTC')!.quantity) < 0.0001);
+
+    // The cross leg's fee is paid in its quote coin and counted at that coin's price
+    const crossLeg = cycle.legs.findIndex(leg => leg.symbol === 'ETHBTC');
+    const btcPrice = cycle.legs.find(leg => leg.symbol === 'BTCUSDT')!.avgPrice;
+    const expectedFees = result.legs.reduce(
+      (sum, leg, i) => sum + (i === crossLeg ? leg.fees * btcPrice : leg.fees),
+      0
+    );
+    assert.ok(Math.abs(getFeesPaidUSDT() - feesBefore - expectedFees) < 1e-6);
+  } finally {
+    resetSimulatedBooks();
+    stopReplay();
+  }
+});
@@ -1,11 +1,41 @@
 // Execution Engine Agent
 
-import { executeBinanceTrade } from '@/lib/exchanges/binance';
-import { executeIndianTrade, getIndianOrderBook } from '@/lib/exchanges/indianMock';
-import { executeNSETrade } from '@/lib/exchanges/nseMock';
-import { addExecutionRecord, updateExecutionRecord } from '@/lib/state/executionLog';
-import { updatePortfolio, getPortfolio } from '@/lib/state/portfolio';
+import { findExchange, getExchange } from '@/lib/exchanges/registry';
+import {
+  addExecutionRecord,
+  getExecutionById,
+  getExecutionLog,
+  legOrderId,
+  transitionExecution,
+  updateExecutionRecord,
+  type ExecutionRecord
+} from '@/lib/state/executionLog';
+import { refreshPortfolio } from '@/lib/state/portfolio';
+import { recordFill, recordTransfer, baseAssetOf, isCashAsset } from '@/lib/state/ledger';
 import { addAuditLog } from '@/lib/state/auditLog';
+import { random } from '@/lib/state/rng';
+import { getFeeRates } from '@/lib/exchanges/fees';
+import { crossesLimit, fillAgainstQuote } from '@/lib/exchanges/quoteFill';
+import type { OrderStatus, TimeInForce } from '@/lib/exchanges/types';
+import {
+  getCommonStepSize,
+  getInstrument,
+  normalizeOrder,
+  normalizeQuantityAcross,
+  refreshVenueFilters,
+  roundToStep
+} from '@/lib/exchanges/symbols';
+import { coverShortfall, unwindResidual, type HedgeResult } from '@/lib/agents/hedgeEngine';
+import { executeLegsConcurrently, type LateFillHandler } from '@/lib/agents/legExecutor';
+import {
+  checkInventoryBands,
+  getVenueInventory,
+  isInventoryMode,
+  type RebalanceTask
+} from '@/lib/agents/inventoryManager';
+import type { RiskAssessmentResult } from '@/lib/agents/riskAssessment';
+import type { TriangularOpportunity } from '@/lib/arbitrage/triangular';
+import { reconcileExecution, reconcileLateLeg } from '@/lib/agents/recovery';
 
 
 export interface TradeOrder {
@@ -16,6 +46,8 @@ export interface TradeOrder {
   quantity: number;
   type: 'market' | 'limit';
   price?: number;
+  timeInForce?: TimeInForce; // limit orders only, defaults to GTC
+  quoteUSDT?: number; // cross pairs (ETHBTC): USDT per unit of the quote coin; fetched when omitted
   status: 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled';
   timestamp: Date;
   mode?: 'testnet' | 'simulation' | 'live'; // Execution mode
@@ -29,11 +61,38 @@ export interface ExecutionResult {
   fees: number;
   slippage: number;
   latency: number; // in ms
+  status?: OrderStatus;
+  restingQuantity?: number; // left on the book and tracked as an open order
   error?: string;
   timestamp: Date;
   mode: 'testnet' | 'simulation' | 'live';
 }
 
+/**
+ * A limit order resting on a venue
+ * Fills made while it rests are posted to the ledger by syncOpenOrders
+ */
+export interface OpenOrder {
+  orderId: string;
+  venueOrderId: string;
+  exchange: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  price: number;
+  timeInForce: TimeInForce;
+  quantity: number;
+  filledQty: number; // posted to the ledger so far
+  filledValue: number;
+  fees: number;
+  restingQty: number;
+  heldByVenue: boolean; // otherwise the fill is simulated here against the venue's ticker
+  quoteUSDT?: number; // cross pairs: the quote coin's USDT price when the order was placed
+  placedAt: number;
+}
+
+// Open orders by our order id
+const openOrders: Map<string, OpenOrder> = new Map();
+
 export interface ArbitrageExecution {
   executionId: string;
   buyOrder: TradeOrder;
@@ -47,9 +106,6 @@ export interface ArbitrageExecution {
   endTime?: Date;
 }
 
-// In-memory execution log (in production, use database)
-const executionLog: Map<string, ArbitrageExecution> = new Map();
-
 /**
  * Execute a single trade order
  * Supports: testnet (real simulation), simulation (mock), live (real)
@@ -65,49 +121,102 @@ export async function executeOrder(order: TradeOrder): Promise<ExecutionResult>
     }
     
     let result: any;
+    const adapter = findExchange(order.exchange);
     
-    // Execute based on exchange
-    if (order.exchange.toLowerCase() === 'binance') {
-      if (mode === 'testnet') {
-        // Testnet execution - calls actual exchange mock with realistic simulation
-        result = await executeBinanceTestnet(order);
-      } else {
-        // Full simulation
-        result = await simulateTrade(order);
-      }
-    } else if (order.exchange.toLowerCase() === 'wazirx' || order.exchange.toLowerCase() === 'indian') {
-      // Indian exchanges - always simulated
-      result = await executeIndianTrade(
-        order.symbol,
-        order.side,
-        order.quantity,
-        order.type,
-        order.price
-      );
-    } else if (order.exchange.toLowerCase() === 'nse') {
-      // NSE - simulated with market hours check
-      result = await executeNSETrade(
-        order.symbol,
-        order.side,
-        order.quantity,
-        order.type,
-        order.price
-      );
+    // Round to the venue's lot and tick sizes; the caller's order reflects what was sent
+    if (adapter?.isTradingEnabled?.()) {
+      await refreshVenueFilters(adapter.id, order.symbol);
+    }
+    const normalized = normalizeOrder(adapter?.id || order.exchange, order.symbol, order.side, order.quantity, order.price);
+    order.symbol = normalized.symbol;
+    order.quantity = normalized.quantity;
+    order.price = normalized.price;
+    
+    if (order.type === 'limit' && order.price === undefined) {
+      throw new Error('Limit orders need a price');
+    }
+    
+    // A cross pair settles in its quote coin, which the ledger books at the coin's USDT price
+    const quoteAsset = getInstrument(order.symbol).quoteAsset;
+    const quoteUSDT = isCashAsset(quoteAsset)
+      ? undefined
+      : order.quoteUSDT ?? (await getExchange(order.exchange).getTicker(`${quoteAsset}USDT`)).price;
+    const settlementAsset = quoteUSDT !== undefined ? quoteAsset : adapter?.settlementAsset || 'USDT';
+    
+    if (adapter?.simulated) {
+      // Simulated venues (mock Indian exchange, NSE) fill locally in every mode
+      result = await adapter.placeOrder({
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        type: order.type,
+        price: order.price,
+        timeInForce: order.timeInForce
+      });
+    } else if (adapter && mode === 'testnet') {
+      // Testnet execution - calls actual exchange mock with realistic simulation
+      result = await executeTestnetOrder(order);
     } else {
-      // Unknown exchange - full simulation
+      // Unknown exchange or simulation mode - full simulation
       result = await simulateTrade(order);
     }
     
     const latency = Date.now() - startTime;
+    if (result.status === 'rejected') {
+      throw new Error(result.reason || 'Order rejected by venue');
+    }
+    
+    const executedPrice = result.executedPrice || result.price || 0;
+    const executedQuantity = result.executedQuantity ?? order.quantity;
+    const fees = result.fees || 0;
+    const restingQuantity = result.restingQuantity ?? 0;
+    
+    // A resting limit order may come back with nothing filled yet
+    if (executedQuantity > 0) {
+      recordFill({
+        exchange: adapter?.id || order.exchange,
+        settlementAsset,
+        symbol: order.symbol,
+        side: order.side,
+        quantity: executedQuantity,
+        price: executedPrice,
+        fees,
+        quoteUSDT,
+        reference: order.orderId
+      });
+      refreshPortfolio();
+    }
+    
+    if (restingQuantity > 0) {
+      openOrders.set(order.orderId, {
+        orderId: order.orderId,
+        venueOrderId: String(result.orderId),
+        exchange: adapter?.id || order.exchange,
+        symbol: order.symbol,
+        side: order.side,
+        price: order.price!,
+        timeInForce: order.timeInForce ?? 'GTC',
+        quantity: order.quantity,
+        filledQty: executedQuantity,
+        filledValue: executedPrice * executedQuantity,
+        fees,
+        restingQty: restingQuantity,
+        heldByVenue: result.heldByVenue === true,
+        quoteUSDT,
+        placedAt: Date.now()
+      });
+    }
     
     return {
       orderId: order.orderId,
       success: true,
-      executedPrice: result.executedPrice || result.price || 0,
-      executedQuantity: result.executedQuantity || order.quantity,
-      fees: result.fees || 0,
+      executedPrice,
+      executedQuantity,
+      fees,
       slippage: result.slippagePercent || 0.1,
       latency,
+      status: result.status ?? 'filled',
+      restingQuantity,
       timestamp: new Date(),
       mode
     };
@@ -130,37 +239,52 @@ export async function executeOrder(order: TradeOrder): Promise<ExecutionResult>
 }
 
 /**
- * Testnet Binance execution
- * Simulates real Binance behavior on testnet
+ * Testnet execution for live venues
+ * Places the order on the venue's testnet when it has credentials; otherwise
+ * simulates the fill around the order or current market price
  */
-async function executeBinanceTestnet(order: TradeOrder): Promise<any> {
+async function executeTestnetOrder(order: TradeOrder): Promise<any> {
+  const adapter = getExchange(order.exchange);
+  if (adapter.isTradingEnabled?.()) {
+    return adapter.placeOrder({
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      type: order.type,
+      price: order.price,
+      timeInForce: order.timeInForce
+    });
+  }
+  
   // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 200));
+  await new Promise(resolve => setTimeout(resolve, 100 + random() * 200));
   
-  // Simulate realistic Binance execution
-  const basePrice = order.price || 50000; // Mock price
+  // Market orders fill around the order's reference price; limit orders need the market
+  const basePrice = order.type === 'market' && order.price !== undefined
+    ? order.price
+    : (await adapter.getTicker(order.symbol)).price;
   
   // Simulate slippage (0.01% to 0.1%)
-  const slippage = 0.0001 + Math.random() * 0.0009;
-  const slippageDirection = order.side === 'buy' ? 1 : -1;
-  const executedPrice = basePrice * (1 + slippage * slippageDirection);
+  const fill = fillAgainstQuote(order, basePrice, 0.0001 + random() * 0.0009);
   
-  // Binance fees: 0.1%
-  const fees = executedPrice * order.quantity * 0.001;
+  // Taker fee from the venue's schedule
+  const fees = fill.executedPrice * fill.executedQuantity * adapter.getFees(order.symbol).taker;
   
   return {
-    orderId: `BINANCE_TESTNET_${Date.now()}`,
+    orderId: `${order.exchange.toUpperCase()}_TESTNET_${Date.now()}`,
     symbol: order.symbol,
     side: order.side,
     type: order.type,
     quantity: order.quantity,
-    executedPrice,
-    executedQuantity: order.quantity,
+    executedPrice: fill.executedPrice,
+    executedQuantity: fill.executedQuantity,
     fees,
-    slippagePercent: slippage * 100,
-    status: 'filled',
+    slippagePercent: fill.slippage * 100,
+    status: fill.status,
+    restingQuantity: fill.restingQuantity,
+    reason: fill.reason,
     timestamp: new Date(),
-    exchange: 'binance_testnet',
+    exchange: `${order.exchange.toLowerCase()}_testnet`,
     testnet: true
   };
 }
@@ -170,18 +294,16 @@ async function executeBinanceTestnet(order: TradeOrder): Promise<any> {
  */
 async function simulateTrade(order: TradeOrder): Promise<any> {
   // Simulate execution delay
-  await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100));
+  await new Promise(resolve => setTimeout(resolve, 50 + random() * 100));
   
+  // No market data here, so the order's own price stands in for the quote
   const basePrice = order.price || 50000;
   
   // Simulate slippage
-  const slippage = 0.0005 + Math.random() * 0.001;
-  const executedPrice = order.side === 'buy' 
-    ? basePrice * (1 + slippage)
-    : basePrice * (1 - slippage);
+  const fill = fillAgainstQuote(order, basePrice, 0.0005 + random() * 0.001);
   
-  // Simulate fees (0.1%)
-  const fees = executedPrice * order.quantity * 0.001;
+  // Taker fee from the venue's schedule
+  const fees = fill.executedPrice * fill.executedQuantity * getFeeRates(order.exchange).taker;
   
   return {
     orderId: `SIM_${order.exchange.toUpperCase()}_${Date.now()}`,
@@ -189,83 +311,127 @@ async function simulateTrade(order: TradeOrder): Promise<any> {
     side: order.side,
     type: order.type,
     quantity: order.quantity,
-    executedPrice,
-    executedQuantity: order.quantity,
+    executedPrice: fill.executedPrice,
+    executedQuantity: fill.executedQuantity,
     fees,
-    slippagePercent: slippage * 100,
-    status: 'filled',
+    slippagePercent: fill.slippage * 100,
+    status: fill.status,
+    reason: fill.reason,
     timestamp: new Date(),
     exchange: order.exchange,
     simulated: true
   };
 }
 
+/**
+ * Late-fill handler for an execution's legs
+ * A late leg is hedged as soon as it lands, but its loss is only charged to the
+ * execution after `settle` is called, once the execution has written its own
+ */
+function lateLegReconciler(executionId: string): { onLateFill: LateFillHandler; settle: () => void } {
+  let settle!: () => void;
+  const settled = new Promise<void>(resolve => { settle = resolve; });
+  return {
+    onLateFill: (order, result) => reconcileLateLeg(executionId, order, result, settled),
+    settle
+  };
+}
+
 /**
  * Execute complete arbitrage cycle
- * 1. Execute testnet BUY on cheaper exchange
- * 2. Wait for confirmation
- * 3. Execute SIMULATED SELL on expensive exchange
+ * 1. Execute testnet BUY on cheaper exchange and SIMULATED SELL on expensive
+ *    exchange concurrently
+ * 2. Deliver the matched quantity between the venues
+ * 3. Compensate a failed, late or uneven leg
  * 4. Calculate actual profit
+ * Each leg transition is persisted to the execution log
  */
 export async function executeArbitrage(
   arbitrage: ArbitrageExecution
 ): Promise<ExecutionResult[]> {
+  const { executionId, buyOrder, sellOrder } = arbitrage;
+  const lateLegs = lateLegReconciler(executionId);
+  
   try {
     // Update status
     arbitrage.status = 'executing';
     arbitrage.startTime = new Date();
     
-    // Store in execution log
-    executionLog.set(arbitrage.executionId, arbitrage);
-    
-    const results: ExecutionResult[] = [];
+    addExecutionRecord({
+      id: executionId,
+      symbol: buyOrder.symbol,
+      type: 'arbitrage',
+      status: 'pending',
+      phase: 'planned',
+      phaseHistory: [{ phase: 'planned', at: Date.now() }],
+      buyExchange: buyOrder.exchange,
+      sellExchange: sellOrder.exchange,
+      buyQty: buyOrder.quantity,
+      timestamp: arbitrage.startTime
+    });
     
-    // Step 1: Execute BUY order (testnet mode for safety)
-    console.log(`[Arbitrage ${arbitrage.executionId}] Executing BUY on ${arbitrage.buyOrder.exchange}`);
+    // Step 1: Send the testnet BUY and simulated SELL together
+    console.log(`[Arbitrage ${executionId}] Executing BUY on ${buyOrder.exchange} and SELL on ${sellOrder.exchange}`);
     
-    arbitrage.buyOrder.mode = 'testnet'; // Force testnet for buy
-    arbitrage.buyOrder.status = 'executing';
+    buyOrder.mode = 'testnet'; // Force testnet for buy
+    sellOrder.mode = 'simulation'; // Simulated sell
+    buyOrder.status = 'executing';
+    sellOrder.status = 'executing';
+    transitionExecution(executionId, 'legs_submitted');
     
-    const buyResult = await executeOrder(arbitrage.buyOrder);
+    const legs = await executeLegsConcurrently(buyOrder, sellOrder, undefined, lateLegs.onLateFill);
+    const buyResult = legs.buy.result;
+    const sellResult = legs.sell.result;
     arbitrage.buyResult = buyResult;
-    results.push(buyResult);
-    
-    if (!buyResult.success) {
-      arbitrage.status = 'failed';
-      arbitrage.buyOrder.status = 'failed';
-      arbitrage.endTime = new Date();
-      
-      console.error(`[Arbitrage ${arbitrage.executionId}] BUY failed: ${buyResult.error}`);
-      return results;
-    }
-    
-    arbitrage.buyOrder.status = 'completed';
-    console.log(`[Arbitrage ${arbitrage.executionId}] BUY completed at $${buyResult.executedPrice}`);
-    
-    // Step 2: Wait for confirmation (simulate)
-    await new Promise(resolve => setTimeout(resolve, 500));
+    arbitrage.sellResult = sellResult;
+    buyOrder.status = buyResult.success ? 'completed' : 'failed';
+    sellOrder.status = sellResult.success ? 'completed' : 'failed';
+    const results = [buyResult, sellResult];
     
-    // Step 3: Execute SELL order (simulation mode)
-    console.log(`[Arbitrage ${arbitrage.executionId}] Executing SELL on ${arbitrage.sellOrder.exchange}`);
+    updateExecutionRecord(executionId, {
+      buyLatencyMs: legs.buy.latencyMs,
+      sellLatencyMs: legs.sell.latencyMs,
+      legSkewMs: legs.skewMs,
+      legTimedOut: legs.timedOut,
+      ...(buyResult.success ? {
+        buyPrice: buyResult.executedPrice,
+        buyQty: buyResult.executedQuantity,
+        fees: buyResult.fees
+      } : {})
+    });
     
-    arbitrage.sellOrder.mode = 'simulation'; // Simulated sell
-    arbitrage.sellOrder.status = 'executing';
+    // Step 2: Deliver what both legs filled from the buy venue to the sell venue
+    const boughtQty = buyResult.success ? buyResult.executedQuantity : 0;
+    const soldQty = sellResult.success ? sellResult.executedQuantity : 0;
+    const matchedQty = Math.min(boughtQty, soldQty);
+    if (matchedQty > 0) {
+      recordTransfer(
+        baseAssetOf(buyOrder.symbol),
+        matchedQty,
+        findExchange(buyOrder.exchange)?.id || buyOrder.exchange,
+        findExchange(sellOrder.exchange)?.id || sellOrder.exchange,
+        executionId
+      );
+    }
     
-    const sellResult = await executeOrder(arbitrage.sellOrder);
-    arbitrage.sellResult = sellResult;
-    results.push(sellResult);
+    // Step 3: A failed, late or uneven leg is compensated: unsold inventory is
+    // unwound on the buy venue, an uncovered sell bought back on the sell venue
+    const mismatch = !buyResult.success ? `BUY failed: ${buyResult.error}`
+      : !sellResult.success ? `SELL failed: ${sellResult.error}`
+      : legs.timedOut ? `${legs.timedOut} leg timed out`
+      : boughtQty !== soldQty ? `Legs filled unevenly: bought ${boughtQty}, sold ${soldQty}`
+      : undefined;
     
-    if (!sellResult.success) {
+    if (mismatch) {
       arbitrage.status = 'failed';
-      arbitrage.sellOrder.status = 'failed';
       arbitrage.endTime = new Date();
+      await reconcileExecution(executionId, mismatch);
       
-      console.error(`[Arbitrage ${arbitrage.executionId}] SELL failed: ${sellResult.error}`);
+      console.error(`[Arbitrage ${executionId}] ${mismatch}`);
       return results;
     }
     
-    arbitrage.sellOrder.status = 'completed';
-    console.log(`[Arbitrage ${arbitrage.executionId}] SELL completed at $${sellResult.executedPrice}`);
+    console.log(`[Arbitrage ${executionId}] BUY at $${buyResult.executedPrice}, SELL at $${sellResult.executedPrice}, skew ${legs.skewMs}ms`);
     
     // Step 4: Calculate actual profit
     const buyTotal = buyResult.executedPrice * buyResult.executedQuantity + buyResult.fees;
@@ -275,19 +441,29 @@ export async function executeArbitrage(
     arbitrage.actualProfit = actualProfit;
     arbitrage.status = 'completed';
     arbitrage.endTime = new Date();
+    transitionExecution(executionId, 'settled', {
+      sellPrice: sellResult.executedPrice,
+      sellQty: sellResult.executedQuantity,
+      profit: actualProfit,
+      completedAt: arbitrage.endTime
+    });
     
     const profitPercent = (actualProfit / buyTotal) * 100;
-    console.log(`[Arbitrage ${arbitrage.executionId}] COMPLETED! Profit: $${actualProfit.toFixed(2)} (${profitPercent.toFixed(2)}%)`);
+    console.log(`[Arbitrage ${executionId}] COMPLETED! Profit: $${actualProfit.toFixed(2)} (${profitPercent.toFixed(2)}%)`);
     
     return results;
   } catch (error) {
     arbitrage.status = 'failed';
     arbitrage.endTime = new Date();
     
-    console.error(`[Arbitrage ${arbitrage.executionId}] Failed:`, error);
+    console.error(`[Arbitrage ${executionId}] Failed:`, error);
+    await reconcileExecution(
+      executionId,
+      error instanceof Error ? error.message : 'Unknown error'
+    ).catch(reconcileError => console.error(`[Arbitrage ${executionId}] Could not reconcile:`, reconcileError));
     
     return [{
-      orderId: arbitrage.executionId,
+      orderId: executionId,
       success: false,
       executedPrice: 0,
       executedQuantity: 0,
@@ -298,21 +474,151 @@ export async function executeArbitrage(
       timestamp: new Date(),
       mode: 'simulation'
     }];
+  } finally {
+    lateLegs.settle();
+  }
+}
+
+/**
+ * Resting limit orders, oldest first
+ */
+export function getOpenOrders(): OpenOrder[] {
+  return Array.from(openOrders.values()).sort((a, b) => a.placedAt - b.placedAt);
+}
+
+/**
+ * Post a fill on a resting order to the ledger and the open order's totals
+ */
+function applyOpenOrderFill(open: OpenOrder, quantity: number, price: number, fees: number): void {
+  recordFill({
+    exchange: open.exchange,
+    settlementAsset: open.quoteUSDT !== undefined
+      ? getInstrument(open.symbol).quoteAsset
+      : findExchange(open.exchange)?.settlementAsset || 'USDT',
+    symbol: open.symbol,
+    side: open.side,
+    quantity,
+    price,
+    fees,
+    quoteUSDT: open.quoteUSDT,
+    reference: open.orderId
+  });
+  open.filledQty += quantity;
+  open.filledValue += price * quantity;
+  open.fees += fees;
+  
+  addAuditLog({
+    eventType: 'execution',
+    action: 'resting_order_filled',
+    component: open.exchange,
+    details: { orderId: open.orderId, symbol: open.symbol, side: open.side, quantity, price, fees }
+  });
+}
+
+/**
+ * Catch up on one open order; returns whether it is still resting
+ * Venues that hold the order report cumulative fills. Otherwise the order
+ * fills in full at its limit, as a maker, once the venue's ticker reaches it.
+ */
+async function syncOpenOrder(open: OpenOrder): Promise<boolean> {
+  const adapter = findExchange(open.exchange);
+  
+  if (open.heldByVenue && adapter?.getOrder) {
+    const state = await adapter.getOrder(open.venueOrderId, open.symbol);
+    const newQty = state.executedQuantity - open.filledQty;
+    if (newQty > 0) {
+      const newValue = state.executedPrice * state.executedQuantity - open.filledValue;
+      applyOpenOrderFill(open, newQty, newValue / newQty, Math.max(0, state.fees - open.fees));
+    }
+    open.restingQty = state.restingQuantity ?? 0;
+    return open.restingQty > 0 && (state.status === 'open' || state.status === 'partial');
+  }
+  
+  if (!adapter) {
+    return true; // nothing to price it against; it rests until cancelled
   }
+  
+  const quote = (await adapter.getTicker(open.symbol)).price;
+  if (!crossesLimit(open.side, quote, open.price)) {
+    return true;
+  }
+  
+  const fees = open.price * open.restingQty * getFeeRates(open.exchange).maker;
+  applyOpenOrderFill(open, open.restingQty, open.price, fees);
+  open.restingQty = 0;
+  return false;
+}
+
+/**
+ * Bring every open order up to date, dropping those that finished
+ */
+export async function syncOpenOrders(): Promise<OpenOrder[]> {
+  let filled = false;
+  
+  for (const open of getOpenOrders()) {
+    const before = open.filledQty;
+    try {
+      if (!(await syncOpenOrder(open))) {
+        openOrders.delete(open.orderId);
+      }
+    } catch (error) {
+      console.error(`[Execution] Could not sync open order ${open.orderId}:`, error);
+    }
+    filled = filled || open.filledQty > before;
+  }
+  
+  if (filled) {
+    refreshPortfolio();
+  }
+  return getOpenOrders();
 }
 
 /**
  * Cancel an order
+ * Accepts our order id or the venue's. A tracked open order is synced first so
+ * fills made before the cancel reach the ledger.
  */
-export async function cancelOrder(orderId: string, exchange: string): Promise<boolean> {
+export async function cancelOrder(
+  orderId: string,
+  exchange: string,
+  symbol: string = ''
+): Promise<boolean> {
   try {
-    // In simulation/testnet, we can always cancel pending orders
     console.log(`Cancelling order ${orderId} on ${exchange}`);
     
-    // Simulate cancellation delay
-    await new Promise(resolve => setTimeout(resolve, 100));
+    const open = openOrders.get(orderId)
+      ?? getOpenOrders().find(o => o.venueOrderId === orderId);
+    if (open) {
+      if (!(await syncOpenOrder(open))) {
+        openOrders.delete(open.orderId);
+        refreshPortfolio();
+        return false; // filled before it could be cancelled
+      }
+      
+      const adapter = findExchange(open.exchange);
+      const cancelled = open.heldByVenue && adapter
+        ? await adapter.cancelOrder(open.venueOrderId, open.symbol)
+        : true;
+      if (cancelled) {
+        openOrders.delete(open.orderId);
+        addAuditLog({
+          eventType: 'execution',
+          action: 'order_cancelled',
+          component: open.exchange,
+          details: { orderId: open.orderId, symbol: open.symbol, filledQty: open.filledQty, cancelledQty: open.restingQty }
+        });
+      }
+      return cancelled;
+    }
+    
+    const adapter = findExchange(exchange);
+    if (!adapter) {
+      // Unknown venues only ever run through the local simulator
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return true;
+    }
     
-    return true;
+    return await adapter.cancelOrder(orderId, symbol);
   } catch (error) {
     console.error('Error cancelling order:', error);
     return false;
@@ -332,8 +638,11 @@ export function createArbitrageExecution(
 ): ArbitrageExecution {
   const executionId = `ARB_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   
+  // Both legs trade the same lot, so round to a size valid on each venue
+  quantity = normalizeQuantityAcross([buyExchange, sellExchange], symbol, quantity);
+  
   const buyOrder: TradeOrder = {
-    orderId: `BUY_${executionId}`,
+    orderId: legOrderId(executionId, 'buy'),
     symbol,
     exchange: buyExchange,
     side: 'buy',
@@ -346,7 +655,7 @@ export function createArbitrageExecution(
   };
   
   const sellOrder: TradeOrder = {
-    orderId: `SELL_${executionId}`,
+    orderId: legOrderId(executionId, 'sell'),
     symbol,
     exchange: sellExchange,
     side: 'sell',
@@ -371,17 +680,17 @@ export function createArbitrageExecution(
 }
 
 /**
- * Get execution status
+ * Get execution status, including its leg phase
  */
-export function getExecutionStatus(executionId: string): ArbitrageExecution | null {
-  return executionLog.get(executionId) || null;
+export function getExecutionStatus(executionId: string): ExecutionRecord | null {
+  return getExecutionById(executionId) || null;
 }
 
 /**
- * Get all executions
+ * Get all arbitrage executions
  */
-export function getAllExecutions(): ArbitrageExecution[] {
-  return Array.from(executionLog.values());
+export function getAllExecutions(): ExecutionRecord[] {
+  return getExecutionLog().filter(record => record.type === 'arbitrage');
 }
 
 /**
@@ -423,18 +732,132 @@ export interface ExecuteArbitrageResult {
   netProfit: number;
   slippagePct: number;
   partialFill: boolean;
+  hedge?: HedgeResult; // compensation when a leg failed or the legs filled unevenly
+  legTiming?: {
+    buyLatencyMs: number;
+    sellLatencyMs: number;
+    legSkewMs: number;
+    legTimedOut?: 'buy' | 'sell' | 'both';
+  };
+  rebalanceTasks?: RebalanceTask[]; // raised by this execution in inventory mode
   auditId: string;
   error?: string;
 }
 
+export interface PartialFillSimulation {
+  buyPrice: number;
+  buyQty: number;
+  buyFees: number;
+  avgSellPrice: number;
+  filledQty: number;
+  fillRatio: number;
+  partialFill: boolean;
+  sellFees: number;
+  netProfit: number;
+  slippagePct: number;
+}
+
+/**
+ * Simulate an arbitrage round trip against a sell-venue orderbook
+ * Pure calculation with no state, audit or portfolio side effects
+ */
+export function simulatePartialFill(
+  opportunity: any,
+  allocatedUSDT: number,
+  orderbook: { bids: [number, number][]; asks: [number, number][] },
+  stepSize: number = 0 // lot size both legs trade in; 0 leaves quantities unrounded
+): PartialFillSimulation {
+  const buyQty = roundToStep(allocatedUSDT / opportunity.buyPrice, stepSize);
+  
+  // Simulate testnet BUY execution
+  const buySlippage = 0.0001 + random() * 0.0009;
+  const buyPrice = opportunity.buyPrice * (1 + buySlippage);
+  const buyFees = buyPrice * buyQty * getFeeRates(opportunity.buyExchange).taker;
+  
+  // Simulate SELL across orderbook levels
+  let remainingQty = buyQty;
+  let totalSellValue = 0;
+  let filledQty = 0;
+  
+  // Iterate through bids (a market sell hits the sell venue's buyers, best first)
+  for (const [price, qty] of orderbook.bids) {
+    if (remainingQty <= 0) break;
+    
+    const fillQty = Math.min(remainingQty, qty);
+    totalSellValue += price * fillQty;
+    filledQty += fillQty;
+    remainingQty -= fillQty;
+  }
+  
+  const avgSellPrice = filledQty > 0 ? totalSellValue / filledQty : 0;
+  filledQty = roundToStep(filledQty, stepSize);
+  const fillRatio = filledQty / buyQty;
+  
+  // Compute final metrics
+  const buyCost = buyPrice * buyQty + buyFees;
+  const sellRevenue = avgSellPrice * filledQty;
+  const sellFees = sellRevenue * getFeeRates(opportunity.sellExchange).taker;
+  const netProfit = sellRevenue - sellFees - buyCost;
+  const slippagePct = ((avgSellPrice - opportunity.sellPrice) / opportunity.sellPrice) * 100;
+  
+  return {
+    buyPrice,
+    buyQty,
+    buyFees,
+    avgSellPrice,
+    filledQty,
+    fillRatio,
+    partialFill: fillRatio < 1.0,
+    sellFees,
+    netProfit,
+    slippagePct
+  };
+}
+
+// Expected slippage up to which a leg simply crosses the book
+const MARKET_ORDER_MAX_SLIPPAGE_PCT = 0.1;
+
+export interface LegOrderPlan {
+  type: 'market' | 'limit';
+  timeInForce?: TimeInForce;
+  price: number; // reference price for market orders, the limit otherwise
+}
+
+/**
+ * Choose how to send one arbitrage leg from the risk agent's slippage estimate
+ * A deep book gets a market order. On a thin one an IOC limit at the quote
+ * plus the expected slippage takes what the book offers up to that price
+ * instead of sweeping further; what it leaves is handled as a partial fill.
+ */
+export function chooseLegOrder(
+  side: 'buy' | 'sell',
+  quote: number,
+  expectedSlippagePct?: number
+): LegOrderPlan {
+  if (expectedSlippagePct === undefined || expectedSlippagePct <= MARKET_ORDER_MAX_SLIPPAGE_PCT) {
+    return { type: 'market', price: quote };
+  }
+  
+  const tolerance = expectedSlippagePct / 100;
+  return {
+    type: 'limit',
+    timeInForce: 'IOC',
+    price: side === 'buy' ? quote * (1 + tolerance) : quote * (1 - tolerance)
+  };
+}
+
 /**
  * Execute arbitrage with partial fill handling and rollback
+ * With a risk assessment each leg's order type follows its expected slippage;
+ * without one both legs go out as market orders
  */
 export async function executeArbitrageWithPartialFills(
   opportunity: any,
-  allocatedUSDT: number
+  allocatedUSDT: number,
+  risk?: Pick<RiskAssessmentResult, 'slippagePct' | 'buySlippagePct'>
 ): Promise<ExecuteArbitrageResult> {
   const executionId = `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  const lateLegs = lateLegReconciler(executionId);
   
   // 1. Check BINANCE_TESTNET environment variable
   // if (process.env.BINANCE_TESTNET !== 'true') {
@@ -455,135 +878,242 @@ export async function executeArbitrageWithPartialFills(
   // }
 
   try {
-    const symbol = opportunity.symbol;
-    const binancePrice = opportunity.binancePrice;
-    
-    // 2. Calculate buy quantity
-    const buyQty = allocatedUSDT / binancePrice;
-    
-    // 3. Place BUY on Binance Testnet (market order for speed)
-    addAuditLog({
-      eventType: 'execution',
-      action: 'buy_order_placed',
-      component: 'binance_testnet',
-      details: { symbol, qty: buyQty, price: binancePrice, allocatedUSDT }
-    });
+    const { symbol, buyExchange, sellExchange } = opportunity;
+    const buyVenue = getExchange(buyExchange);
+    const sellVenue = getExchange(sellExchange);
     
-    // Simulate Binance testnet execution
-    const buySlippage = 0.0001 + Math.random() * 0.0009;
-    const buyPrice = binancePrice * (1 + buySlippage);
-    const buyFees = buyPrice * buyQty * 0.001;
+    // 2. Calculate buy quantity in whole lots valid on both venues; in
+    // inventory mode no more than the sell venue already holds
+    const inventoryMode = isInventoryMode();
+    let targetQty = allocatedUSDT / opportunity.buyPrice;
+    if (inventoryMode) {
+      const held = getVenueInventory(sellVenue.id, baseAssetOf(symbol));
+      if (held <= 0) {
+        throw new Error(`No ${baseAssetOf(symbol)} inventory on ${sellVenue.id} to sell`);
+      }
+      targetQty = Math.min(targetQty, held);
+    }
+    const stepSize = getCommonStepSize([buyVenue.id, sellVenue.id], symbol);
+    const { quantity: buyQty } = normalizeOrder(
+      buyVenue.id,
+      symbol,
+      'buy',
+      roundToStep(targetQty, stepSize),
+      opportunity.buyPrice
+    );
     
     addExecutionRecord({
       id: executionId,
+      opportunityId: opportunity.id,
       symbol,
       type: 'arbitrage',
-      status: 'executing',
-      buyExchange: 'binance_testnet',
-      sellExchange: 'indian_mock',
-      buyPrice,
+      status: 'pending',
+      phase: 'planned',
+      phaseHistory: [{ phase: 'planned', at: Date.now() }],
+      buyExchange,
+      sellExchange,
       buyQty,
+      inventoryMode,
       timestamp: new Date()
     });
     
-    // 4. Get Indian orderbook
-    const orderbook = await getIndianOrderBook(symbol, 20);
-    
-    // 5. Simulate SELL across orderbook levels
-    let remainingQty = buyQty;
-    let totalSellValue = 0;
-    let filledQty = 0;
+    // 3. Send both legs at once, each as a market order unless its book is thin.
+    // Each goes through executeOrder, which posts its fill to the ledger;
+    // simulated venues match against their own book, so our size moves the price
+    const buyPlan = chooseLegOrder('buy', opportunity.buyPrice, risk?.buySlippagePct);
+    const sellPlan = chooseLegOrder('sell', opportunity.sellPrice, risk?.slippagePct);
+    transitionExecution(executionId, 'legs_submitted');
+    addAuditLog({
+      eventType: 'execution',
+      action: 'legs_submitted',
+      component: 'executionEngine',
+      details: {
+        executionId, symbol, qty: buyQty, allocatedUSDT, inventoryMode,
+        buy: { exchange: buyExchange, price: opportunity.buyPrice, orderType: buyPlan.type, limitPrice: buyPlan.price },
+        sell: { exchange: sellExchange, price: opportunity.sellPrice, orderType: sellPlan.type, limitPrice: sellPlan.price }
+      }
+    });
     
-    // Iterate through asks (sell side - we\'re buying from Indian exchange sellers)
-    for (const [price, qty] of orderbook.asks) {
-      if (remainingQty <= 0) break;
-      
-      const fillQty = Math.min(remainingQty, qty);
-      totalSellValue += price * fillQty;
-      filledQty += fillQty;
-      remainingQty -= fillQty;
-    }
+    const legs = await executeLegsConcurrently(
+      {
+        orderId: legOrderId(executionId, 'buy'),
+        symbol,
+        exchange: buyVenue.id,
+        side: 'buy',
+        quantity: buyQty,
+        ...buyPlan,
+        status: 'pending',
+        timestamp: new Date(),
+        mode: 'testnet'
+      },
+      {
+        orderId: legOrderId(executionId, 'sell'),
+        symbol,
+        exchange: sellVenue.id,
+        side: 'sell',
+        quantity: buyQty,
+        ...sellPlan,
+        status: 'pending',
+        timestamp: new Date(),
+        mode: 'testnet'
+      },
+      undefined,
+      lateLegs.onLateFill
+    );
     
-    const avgSellPrice = filledQty > 0 ? totalSellValue / filledQty : 0;
-    const fillRatio = filledQty / buyQty;
-    const partialFill = fillRatio < 1.0;
+    // A failed or timed-out leg counts as filling nothing; a timed-out leg's
+    // fill is reconciled on its own if it lands later
+    const buyResult = legs.buy.result;
+    const sellResult = legs.sell.result;
+    const boughtQty = buyResult.success ? buyResult.executedQuantity : 0;
+    const filledQty = sellResult.success ? sellResult.executedQuantity : 0;
+    const buyPrice = boughtQty > 0 ? buyResult.executedPrice : 0;
+    const buyFees = boughtQty > 0 ? buyResult.fees : 0;
+    const avgSellPrice = filledQty > 0 ? sellResult.executedPrice : 0;
+    const sellFees = filledQty > 0 ? sellResult.fees : 0;
+    const legTiming = {
+      buyLatencyMs: legs.buy.latencyMs,
+      sellLatencyMs: legs.sell.latencyMs,
+      legSkewMs: legs.skewMs,
+      legTimedOut: legs.timedOut
+    };
     
+    updateExecutionRecord(executionId, { buyPrice, buyQty: boughtQty, fees: buyFees, ...legTiming });
     addAuditLog({
       eventType: 'execution',
-      action: 'sell_simulated',
-      component: 'indian_exchange',
-      details: { 
-        symbol, targetQty: buyQty, filledQty, fillRatio: fillRatio.toFixed(2),
-        avgSellPrice, partialFill 
+      action: 'legs_completed',
+      component: 'executionEngine',
+      details: {
+        executionId, symbol, targetQty: buyQty, boughtQty, filledQty, ...legTiming,
+        buyError: buyResult.error, sellError: sellResult.error
       }
     });
     
-    // 6. Check if fill < 90% - perform rollback if needed
-    if (fillRatio < 0.9) {
+    if (boughtQty <= 0 && filledQty <= 0) {
+      throw new Error(`Neither leg filled: buy ${buyResult.error ?? 'nothing filled'}; sell ${sellResult.error ?? 'nothing filled'}`);
+    }
+    
+    // 4. The matched quantity is delivered from the buy venue to the sell venue,
+    // unless the sell came out of inventory already there
+    const matchedQty = Math.min(boughtQty, filledQty);
+    if (matchedQty > 0 && !inventoryMode) {
+      recordTransfer(baseAssetOf(symbol), matchedQty, buyVenue.id, sellVenue.id, executionId);
+    }
+    
+    const fillRatio = matchedQty / buyQty;
+    const partialFill = matchedQty < buyQty;
+    const slippagePct = avgSellPrice > 0
+      ? ((avgSellPrice - opportunity.sellPrice) / opportunity.sellPrice) * 100
+      : 0;
+    
+    // Profit is realized on the matched quantity; any residual is carried at cost
+    const entryFeesPerUnit = boughtQty > 0 ? buyFees / boughtQty : 0;
+    const exitFeesPerUnit = filledQty > 0 ? sellFees / filledQty : 0;
+    let netProfit = (avgSellPrice - exitFeesPerUnit - buyPrice - entryFeesPerUnit) * matchedQty;
+    
+    // 5. Compensate: unsold inventory is unwound on the buy venue when a leg
+    // failed, timed out or filled under 90%; a sell the buy did not cover is
+    // always bought back on the sell venue
+    const unsoldQty = boughtQty - matchedQty;
+    const oversoldQty = filledQty - matchedQty;
+    const legFailed = !buyResult.success || !sellResult.success || legs.timedOut !== undefined;
+    let residualQty = unsoldQty;
+    let hedge: HedgeResult | undefined;
+    
+    if (oversoldQty > 0 || (unsoldQty > 0 && (legFailed || fillRatio < 0.9))) {
       addAuditLog({
         eventType: 'system',
         action: 'rollback_triggered',
         component: 'executionEngine',
         details: { 
-          reason: `Fill ratio ${(fillRatio * 100).toFixed(1)}% < 90%`,
-          buyQty, filledQty,
-          hedgeAction: 'simulated_hedge_order'
+          reason: legs.timedOut ? `${legs.timedOut} leg timed out`
+            : legFailed ? 'leg failed'
+            : `Fill ratio ${(fillRatio * 100).toFixed(1)}% < 90%`,
+          buyQty: boughtQty, filledQty, residualQty: unsoldQty || -oversoldQty,
+          hedgeAction: oversoldQty > 0 ? 'cover_on_sell_venue' : 'unwind_on_buy_venue'
         }
       });
       
-      // Simulate hedge order on Binance
-      console.log(`[ROLLBACK] Placing hedge order for unfilled ${(buyQty - filledQty).toFixed(4)} ${symbol}`);
+      if (oversoldQty > 0) {
+        hedge = await coverShortfall({
+          executionId,
+          symbol,
+          exchange: sellVenue.id,
+          quantity: oversoldQty,
+          entryPrice: avgSellPrice,
+          entryFeesPerUnit: exitFeesPerUnit
+        });
+        residualQty = -(hedge.success ? hedge.residualQty : oversoldQty);
+      } else {
+        hedge = await unwindResidual({
+          executionId,
+          symbol,
+          exchange: buyVenue.id,
+          quantity: unsoldQty,
+          entryPrice: buyPrice,
+          entryFeesPerUnit
+        });
+        residualQty = hedge.success ? hedge.residualQty : unsoldQty;
+      }
+      
+      if (hedge.success) {
+        netProfit -= hedge.realizedLoss;
+      }
     }
+    refreshPortfolio();
     
-    // 7. Compute final metrics
-    const buyCost = buyPrice * buyQty + buyFees;
-    const sellRevenue = avgSellPrice * filledQty;
-    const sellFees = sellRevenue * 0.002;
-    const netProfit = sellRevenue - sellFees - buyCost;
-    const slippagePct = ((avgSellPrice - opportunity.indianPrice) / opportunity.indianPrice) * 100;
-    
-    // 8. Update execution log
-    updateExecutionRecord(executionId, {
-      status: 'completed',
+    // 6. Settle the execution; a compensated residual ends it as unwound
+    const unwound = hedge?.success === true && residualQty === 0;
+    transitionExecution(executionId, unwound ? 'unwound' : 'settled', {
+      status: unwound ? 'hedged' : hedge ? 'partial' : 'completed',
       sellPrice: avgSellPrice,
       sellQty: filledQty,
       profit: netProfit,
       partialFill,
+      hedgeExecutionId: hedge?.hedgeId,
+      hedgeQty: hedge?.filledQty,
+      hedgePrice: hedge?.avgPrice,
+      realizedLoss: hedge?.realizedLoss,
       completedAt: new Date()
     });
     
-    // 9. Update portfolio
-    const portfolio = getPortfolio();
-    updatePortfolio({
-      cash: portfolio.cash + netProfit,
-      totalValue: portfolio.totalValue + netProfit
-    });
-    
-    // 10. Final audit entry
+    // 7. Final audit entry
     addAuditLog({
       eventType: 'execution',
       action: 'execution_completed',
       component: 'executionEngine',
       details: {
-        executionId, symbol, buyPrice, buyQty, avgSellPrice, filledQty,
+        executionId, symbol, buyPrice, buyQty: boughtQty, avgSellPrice, filledQty,
         netProfit: netProfit.toFixed(2), slippagePct: slippagePct.toFixed(3),
-        partialFill
+        partialFill, hedgeId: hedge?.hedgeId, residualQty, ...legTiming
       }
     });
     
+    // Every inventory-mode trade moves stock from the sell venue to the buy venue
+    const rebalanceTasks = inventoryMode ? checkInventoryBands() : undefined;
+    
     return {
       success: true,
       buyPrice,
-      buyQty,
+      buyQty: boughtQty,
       avgSellPrice,
       filledQty,
       netProfit,
       slippagePct: Math.abs(slippagePct),
       partialFill,
+      hedge,
+      legTiming,
+      rebalanceTasks,
       auditId: executionId
     };
     
   } catch (error) {
+    // Unwind whatever the failed execution already holds
+    await reconcileExecution(
+      executionId,
+      error instanceof Error ? error.message : 'Execution failed'
+    ).catch(reconcileError => console.error(`[Execution] Could not reconcile ${executionId}:`, reconcileError));
+    
     addAuditLog({
       eventType: 'execution',
       action: 'execution_failed',
@@ -598,5 +1128,170 @@ export async function executeArbitrageWithPartialFills(
       auditId: executionId,
       error: error instanceof Error ? error.message : 'Execution failed'
     };
+  } finally {
+    lateLegs.settle();
+  }
+}
+
+export interface ExecuteTriangularResult {
+  success: boolean;
+  startAmount: number; // USDT spent on the first leg
+  endAmount: number; // USDT back from the last leg
+  netProfit: number;
+  legs: ExecutionResult[]; // filled legs, in order
+  unwind?: ExecutionResult; // sale of the coin a broken cycle was left holding
+  auditId: string;
+  error?: string;
+}
+
+/**
+ * Execute a triangular cycle on one exchange
+ * The legs go out one after another as market orders, each spending what the
+ * one before it returned. A leg that fails leaves the cycle holding an
+ * intermediate coin, which is sold back into USDT.
+ */
+export async function executeTriangularCycle(
+  opportunity: TriangularOpportunity,
+  allocatedUSDT: number
+): Promise<ExecuteTriangularResult> {
+  const executionId = `TRI_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  const { exchange, path, legs } = opportunity;
+  const fills: ExecutionResult[] = [];
+  
+  // What the cycle holds between legs, starting with the allocation
+  let held = path[0];
+  let amount = allocatedUSDT;
+  
+  // Cross legs settle in a coin the cycle also trades against USDT, at that leg's price
+  const priceInUSDT = (asset: string) => legs.find(leg => leg.symbol === `${asset}USDT`)?.avgPrice;
+  
+  try {
+    if (held !== 'USDT') {
+      throw new Error(`Triangular cycles are funded in USDT, not ${held}`);
+    }
+    const venue = getExchange(exchange);
+    
+    addExecutionRecord({
+      id: executionId,
+      opportunityId: opportunity.id,
+      symbol: path.join(' -> '),
+      type: 'triangular',
+      exchange: venue.id,
+      status: 'executing',
+      timestamp: new Date()
+    });
+    
+    for (let i = 0; i < legs.length; i++) {
+      const leg = legs[i];
+      
+      // Buys spend the quote held, leaving room for the taker fee; sells spend the base
+      const quantity = leg.side === 'buy'
+        ? amount / (leg.avgPrice * (1 + venue.getFees(leg.symbol).taker))
+        : amount;
+      
+      const result = await executeOrder({
+        orderId: `${executionId}_LEG${i + 1}`,
+        symbol: leg.symbol,
+        exchange: venue.id,
+        side: leg.side,
+        quantity,
+        type: 'market',
+        price: leg.avgPrice,
+        quoteUSDT: priceInUSDT(getInstrument(leg.symbol).quoteAsset),
+        status: 'pending',
+        timestamp: new Date(),
+        mode: 'testnet'
+      });
+      
+      if (!result.success || result.executedQuantity <= 0) {
+        throw new Error(`Leg ${i + 1} (${leg.side} ${leg.symbol}) did not fill: ${result.error ?? 'nothing filled'}`);
+      }
+      
+      fills.push(result);
+      held = leg.toAsset;
+      amount = leg.side === 'buy'
+        ? result.executedQuantity
+        : result.executedQuantity * result.executedPrice - result.fees;
+    }
+    
+    const netProfit = amount - allocatedUSDT;
+    refreshPortfolio();
+    
+    updateExecutionRecord(executionId, {
+      status: 'completed',
+      quantity: allocatedUSDT,
+      profit: netProfit,
+      completedAt: new Date()
+    });
+    
+    addAuditLog({
+      eventType: 'execution',
+      action: 'execution_completed',
+      component: 'executionEngine',
+      details: {
+        executionId, triangular: true, exchange: venue.id, path: path.join(' -> '),
+        startAmount: allocatedUSDT, endAmount: amount, netProfit: netProfit.toFixed(2)
+      }
+    });
+    
+    return {
+      success: true,
+      startAmount: allocatedUSDT,
+      endAmount: amount,
+      netProfit,
+      legs: fills,
+      auditId: executionId
+    };
+    
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Execution failed';
+    
+    // Sell whatever intermediate coin the broken cycle is holding
+    let unwind: ExecutionResult | undefined;
+    if (held !== path[0] && amount > 0) {
+      unwind = await executeOrder({
+        orderId: `${executionId}_UNWIND`,
+        symbol: `${held}${path[0]}`,
+        exchange,
+        side: 'sell',
+        quantity: amount,
+        type: 'market',
+        price: priceInUSDT(held),
+        status: 'pending',
+        timestamp: new Date(),
+        mode: 'testnet'
+      });
+      refreshPortfolio();
+    }
+    
+    updateExecutionRecord(executionId, {
+      status: unwind?.success ? 'hedged' : 'failed',
+      error: message,
+      hedgeExecutionId: unwind?.orderId,
+      hedgeQty: unwind?.executedQuantity,
+      hedgePrice: unwind?.executedPrice,
+      completedAt: new Date()
+    });
+    
+    addAuditLog({
+      eventType: 'execution',
+      action: 'execution_failed',
+      component: 'executionEngine',
+      details: {
+        executionId, triangular: true, exchange, path: path.join(' -> '), error: message,
+        heldAsset: held, heldAmount: amount, unwindError: unwind?.error
+      }
+    });
+    
+    return {
+      success: false,
+      startAmount: allocatedUSDT,
+      endAmount: 0,
+      netProfit: 0,
+      legs: fills,
+      unwind,
+      auditId: executionId,
+      error: message
+    };
   }
 }
@@ -0,0 +1,192 @@
+// Hedge Engine - closes out exposure an arbitrage leg left behind: unsold
+// inventory is sold back where it was bought, and a sell that ran ahead of
+// its buy is covered by buying back on the sell venue
+
+import { executeOrder } from '@/lib/agents/executionEngine';
+import { getExchange } from '@/lib/exchanges/registry';
+import { addExecutionRecord, updateExecutionRecord } from '@/lib/state/executionLog';
+import { addAuditLog } from '@/lib/state/auditLog';
+
+export interface UnwindRequest {
+  executionId: string; // parent arbitrage execution
+  hedgeId?: string; // defaults to `${executionId}_HEDGE`
+  symbol: string;
+  exchange: string; // buy venue the residual is sold back on
+  quantity: number;
+  entryPrice: number;
+  entryFeesPerUnit: number;
+}
+
+export interface CoverRequest {
+  executionId: string; // parent arbitrage execution
+  hedgeId?: string; // defaults to `${executionId}_COVER`
+  symbol: string;
+  exchange: string; // sell venue the shortfall is bought back on
+  quantity: number;
+  entryPrice: number; // price the uncovered quantity was sold at
+  entryFeesPerUnit: number;
+}
+
+export interface HedgeResult {
+  hedgeId: string;
+  success: boolean;
+  exchange: string;
+  residualQty: number;
+  filledQty: number;
+  avgPrice: number;
+  fees: number;
+  realizedLoss: number; // entry cost minus unwind proceeds; negative when the unwind gained
+  error?: string;
+}
+
+/**
+ * Volume-weighted price of trading `quantity` against one side of a book
+ * Levels beyond the visible book are assumed to fill at the last level
+ */
+function bookUnwindPrice(levels: [number, number][], quantity: number): number | null {
+  let remaining = quantity;
+  let value = 0;
+  let lastPrice: number | null = null;
+
+  for (const [price, qty] of levels) {
+    if (remaining <= 0) break;
+    const fillQty = Math.min(remaining, qty);
+    value += price * fillQty;
+    remaining -= fillQty;
+    lastPrice = price;
+  }
+
+  if (lastPrice === null) return null;
+  value += remaining * lastPrice;
+  return value / quantity;
+}
+
+/**
+ * Place a hedge leg as its own execution, linked to the parent by id
+ * Selling unwinds a long residual; buying covers a short one
+ */
+async function placeHedge(
+  hedgeId: string,
+  side: 'buy' | 'sell',
+  request: UnwindRequest | CoverRequest
+): Promise<HedgeResult> {
+  const { executionId, symbol, exchange, quantity, entryPrice, entryFeesPerUnit } = request;
+
+  addExecutionRecord({
+    id: hedgeId,
+    parentExecutionId: executionId,
+    symbol,
+    action: side,
+    type: 'hedge',
+    exchange,
+    quantity,
+    status: 'executing',
+    timestamp: new Date()
+  });
+
+  addAuditLog({
+    eventType: 'execution',
+    action: 'hedge_order_placed',
+    component: exchange,
+    details: { executionId, hedgeId, symbol, side, quantity, entryPrice }
+  });
+
+  // Price the hedge off the venue's book; fall back to entry if the book is unavailable
+  let referencePrice = entryPrice;
+  try {
+    const book = await getExchange(exchange).getOrderBook(symbol, 20);
+    referencePrice = bookUnwindPrice(side === 'sell' ? book.bids : book.asks, quantity) ?? entryPrice;
+  } catch (error) {
+    console.warn(`[Hedge] No ${exchange} book for ${symbol}, pricing hedge at entry:`, error);
+  }
+
+  const result = await executeOrder({
+    orderId: hedgeId,
+    symbol,
+    exchange,
+    side,
+    quantity,
+    type: 'market',
+    price: referencePrice,
+    status: 'pending',
+    timestamp: new Date(),
+    mode: 'testnet'
+  });
+
+  if (!result.success) {
+    updateExecutionRecord(hedgeId, {
+      status: 'failed',
+      error: result.error,
+      completedAt: new Date()
+    });
+
+    addAuditLog({
+      eventType: 'execution',
+      action: 'hedge_failed',
+      component: exchange,
+      details: { executionId, hedgeId, symbol, side, quantity, error: result.error }
+    });
+
+    return {
+      hedgeId,
+      success: false,
+      exchange,
+      residualQty: quantity,
+      filledQty: 0,
+      avgPrice: 0,
+      fees: 0,
+      realizedLoss: 0,
+      error: result.error
+    };
+  }
+
+  const filledQty = Math.min(result.executedQuantity, quantity);
+  const realizedLoss = side === 'sell'
+    ? (entryPrice + entryFeesPerUnit) * filledQty - (result.executedPrice * filledQty - result.fees)
+    : (result.executedPrice * filledQty + result.fees) - (entryPrice - entryFeesPerUnit) * filledQty;
+
+  updateExecutionRecord(hedgeId, {
+    status: filledQty < quantity ? 'partial' : 'filled',
+    price: result.executedPrice,
+    fillQuantity: filledQty,
+    fees: result.fees,
+    profit: -realizedLoss,
+    completedAt: new Date()
+  });
+
+  addAuditLog({
+    eventType: 'execution',
+    action: 'hedge_completed',
+    component: exchange,
+    details: {
+      executionId, hedgeId, symbol, side, quantity, filledQty,
+      avgPrice: result.executedPrice, fees: result.fees,
+      realizedLoss: realizedLoss.toFixed(2)
+    }
+  });
+
+  return {
+    hedgeId,
+    success: true,
+    exchange,
+    residualQty: quantity - filledQty,
+    filledQty,
+    avgPrice: result.executedPrice,
+    fees: result.fees,
+    realizedLoss
+  };
+}
+
+/**
+ * Sell residual inventory back on the venue it was bought on
+ */
+export async function unwindResidual(request: UnwindRequest): Promise<HedgeResult> {
+  return placeHedge(request.hedgeId ?? `${request.executionId}_HEDGE`, 'sell', request);
+}
+
+/**
+ * Buy back on the sell venue what was sold there beyond what the buy leg filled
+ */
+export async function coverShortfall(request: CoverRequest): Promise<HedgeResult> {
+  return placeHedge(request.hedgeId ?? `${request.executionId}_COVER`, 'buy', request);
+}
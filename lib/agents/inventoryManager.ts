@@ -0,0 +1,211 @@
+// Inventory Manager - tracks how pre-funded inventory is spread across venues
+// for inventory arbitrage, and raises rebalancing tasks when a venue drifts
+// outside its band
+
+import { getSettings, updateSettings, type ExecutionMode, type InventoryBand } from '@/lib/state/settings';
+import { getHoldings, isCashAsset, recordTransfer } from '@/lib/state/ledger';
+import { refreshPortfolio } from '@/lib/state/portfolio';
+import { addAuditLog } from '@/lib/state/auditLog';
+
+export interface VenueInventory {
+  exchange: string;
+  quantity: number;
+  share: number; // of the asset's total across venues
+  status: 'ok' | 'low' | 'high';
+}
+
+export interface InventorySkew {
+  asset: string;
+  total: number;
+  band: InventoryBand;
+  venues: VenueInventory[];
+}
+
+export interface RebalanceTask {
+  id: string;
+  asset: string;
+  fromExchange: string;
+  toExchange: string;
+  quantity: number; // brings both venues back to the middle of the band
+  reason: string;
+  status: 'open' | 'completed';
+  createdAt: number;
+  completedAt?: number;
+}
+
+// Band for assets without one configured in settings
+const DEFAULT_BAND: InventoryBand = { minShare: 0.25, maxShare: 0.75 };
+
+// Tasks are derived from ledger holdings, so after a restart the next check
+// raises any still needed again
+const tasks: Map<string, RebalanceTask> = new Map();
+
+export function isInventoryMode(): boolean {
+  return getSettings().executionMode === 'inventory';
+}
+
+export function setExecutionMode(mode: ExecutionMode): void {
+  if (mode !== 'transfer' && mode !== 'inventory') {
+    throw new Error(`Unknown execution mode: ${mode}`);
+  }
+  updateSettings({ executionMode: mode });
+}
+
+export function getInventoryBand(asset: string): InventoryBand {
+  return getSettings().inventoryBands[asset] ?? DEFAULT_BAND;
+}
+
+/**
+ * Set the band an asset's inventory must stay within on each venue
+ */
+export function updateInventoryBand(asset: string, band: InventoryBand): InventoryBand {
+  const { minShare, maxShare } = band;
+  if (!(minShare >= 0 && maxShare <= 1 && minShare <= maxShare)) {
+    throw new Error(`Invalid band for ${asset}: shares must satisfy 0 <= minShare <= maxShare <= 1`);
+  }
+  updateSettings({ inventoryBands: { ...getSettings().inventoryBands, [asset]: { minShare, maxShare } } });
+  return { minShare, maxShare };
+}
+
+/**
+ * Base asset quantity held on one venue
+ */
+export function getVenueInventory(exchange: string, asset: string): number {
+  return getHoldings().find(h => h.exchange === exchange && h.asset === asset)?.quantity ?? 0;
+}
+
+/**
+ * How each non-cash asset is spread across the venues holding it
+ */
+export function getInventorySkew(): InventorySkew[] {
+  const byAsset = new Map<string, { exchange: string; quantity: number }[]>();
+  for (const holding of getHoldings()) {
+    if (isCashAsset(holding.asset)) continue;
+    const venues = byAsset.get(holding.asset) ?? [];
+    venues.push({ exchange: holding.exchange, quantity: holding.quantity });
+    byAsset.set(holding.asset, venues);
+  }
+
+  return Array.from(byAsset.entries()).map(([asset, venues]) => {
+    const band = getInventoryBand(asset);
+    const total = venues.reduce((sum, venue) => sum + venue.quantity, 0);
+    return {
+      asset,
+      total,
+      band,
+      venues: venues.map(venue => {
+        const share = total > 0 ? venue.quantity / total : 0;
+        return {
+          ...venue,
+          share,
+          status: share < band.minShare ? 'low' : share > band.maxShare ? 'high' : 'ok'
+        };
+      })
+    };
+  });
+}
+
+/**
+ * Raise a task for every venue outside its band, moving inventory between it
+ * and the venue furthest the other way; open tasks are resized rather than
+ * raised twice, and dropped once their venues are back in band
+ */
+export function checkInventoryBands(): RebalanceTask[] {
+  const raised: RebalanceTask[] = [];
+  const needed = new Set<string>();
+
+  for (const skew of getInventorySkew()) {
+    if (skew.total <= 0 || skew.venues.length < 2) continue;
+    const target = (skew.band.minShare + skew.band.maxShare) / 2;
+    const byShare = [...skew.venues].sort((a, b) => a.share - b.share);
+
+    for (const venue of skew.venues) {
+      if (venue.status === 'ok') continue;
+      const low = venue.status === 'low';
+      const counterpart = low ? byShare[byShare.length - 1] : byShare[0];
+      if (counterpart.exchange === venue.exchange) continue;
+
+      // Move enough to bring the drifted venue to the target, without pushing
+      // the counterpart past it the other way
+      const quantity = Number(Math.min(
+        Math.abs(target * skew.total - venue.quantity),
+        Math.abs(counterpart.quantity - target * skew.total)
+      ).toFixed(8));
+      if (quantity <= 0) continue;
+
+      const fromExchange = low ? counterpart.exchange : venue.exchange;
+      const toExchange = low ? venue.exchange : counterpart.exchange;
+      const reason = `${venue.exchange} holds ${(venue.share * 100).toFixed(1)}% of ${skew.asset}, ` +
+        `outside ${(skew.band.minShare * 100).toFixed(0)}-${(skew.band.maxShare * 100).toFixed(0)}%`;
+
+      const existing = Array.from(tasks.values()).find(task =>
+        task.status === 'open' && task.asset === skew.asset &&
+        task.fromExchange === fromExchange && task.toExchange === toExchange
+      );
+      if (existing) {
+        needed.add(existing.id);
+        existing.quantity = quantity;
+        existing.reason = reason;
+        continue;
+      }
+
+      const task: RebalanceTask = {
+        id: `REBAL_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        asset: skew.asset, fromExchange, toExchange, quantity, reason,
+        status: 'open',
+        createdAt: Date.now()
+      };
+      tasks.set(task.id, task);
+      needed.add(task.id);
+      raised.push(task);
+
+      addAuditLog({
+        eventType: 'system',
+        action: 'rebalance_task_raised',
+        component: 'inventoryManager',
+        details: { ...task }
+      });
+    }
+  }
+
+  // Open tasks whose venues have drifted back into band are no longer needed
+  for (const task of Array.from(tasks.values())) {
+    if (task.status === 'open' && !needed.has(task.id)) tasks.delete(task.id);
+  }
+
+  return raised;
+}
+
+export function getRebalanceTasks(status?: RebalanceTask['status']): RebalanceTask[] {
+  return Array.from(tasks.values()).filter(task => !status || task.status === status);
+}
+
+/**
+ * Carry out a rebalancing task by moving its inventory between the venues
+ */
+export function completeRebalanceTask(taskId: string): RebalanceTask | undefined {
+  const task = tasks.get(taskId);
+  if (!task || task.status !== 'open') return undefined;
+
+  const available = getVenueInventory(task.fromExchange, task.asset);
+  const quantity = Math.min(task.quantity, available);
+  if (quantity <= 0) {
+    throw new Error(`No ${task.asset} left on ${task.fromExchange} to move`);
+  }
+
+  recordTransfer(task.asset, quantity, task.fromExchange, task.toExchange, task.id);
+  refreshPortfolio();
+
+  task.quantity = quantity;
+  task.status = 'completed';
+  task.completedAt = Date.now();
+
+  addAuditLog({
+    eventType: 'system',
+    action: 'rebalance_task_completed',
+    component: 'inventoryManager',
+    details: { ...task }
+  });
+
+  return task;
+}
@@ -0,0 +1,145 @@
+// Leg Executor - sends both legs of an arbitrage at the same moment so
+// neither waits on the other, and times how far apart they complete
+
+import { cancelOrder, executeOrder, type ExecutionResult, type TradeOrder } from '@/lib/agents/executionEngine';
+import { getSettings } from '@/lib/state/settings';
+
+export interface LegTimingLimits {
+  legTimeoutMs: number; // a leg not done this long after sending has timed out
+  maxLegSkewMs: number; // nor one done this long after the other leg
+}
+
+export interface LegOutcome {
+  result: ExecutionResult;
+  latencyMs: number; // from sending both legs to this one completing, or to its deadline
+  timedOut: boolean; // missed its deadline, so counts as filling nothing; a late fill goes to the late-fill handler
+}
+
+export interface ConcurrentLegsResult {
+  buy: LegOutcome;
+  sell: LegOutcome;
+  skewMs: number; // gap between the two legs completing
+  timedOut?: 'buy' | 'sell' | 'both';
+}
+
+// Told about a fill that landed after its leg's deadline, once the caller has
+// already compensated on what had filled by then
+export type LateFillHandler = (order: TradeOrder, result: ExecutionResult) => Promise<unknown> | void;
+
+interface PendingLeg {
+  order: TradeOrder;
+  promise: Promise<ExecutionResult>;
+  result?: ExecutionResult;
+  completedAt?: number;
+}
+
+export function getLegTimingLimits(): LegTimingLimits {
+  const settings = getSettings();
+  return {
+    legTimeoutMs: settings.legTimeoutMs ?? 5000,
+    maxLegSkewMs: settings.maxLegSkewMs ?? 1500
+  };
+}
+
+/**
+ * Resolve once the promise settles or `ms` passes, whichever is first
+ */
+async function settleWithin(promise: Promise<unknown>, ms: number): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    promise,
+    new Promise<void>(resolve => { timer = setTimeout(resolve, Math.max(0, ms)); })
+  ]);
+  clearTimeout(timer);
+}
+
+function sendLeg(order: TradeOrder): PendingLeg {
+  const timing: { result?: ExecutionResult; completedAt?: number } = {};
+  const promise = executeOrder(order).then(result => {
+    timing.result = result;
+    timing.completedAt = Date.now();
+    return result;
+  });
+  return Object.assign(timing, { order, promise });
+}
+
+/**
+ * Stand-in for a leg still out at its deadline: nothing filled as far as the
+ * caller's compensation is concerned
+ */
+function timedOutResult(order: TradeOrder, waitedMs: number): ExecutionResult {
+  return {
+    orderId: order.orderId,
+    success: false,
+    executedPrice: 0,
+    executedQuantity: 0,
+    fees: 0,
+    slippage: 0,
+    latency: waitedMs,
+    error: `No response within ${waitedMs}ms`,
+    timestamp: new Date(),
+    mode: order.mode ?? 'simulation'
+  };
+}
+
+/**
+ * Follow a late leg to completion in the background: cancel whatever it left
+ * resting and hand any fill to the caller to reconcile
+ */
+function followLateLeg(leg: PendingLeg, onLateFill?: LateFillHandler): void {
+  leg.promise
+    .then(async result => {
+      if ((result.restingQuantity ?? 0) > 0) {
+        await cancelOrder(leg.order.orderId, leg.order.exchange, leg.order.symbol);
+      }
+      if (result.success && result.executedQuantity > 0) {
+        await onLateFill?.(leg.order, result);
+      }
+    })
+    .catch(error => console.error(`[Legs] Could not reconcile late leg ${leg.order.orderId}:`, error));
+}
+
+/**
+ * Execute the buy and sell legs concurrently
+ * Each leg must finish within the leg timeout, and the second within the skew
+ * tolerance of the first. Nothing waits past that deadline: a leg still out is
+ * marked timed out and counted as filling nothing, so the caller compensates
+ * on what the other leg filled. When the late leg does land, any part left
+ * resting is cancelled and its fill goes to `onLateFill`.
+ */
+export async function executeLegsConcurrently(
+  buyOrder: TradeOrder,
+  sellOrder: TradeOrder,
+  limits: LegTimingLimits = getLegTimingLimits(),
+  onLateFill?: LateFillHandler
+): Promise<ConcurrentLegsResult> {
+  const sentAt = Date.now();
+  const buy = sendLeg(buyOrder);
+  const sell = sendLeg(sellOrder);
+
+  await settleWithin(Promise.race([buy.promise, sell.promise]), limits.legTimeoutMs);
+  const firstDoneAt = Math.min(buy.completedAt ?? Infinity, sell.completedAt ?? Infinity);
+  const deadline = Math.min(sentAt + limits.legTimeoutMs, firstDoneAt + limits.maxLegSkewMs);
+  await settleWithin(Promise.all([buy.promise, sell.promise]), deadline - Date.now());
+  const closedAt = Date.now();
+
+  const outcome = (leg: PendingLeg): LegOutcome => {
+    if (leg.result) {
+      return { result: leg.result, latencyMs: leg.completedAt! - sentAt, timedOut: false };
+    }
+    followLateLeg(leg, onLateFill);
+    return { result: timedOutResult(leg.order, closedAt - sentAt), latencyMs: closedAt - sentAt, timedOut: true };
+  };
+  const buyOutcome = outcome(buy);
+  const sellOutcome = outcome(sell);
+
+  return {
+    buy: buyOutcome,
+    sell: sellOutcome,
+    skewMs: Math.abs((buy.completedAt ?? closedAt) - (sell.completedAt ?? closedAt)),
+    timedOut: buyOutcome.timedOut && sellOutcome.timedOut ? 'both'
+      : buyOutcome.timedOut ? 'buy'
+      : sellOutcome.timedOut ? 'sell'
+      : undefined
+  };
+}
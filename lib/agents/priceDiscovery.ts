@@ -1,8 +1,14 @@
 // Price Discovery Agent
 
-import { getBinancePrices, getBinancePrice } from '@/lib/exchanges/binance';
-import { getIndianExchangePrices, getIndianExchangePrice } from '@/lib/exchanges/indianMock';
-import { getNSEPrices, getNSEPrice } from '@/lib/exchanges/nseMock';
+import { getBinancePrices } from '@/lib/exchanges/binance';
+import { getIndianExchangePrices } from '@/lib/exchanges/indianMock';
+import { getNSEPrices } from '@/lib/exchanges/nseMock';
+import { getExchange, listExchanges } from '@/lib/exchanges/registry';
+import { refreshFxRate } from '@/lib/exchanges/fx';
+import { recordPairSpreads } from '@/lib/state/spreadHistory';
+
+// Exchange whose ticks feed the volatility window
+const REFERENCE_EXCHANGE = 'binance';
 
 // Rolling window storage for price ticks (last 100 per symbol)
 interface PriceTick {
@@ -55,6 +61,13 @@ export function getPriceHistory(symbol: string): PriceTick[] {
   return priceHistory.get(symbol) || [];
 }
 
+/**
+ * Reset the rolling windows (used to isolate backtests from live ticks)
+ */
+export function clearPriceHistory(): void {
+  priceHistory.clear();
+}
+
 
 export interface PriceData {
   exchange: string;
@@ -66,6 +79,7 @@ export interface PriceData {
 
 export interface DiscoveredPrice {
   symbol: string;
+  prices: Record<string, number>; // keyed by exchange adapter id
   binancePrice: number;
   indianPrice: number;
   nsePrice: number;
@@ -89,23 +103,46 @@ export interface PriceDiscoveryResult {
 
 /**
  * Discover prices from all exchanges for given symbols
- * Maintains rolling window of ticks for volatility calculation
+ * Maintains rolling window of ticks for volatility calculation and records
+ * per-pair spreads for analytics (`recordSpreads: false` skips the latter)
  */
-export async function discoverPrices(symbols: string[]): Promise<DiscoveredPrice[]> {
+export async function discoverPrices(
+  symbols: string[],
+  opts: { recordSpreads?: boolean } = {}
+): Promise<DiscoveredPrice[]> {
+  const { recordSpreads = true } = opts;
   const results: DiscoveredPrice[] = [];
 
+  // INR quotes and conversion costs use the current FX rate
+  await refreshFxRate();
+
   for (const symbol of symbols) {
     try {
-      // Fetch from all exchanges concurrently
-      const [binancePrice, indianPrice, nsePrice] = await Promise.all([
-        getBinancePrice(symbol).catch(() => null),
-        getIndianExchangePrice(symbol).catch(() => null),
-        getNSEPrice(symbol).catch(() => null),
-      ]);
-
-      // Store Binance price in rolling window for volatility
-      if (binancePrice !== null) {
-        addPriceTick(symbol, binancePrice);
+      // Fetch from all registered exchanges concurrently
+      const adapters = listExchanges();
+      const tickers = await Promise.all(
+        adapters.map(adapter => adapter.getTicker(symbol).catch(() => null))
+      );
+
+      const prices: Record<string, number> = {};
+      adapters.forEach((adapter, i) => {
+        const ticker = tickers[i];
+        if (ticker && ticker.price > 0) {
+          prices[adapter.id] = ticker.price;
+        }
+      });
+
+      const binancePrice = prices.binance ?? null;
+      const indianPrice = prices.wazirx ?? null;
+      const nsePrice = prices.nse ?? null;
+
+      // Store reference price in rolling window for volatility
+      if (prices[REFERENCE_EXCHANGE] !== undefined) {
+        addPriceTick(symbol, prices[REFERENCE_EXCHANGE]);
+      }
+
+      if (recordSpreads) {
+        recordPairSpreads(symbol, prices);
       }
 
       // Calculate spreads
@@ -126,6 +163,7 @@ export async function discoverPrices(symbols: string[]): Promise<DiscoveredPrice
 
       results.push({
         symbol,
+        prices,
         binancePrice: binancePrice || 0,
         indianPrice: indianPrice || 0,
         nsePrice: nsePrice || 0,
@@ -174,39 +212,25 @@ export async function calculateSpreads(symbols: string[]): Promise<SpreadData[]>
 
   for (const symbol of symbols) {
     try {
-      // Fetch prices from all exchanges in parallel
-      const [binancePrices, wazirxPrices, nsePrices] = await Promise.all([
-        getBinancePrices([symbol]).catch(() => []),
-        getIndianExchangePrices([symbol]).catch(() => []),
-        getNSEPrices([symbol]).catch(() => [])
-      ]);
+      // Fetch prices from all registered exchanges in parallel
+      const adapters = listExchanges();
+      const tickers = await Promise.all(
+        adapters.map(adapter => adapter.getTicker(symbol).catch(() => null))
+      );
 
       // Aggregate all prices
       const allPrices: { name: string; price: number; volume?: number }[] = [];
 
-      if (binancePrices.length > 0) {
-        allPrices.push({
-          name: 'binance',
-          price: binancePrices[0].price,
-          volume: 0 // Binance doesn't return volume in ticker
-        });
-      }
-
-      if (wazirxPrices.length > 0) {
-        allPrices.push({
-          name: 'wazirx',
-          price: wazirxPrices[0].price,
-          volume: 0
-        });
-      }
-
-      if (nsePrices.length > 0) {
-        allPrices.push({
-          name: 'nse',
-          price: nsePrices[0].price,
-          volume: nsePrices[0].volume
-        });
-      }
+      adapters.forEach((adapter, i) => {
+        const ticker = tickers[i];
+        if (ticker && ticker.price > 0) {
+          allPrices.push({
+            name: adapter.id,
+            price: ticker.price,
+            volume: ticker.volume || 0
+          });
+        }
+      });
 
       // Skip if we don't have at least 2 exchanges
       if (allPrices.length < 2) continue;
@@ -234,8 +258,10 @@ export async function calculateSpreads(symbols: string[]): Promise<SpreadData[]>
             const spread = sellExchange.price - buyExchange.price;
             const spreadPercent = (spread / buyExchange.price) * 100;
             
-            // Estimate fees (0.2% total)
-            const fees = (buyExchange.price + sellExchange.price) * 0.001;
+            // Estimate taker fees on both legs from each venue's schedule
+            const fees =
+              buyExchange.price * getExchange(buyExchange.name).getFees(symbol).taker +
+              sellExchange.price * getExchange(sellExchange.name).getFees(symbol).taker;
             const profitPotential = spread - fees;
             
             if (profitPotential > 0) {
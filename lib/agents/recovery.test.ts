@@ -0,0 +1,67 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep the live state database out of the run
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recovery-test-'));
+process.env.STATE_DB_PATH = path.join(stateDir, 'state.db');
+after(() => fs.rmSync(stateDir, { recursive: true, force: true }));
+
+test('a late leg hedge is charged to its execution after the execution settles', async () => {
+  const { startReplay, stopReplay } = await import('../exchanges/replay');
+  const { resetSimulatedBooks } = await import('../exchanges/indianBook');
+  const { executeOrder } = await import('./executionEngine');
+  const { reconcileLateLeg } = await import('./recovery');
+  const { addExecutionRecord, getExecutionById, legOrderId, updateExecutionRecord } = await import('../state/executionLog');
+
+  startReplay([{ ts: 1_700_000_000_000, type: 'ticker', exchange: 'binance', symbol: 'BTCUSDT', price: 60_000 }]);
+  resetSimulatedBooks();
+  try {
+    const executionId = 'EXEC_LATE_1';
+    addExecutionRecord({
+      id: executionId,
+      symbol: 'BTCUSDT',
+      type: 'arbitrage',
+      status: 'executing',
+      buyExchange: 'wazirx',
+      sellExchange: 'binance',
+      timestamp: new Date()
+    });
+
+    // The buy leg lands after its deadline
+    const order = {
+      orderId: legOrderId(executionId, 'buy'),
+      symbol: 'BTCUSDT',
+      exchange: 'wazirx',
+      side: 'buy' as const,
+      quantity: 0.01,
+      type: 'market' as const,
+      status: 'pending' as const,
+      timestamp: new Date()
+    };
+    const fill = await executeOrder(order);
+    assert.equal(fill.success, true, fill.error);
+
+    // The execution settles its own compensation while the late hedge is out
+    let settle!: () => void;
+    const settled = new Promise<void>(resolve => { settle = resolve; });
+    const reconciling = reconcileLateLeg(executionId, order, fill, settled);
+    updateExecutionRecord(executionId, { status: 'hedged', profit: -3, realizedLoss: 2 });
+    settle();
+    const hedge = await reconciling;
+
+    assert.equal(hedge.success, true, hedge.error);
+    assert.equal(hedge.hedgeId, `${order.orderId}_HEDGE`);
+
+    const record = getExecutionById(executionId)!;
+    assert.equal(record.hedgeExecutionId, hedge.hedgeId);
+    assert.equal(record.hedgeQty, hedge.filledQty);
+    assert.ok(Math.abs(record.realizedLoss! - (2 + hedge.realizedLoss)) < 1e-9);
+    assert.ok(Math.abs(record.profit! - (-3 - hedge.realizedLoss)) < 1e-9);
+  } finally {
+    resetSimulatedBooks();
+    stopReplay();
+  }
+});
@@ -0,0 +1,326 @@
+// Execution Recovery - reconciles executions interrupted mid-flight against the ledger
+
+import { coverShortfall, unwindResidual, type HedgeResult } from '@/lib/agents/hedgeEngine';
+import type { ExecutionResult, TradeOrder } from '@/lib/agents/executionEngine';
+import { findExchange } from '@/lib/exchanges/registry';
+import {
+  getExecutionById,
+  getInFlightExecutions,
+  isTerminalPhase,
+  legOrderId,
+  transitionExecution,
+  updateExecutionRecord,
+  type ExecutionRecord
+} from '@/lib/state/executionLog';
+import {
+  baseAssetOf,
+  getHoldings,
+  getInventoryByReference,
+  getLedgerTransactions,
+  recordTransfer
+} from '@/lib/state/ledger';
+import { refreshPortfolio } from '@/lib/state/portfolio';
+import { addAuditLog } from '@/lib/state/auditLog';
+
+// Net inventory below this is float noise from offsetting legs
+const NET_TOLERANCE = 1e-9;
+
+export interface RecoveryReport {
+  examined: number;
+  settled: string[];
+  unwound: string[];
+  failed: string[];
+}
+
+/**
+ * Close out a hedge leg left executing: filled if the ledger holds its fill
+ */
+function reconcileHedgeLeg(record: ExecutionRecord, reason: string): ExecutionRecord['status'] {
+  const covering = record.action === 'buy';
+  const traded = getInventoryByReference([record.id]).some(entry => covering ? entry.quantity > 0 : entry.quantity < 0);
+  const status = traded ? 'filled' : 'failed';
+  updateExecutionRecord(record.id, {
+    status,
+    ...(traded ? {} : { error: reason }),
+    completedAt: new Date()
+  });
+  return status;
+}
+
+/**
+ * Walk a record forward to buy_filled once the ledger shows its buy
+ */
+function advanceToBuyFilled(record: ExecutionRecord): void {
+  if (record.phase === 'planned') {
+    transitionExecution(record.id, 'buy_submitted', {}, 'reconciled from ledger');
+  }
+  if (record.phase === 'planned' || record.phase === 'buy_submitted') {
+    transitionExecution(record.id, 'buy_filled', {}, 'reconciled from ledger');
+  }
+}
+
+/**
+ * Buy back what an execution sold beyond what it bought
+ * Only concurrent legs can leave this, when the sell filled and the buy did not
+ */
+async function coverOwed(record: ExecutionRecord, owed: { exchange: string; quantity: number }, reason: string): Promise<ExecutionRecord> {
+  const hedge = await coverShortfall({
+    executionId: record.id,
+    symbol: record.symbol,
+    exchange: owed.exchange,
+    quantity: -owed.quantity,
+    entryPrice: record.sellPrice ?? record.buyPrice ?? 0,
+    entryFeesPerUnit: 0
+  });
+  refreshPortfolio();
+
+  const covered = hedge.success && hedge.residualQty === 0;
+  return transitionExecution(record.id, covered ? 'unwound' : 'failed', {
+    status: covered ? 'hedged' : 'partial',
+    hedgeExecutionId: hedge.hedgeId,
+    hedgeQty: hedge.filledQty,
+    hedgePrice: hedge.avgPrice,
+    realizedLoss: hedge.realizedLoss,
+    ...(covered ? {} : { error: `${reason}; ${hedge.residualQty} still owed on ${owed.exchange}` }),
+    completedAt: new Date()
+  }, reason);
+}
+
+/**
+ * Close out an execution left holding nothing: a sell in progress or legs that
+ * both traded settle, anything earlier fails
+ */
+function closeFlat(record: ExecutionRecord, reason: string): ExecutionRecord {
+  // Concurrent legs that both filled net to nothing; ones that never traded left no ledger entry
+  const legIds = [legOrderId(record.id, 'buy'), legOrderId(record.id, 'sell')];
+  const legsTraded = record.phase === 'legs_submitted'
+    && getLedgerTransactions().some(transaction => legIds.includes(transaction.reference ?? ''));
+  if (record.phase === 'sell_submitted' || legsTraded) {
+    return transitionExecution(record.id, 'settled', { completedAt: new Date() }, reason);
+  }
+  return transitionExecution(record.id, 'failed', { error: reason, completedAt: new Date() }, reason);
+}
+
+/**
+ * Sell what an execution holds on its buy venue back there
+ */
+async function unwindHeld(
+  record: ExecutionRecord,
+  buyVenue: string,
+  asset: string,
+  quantity: number,
+  reason: string
+): Promise<ExecutionRecord> {
+  advanceToBuyFilled(record);
+
+  const entryPrice = record.buyPrice
+    ?? getHoldings().find(h => h.exchange === buyVenue && h.asset === asset)?.averageCostUSDT
+    ?? 0;
+  const entryFeesPerUnit = record.fees && record.buyQty ? record.fees / record.buyQty : 0;
+
+  const hedge = await unwindResidual({
+    executionId: record.id,
+    symbol: record.symbol,
+    exchange: buyVenue,
+    quantity,
+    entryPrice,
+    entryFeesPerUnit
+  });
+  refreshPortfolio();
+
+  const unwound = hedge.success && hedge.residualQty === 0;
+  return transitionExecution(record.id, unwound ? 'unwound' : 'failed', {
+    status: unwound ? 'hedged' : 'partial',
+    hedgeExecutionId: hedge.hedgeId,
+    hedgeQty: hedge.filledQty,
+    hedgePrice: hedge.avgPrice,
+    realizedLoss: hedge.realizedLoss,
+    ...(unwound ? {} : { error: `${reason}; ${hedge.residualQty} ${asset} left open on ${buyVenue}` }),
+    completedAt: new Date()
+  }, reason);
+}
+
+/**
+ * Reconcile an inventory-mode execution
+ * Its legs trade against stock already on each venue, so only the net of what
+ * was bought and sold is exposure: long on the buy venue, short on the sell venue
+ */
+async function reconcileInventoryExecution(
+  record: ExecutionRecord,
+  references: string[],
+  reason: string
+): Promise<ExecutionRecord> {
+  const asset = baseAssetOf(record.symbol);
+  const net = getInventoryByReference(references)
+    .filter(entry => entry.asset === asset)
+    .reduce((sum, entry) => sum + entry.quantity, 0);
+
+  if (net < -NET_TOLERANCE) {
+    const sellVenue = findExchange(record.sellExchange ?? '')?.id ?? record.sellExchange ?? '';
+    return coverOwed(record, { exchange: sellVenue, quantity: net }, reason);
+  }
+  if (net <= NET_TOLERANCE) {
+    return closeFlat(record, reason);
+  }
+  const buyVenue = findExchange(record.buyExchange ?? '')?.id ?? record.buyExchange ?? '';
+  return unwindHeld(record, buyVenue, asset, net, reason);
+}
+
+/**
+ * Bring one in-flight execution to a terminal phase
+ * Inventory the execution still holds is moved back to the buy venue and sold
+ * there, and anything it sold without holding is bought back; with nothing
+ * held, a sell in progress or legs that both traded settle and anything
+ * earlier fails. Inventory-mode executions only hedge their net exposure
+ */
+export async function reconcileExecution(executionId: string, reason: string): Promise<ExecutionRecord | undefined> {
+  const record = getExecutionById(executionId);
+  if (!record) return undefined;
+  if (record.phase && isTerminalPhase(record.phase)) return record;
+
+  if (record.type === 'hedge') {
+    reconcileHedgeLeg(record, reason);
+    return getExecutionById(executionId);
+  }
+
+  // Leg fills are posted under their own order ids, the transfer and hedges
+  // under the execution's
+  const hedgeId = record.hedgeExecutionId ?? `${executionId}_HEDGE`;
+  const references = [
+    executionId,
+    legOrderId(executionId, 'buy'),
+    legOrderId(executionId, 'sell'),
+    hedgeId,
+    `${executionId}_COVER`
+  ];
+
+  if (record.inventoryMode) {
+    return reconcileInventoryExecution(record, references, reason);
+  }
+
+  // Concurrent legs interrupted before their transfer hold the buy on one venue
+  // and owe the sell on the other; settle that between the venues first
+  const owed = getInventoryByReference(references).find(entry => entry.quantity < 0);
+  if (owed) {
+    for (const entry of getInventoryByReference(references)) {
+      if (entry.quantity <= 0 || entry.asset !== owed.asset || owed.quantity >= 0) continue;
+      const quantity = Math.min(entry.quantity, -owed.quantity);
+      recordTransfer(entry.asset, quantity, entry.exchange, owed.exchange, executionId);
+      owed.quantity += quantity;
+    }
+    if (owed.quantity < 0) {
+      return coverOwed(record, owed, reason);
+    }
+  }
+
+  const held = getInventoryByReference(references).filter(entry => entry.quantity > 0);
+
+  if (held.length === 0) {
+    return closeFlat(record, reason);
+  }
+
+  // Consolidate on the buy venue before unwinding
+  const buyVenue = findExchange(record.buyExchange ?? '')?.id ?? held[0].exchange;
+  for (const entry of held) {
+    if (entry.exchange !== buyVenue) {
+      recordTransfer(entry.asset, entry.quantity, entry.exchange, buyVenue, executionId);
+    }
+  }
+  const quantity = held.reduce((sum, entry) => sum + entry.quantity, 0);
+  return unwindHeld(record, buyVenue, held[0].asset, quantity, reason);
+}
+
+/**
+ * Close out a leg fill that landed after its deadline
+ * By then the execution was compensated as if the leg filled nothing, so the
+ * late fill is hedged on its own venue: a late buy is sold back, a late sell
+ * bought back, each as a hedge named after the leg. The hedge goes out at
+ * once; its loss is charged to the execution once `settled` resolves, so the
+ * execution's own settlement does not overwrite it.
+ */
+export async function reconcileLateLeg(
+  executionId: string,
+  order: TradeOrder,
+  result: ExecutionResult,
+  settled: Promise<unknown> = Promise.resolve()
+): Promise<HedgeResult> {
+  const exchange = findExchange(order.exchange)?.id ?? order.exchange;
+  const quantity = result.executedQuantity;
+
+  addAuditLog({
+    eventType: 'system',
+    action: 'late_leg_filled',
+    component: 'recovery',
+    details: { executionId, orderId: order.orderId, side: order.side, exchange, quantity, price: result.executedPrice }
+  });
+
+  const request = {
+    executionId,
+    symbol: order.symbol,
+    exchange,
+    quantity,
+    entryPrice: result.executedPrice,
+    entryFeesPerUnit: quantity > 0 ? result.fees / quantity : 0
+  };
+  const hedge = order.side === 'buy'
+    ? await unwindResidual({ ...request, hedgeId: `${order.orderId}_HEDGE` })
+    : await coverShortfall({ ...request, hedgeId: `${order.orderId}_COVER` });
+  refreshPortfolio();
+
+  // On top of whatever the execution's own compensation already booked
+  await settled;
+  const parent = getExecutionById(executionId);
+  if (parent && hedge.filledQty > 0) {
+    updateExecutionRecord(executionId, {
+      profit: (parent.profit ?? 0) - hedge.realizedLoss,
+      realizedLoss: (parent.realizedLoss ?? 0) + hedge.realizedLoss,
+      hedgeExecutionId: hedge.hedgeId,
+      hedgeQty: hedge.filledQty,
+      hedgePrice: hedge.avgPrice
+    });
+  }
+  return hedge;
+}
+
+/**
+ * Reconcile every execution left in flight, e.g. by a restart mid-trade
+ * Only safe while nothing is executing, so it runs once at server startup
+ */
+export async function recoverInFlightExecutions(): Promise<RecoveryReport> {
+  const inFlight = getInFlightExecutions();
+  const report: RecoveryReport = { examined: inFlight.length, settled: [], unwound: [], failed: [] };
+
+  // Hedge legs first so their parents see the final fills
+  const ordered = [
+    ...inFlight.filter(record => record.type === 'hedge'),
+    ...inFlight.filter(record => record.type !== 'hedge')
+  ];
+
+  for (const record of ordered) {
+    try {
+      const result = await reconcileExecution(record.id, 'Interrupted by restart');
+      if (record.type === 'hedge') continue;
+      if (result?.phase === 'settled') report.settled.push(record.id);
+      else if (result?.phase === 'unwound') report.unwound.push(record.id);
+      else report.failed.push(record.id);
+    } catch (error) {
+      console.error(`[Recovery] Could not reconcile ${record.id}:`, error);
+      report.failed.push(record.id);
+    }
+  }
+
+  if (report.examined > 0) {
+    addAuditLog({
+      eventType: 'system',
+      action: 'execution_recovery',
+      component: 'recovery',
+      details: { ...report }
+    });
+    console.log(
+      `[Recovery] ${report.examined} in-flight executions: ${report.settled.length} settled, ` +
+      `${report.unwound.length} unwound, ${report.failed.length} failed`
+    );
+  }
+
+  return report;
+}
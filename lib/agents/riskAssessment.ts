@@ -2,18 +2,26 @@
 
 import { calculateSpreads, getPriceHistory } from '@/lib/agents/priceDiscovery';
 import { getBinancePrices } from '@/lib/exchanges/binance';
-import { getIndianExchangePrices, getIndianOrderBook, getIndianLiquidityEstimate } from '@/lib/exchanges/indianMock';
+import { getIndianExchangePrices } from '@/lib/exchanges/indianMock';
 import { getNSEPrices } from '@/lib/exchanges/nseMock';
+import { estimateLiquidity } from '@/lib/exchanges/registry';
 import { Opportunity } from '@/lib/arbitrage/detector';
+import type { TriangularOpportunity } from '@/lib/arbitrage/triangular';
+import { getAverageSpread, MIN_SAMPLES_FOR_STATS } from '@/lib/arbitrage/spread';
+import { getFeeRates, getRoundTripFeePct } from '@/lib/exchanges/fees';
 
 export interface RiskAssessmentResult {
   riskScore: number; // 0-100
-  slippagePct: number;
+  slippagePct: number; // selling targetQuantity into the sell venue's bids
+  buySlippagePct: number; // buying it from the buy venue's asks
   volatilityPct: number;
   liquidityEstimate: {
     fillableQty: number;
     expectedAvgPrice: number;
   };
+  spreadZScore: number | null; // vs the pair's recorded spread history
+  spreadAbnormal: boolean;
+  feePct: number; // taker fees on both legs, from the fee schedule
   notes: string[];
 }
 
@@ -459,10 +467,12 @@ export async function quickRiskCheck(
  */
 export async function assessRisk(
   opportunity: Opportunity,
-  targetQuantity: number = 1
+  targetQuantity: number = 1,
+  opts: { useSpreadHistory?: boolean } = {}
 ): Promise<RiskAssessmentResult> {
   try {
-    const { symbol, spreadPct, binancePrice, indianPrice } = opportunity;
+    const { symbol, spreadPct, buyExchange, sellExchange, buyPrice, sellPrice } = opportunity;
+    const { useSpreadHistory = true } = opts;
     const notes: string[] = [];
 
     // 1. Calculate volatility from rolling ticks
@@ -486,8 +496,29 @@ export async function assessRisk(
       volatilityPct = 0.5; // Assume moderate volatility
     }
 
-    // 2. Get Indian exchange orderbook depth and liquidity estimate
-    const liquidityEstimate = await getIndianLiquidityEstimate(symbol, targetQuantity);
+    // 1b. Compare the spread with this pair's recorded history
+    let spreadZScore: number | null = null;
+    let spreadAbnormal = false;
+    
+    if (useSpreadHistory) {
+      const spreadStats = await getAverageSpread(symbol, [buyExchange, sellExchange], 60);
+      
+      if (spreadStats.sampleCount >= MIN_SAMPLES_FOR_STATS) {
+        spreadZScore = spreadStats.stdDev > 0 ? (spreadPct - spreadStats.mean) / spreadStats.stdDev : 0;
+        spreadAbnormal = spreadStats.isOutlier;
+        
+        if (spreadAbnormal) {
+          notes.push(`Abnormal spread: ${spreadZScore.toFixed(1)}σ from its 60m mean (${spreadStats.mean.toFixed(2)}%) - quote may be stale or erroneous`);
+        } else {
+          notes.push(`Spread within normal range (z=${spreadZScore.toFixed(1)})`);
+        }
+      } else {
+        notes.push(`Insufficient spread history (${spreadStats.sampleCount} samples) - cannot judge if spread is normal`);
+      }
+    }
+
+    // 2. Get sell venue orderbook depth and liquidity estimate
+    const liquidityEstimate = await estimateLiquidity(sellExchange, symbol, targetQuantity, 'sell');
     
     if (liquidityEstimate.fillableQty < targetQuantity) {
       notes.push(`Low liquidity: only ${liquidityEstimate.fillableQty.toFixed(3)} fillable of ${targetQuantity} requested`);
@@ -497,15 +528,26 @@ export async function assessRisk(
     }
 
     // 3. Estimate slippage based on orderbook
-    const midPrice = indianPrice;
+    const midPrice = sellPrice;
     const slippagePct = liquidityEstimate.fillableQty > 0
-      ? ((liquidityEstimate.expectedAvgPrice - midPrice) / midPrice) * 100
+      ? ((midPrice - liquidityEstimate.expectedAvgPrice) / midPrice) * 100
       : 1.0; // Assume 1% slippage if no data
 
     if (Math.abs(slippagePct) > 0.5) {
       notes.push(`High slippage expected (${slippagePct.toFixed(2)}%) due to orderbook depth`);
     }
 
+    // 3b. The same for the buy leg, which execution uses to pick its order type
+    let buySlippagePct = 1.0;
+    try {
+      const buyLiquidity = await estimateLiquidity(buyExchange, symbol, targetQuantity, 'buy');
+      if (buyLiquidity.fillableQty > 0) {
+        buySlippagePct = ((buyLiquidity.expectedAvgPrice - buyPrice) / buyPrice) * 100;
+      }
+    } catch (error) {
+      notes.push(`No ${buyExchange} orderbook - buy slippage unknown`);
+    }
+
     // 4. Calculate base risk score from spread size
     let riskScore = 50; // Start at neutral
 
@@ -520,6 +562,16 @@ export async function assessRisk(
       notes.push(`Tight spread (${spreadPct.toFixed(2)}%) leaves little margin for error`);
     }
 
+    // 4b. The spread has to pay both legs' trading fees
+    const feePct = getRoundTripFeePct(buyExchange, sellExchange);
+    if (spreadPct <= feePct) {
+      riskScore += 25;
+      notes.push(`Spread (${spreadPct.toFixed(2)}%) does not cover trading fees (${feePct.toFixed(2)}%)`);
+    } else if (spreadPct - feePct < 0.2) {
+      riskScore += 10;
+      notes.push(`Only ${(spreadPct - feePct).toFixed(2)}% of spread left after fees`);
+    }
+
     // 5. Apply volatility penalty
     if (volatilityPct > 1.0) {
       riskScore += 25;
@@ -547,6 +599,11 @@ export async function assessRisk(
       riskScore += 10;
     }
 
+    // 8. Abnormal spread penalty
+    if (spreadAbnormal) {
+      riskScore += 15;
+    }
+
     // Clamp risk score to 0-100
     riskScore = Math.max(0, Math.min(100, riskScore));
 
@@ -562,8 +619,12 @@ export async function assessRisk(
     return {
       riskScore,
       slippagePct: Math.abs(slippagePct),
+      buySlippagePct: Math.abs(buySlippagePct),
       volatilityPct,
       liquidityEstimate,
+      spreadZScore,
+      spreadAbnormal,
+      feePct,
       notes
     };
   } catch (error) {
@@ -571,13 +632,101 @@ export async function assessRisk(
     return {
       riskScore: 80,
       slippagePct: 1.0,
+      buySlippagePct: 1.0,
       volatilityPct: 1.0,
       liquidityEstimate: {
         fillableQty: 0,
         expectedAvgPrice: 0,
       },
+      spreadZScore: null,
+      spreadAbnormal: false,
+      feePct: 0,
       notes: ['Error assessing risk - proceeding with high risk score for safety']
     };
   }
 }
 
+
+/**
+ * Assess risk for a triangular cycle on one exchange
+ * The detector already walked each leg's book, so depth is priced into the
+ * cycle's rate; what is left is the margin, the markets moving between legs
+ * and the legs themselves going out one after another
+ */
+export async function assessTriangularRisk(
+  opportunity: TriangularOpportunity
+): Promise<RiskAssessmentResult> {
+  const { exchange, legs, profitPct, startAmount, netRate } = opportunity;
+  const notes: string[] = [];
+
+  // 1. Volatility of the most volatile leg with enough price history
+  let volatilityPct: number | null = null;
+  for (const leg of legs) {
+    const prices = getPriceHistory(leg.symbol).map(t => t.price);
+    if (prices.length < 2) continue;
+
+    const mean = prices.reduce((a, b) => a + b, 0) / prices.length;
+    const variance = prices.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) / prices.length;
+    volatilityPct = Math.max(volatilityPct ?? 0, (Math.sqrt(variance) / mean) * 100);
+  }
+
+  if (volatilityPct === null) {
+    notes.push(`Insufficient price history on ${legs.map(leg => leg.symbol).join(', ')} - volatility unknown`);
+    volatilityPct = 0.5; // Assume moderate volatility
+  } else if (volatilityPct > 1.0) {
+    notes.push(`High volatility detected (${volatilityPct.toFixed(2)}%) - the cycle may break between legs`);
+  } else if (volatilityPct > 0.5) {
+    notes.push(`Moderate volatility (${volatilityPct.toFixed(2)}%)`);
+  }
+
+  // 2. Base risk score from the margin left after fees and depth
+  let riskScore = 50;
+
+  if (profitPct > 1.0) {
+    riskScore -= 20;
+    notes.push(`Cycle returns ${profitPct.toFixed(2)}% after fees - good profit buffer`);
+  } else if (profitPct > 0.5) {
+    riskScore -= 10;
+  } else if (profitPct < 0.2) {
+    riskScore += 20;
+    notes.push(`Thin cycle margin (${profitPct.toFixed(2)}%) leaves little room for price moves`);
+  }
+
+  // 3. Three taker legs sent in sequence, each waiting on the one before
+  riskScore += 10;
+  notes.push(`${legs.length} sequential legs on ${exchange} - a move between legs eats the margin`);
+
+  // 4. Volatility penalty, as for cross-exchange opportunities
+  if (volatilityPct > 1.0) {
+    riskScore += 25;
+  } else if (volatilityPct > 0.5) {
+    riskScore += 15;
+  } else if (volatilityPct < 0.1) {
+    riskScore -= 10;
+  }
+
+  riskScore = Math.max(0, Math.min(100, riskScore));
+
+  if (riskScore > 70) {
+    notes.push(`HIGH RISK - consider skipping this opportunity`);
+  } else if (riskScore > 50) {
+    notes.push(`MEDIUM RISK - proceed with caution and smaller position`);
+  } else if (riskScore < 30) {
+    notes.push(`LOW RISK - favorable conditions for execution`);
+  }
+
+  return {
+    riskScore,
+    slippagePct: 0,
+    buySlippagePct: 0,
+    volatilityPct,
+    liquidityEstimate: {
+      fillableQty: startAmount,
+      expectedAvgPrice: netRate
+    },
+    spreadZScore: null,
+    spreadAbnormal: false,
+    feePct: getFeeRates(exchange).taker * 100 * legs.length, // taker fees on every leg
+    notes
+  };
+}
@@ -1,81 +1,128 @@
 // Autonomous Runner - Orchestrates all agents with Guardian safety layer
 
 import { discoverPrices } from './priceDiscovery';
-import { detectArbitrage } from '../arbitrage/detector';
-import { assessRisk } from './riskAssessment';
+import { detectArbitrage, validateOpportunity } from '../arbitrage/detector';
+import { detectTriangularArbitrage, type TriangularOpportunity } from '../arbitrage/triangular';
+import { assessRisk, assessTriangularRisk } from './riskAssessment';
 import { allocateCapitalForOpportunity } from './capitalAllocation';
 import { debateWithMedianConsensus } from './debateAgent';
-import { executeArbitrageWithPartialFills } from './executionEngine';
+import { executeArbitrageWithPartialFills, executeTriangularCycle, syncOpenOrders } from './executionEngine';
 import { getSettings } from '../state/settings';
-import { getPortfolio } from '../state/portfolio';
+import { getPortfolio, getValuedPortfolio } from '../state/portfolio';
+import { recordEquitySnapshot } from '../state/equityCurve';
 import { addAuditLog, getAuditLog } from '../state/auditLog';
 import { getState, updateState, type RunnerState, type GuardianConfig } from '../state/global';
+import { isReplayActive, advanceReplayClock } from '../exchanges/replay';
+import { isExchangeDown, getPollIntervalOverride } from '../exchanges/simulation';
+import { reseedRng } from '../state/rng';
+import { isBacktestActive, backtestBusyMessage } from '../backtest/guard';
 
-interface GuardianResult {
+export interface GuardianResult {
   pass: boolean;
+  rule?: 'exchange_outage' | 'trade_size' | 'daily_limit' | 'high_volatility' | 'risk_score';
   reason?: string;
   warnings: string[];
 }
 
+// Portfolio, trade count and outages the guardian evaluates against
+// (defaults to live state; the backtester supplies its own)
+export interface GuardianContext {
+  portfolio: { cash: number; totalValue: number };
+  tradesToday: number;
+  exchangeOutages?: string[]; // adapter ids
+}
+
 let runnerInterval: NodeJS.Timeout | null = null;
+let runnerPollMs = 2000;
+
+// Polls a triangular cycle must survive before it is evaluated
+const TRIANGULAR_MIN_PERSISTENCE = 2;
+
+/**
+ * Count executions completed today from the audit log
+ */
+function countTradesToday(): number {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  return getAuditLog({ action: 'execution_completed', since: startOfDay.getTime() }).length;
+}
 
 /**
  * Guardian safety check
  */
-function guardianCheck(
+export function guardianCheck(
   opportunity: any,
   risk: any,
   allocation: any,
-  guardianConfig?: GuardianConfig
+  guardianConfig?: GuardianConfig,
+  context?: GuardianContext
 ): GuardianResult {
   const warnings: string[] = [];
-  const portfolio = getPortfolio();
+  const portfolio = context?.portfolio || getPortfolio();
   const config = guardianConfig || getState().guardianSettings;
   
-  // Check 1: Trade size vs portfolio
+  // Check 1: Exchange outage on any leg; a triangular cycle trades on one exchange
+  if (config.vetoconditions.exchangeOutage) {
+    const venues: string[] = opportunity.kind === 'triangular'
+      ? [opportunity.exchange]
+      : [opportunity.buyExchange, opportunity.sellExchange];
+    const down = venues.filter(exchange =>
+      context ? (context.exchangeOutages || []).includes(exchange) : isExchangeDown(exchange)
+    );
+    if (down.length > 0) {
+      return {
+        pass: false,
+        rule: 'exchange_outage',
+        reason: `Exchange outage: ${down.join(', ')}`,
+        warnings
+      };
+    }
+  }
+  
+  // Check 2: Trade size vs portfolio
   const tradePct = allocation.allocatedUSDT / portfolio.totalValue;
   if (tradePct > config.maxTradePctOfPortfolio) {
     return {
       pass: false,
+      rule: 'trade_size',
       reason: `Trade size ${(tradePct * 100).toFixed(1)}% exceeds limit ${(config.maxTradePctOfPortfolio * 100)}%`,
       warnings
     };
   }
   
-  // Check 2: Daily trade count
-  const today = new Date().toDateString();
-  const todayLogs = getAuditLog().filter(log => 
-    log.timestamp && new Date(log.timestamp).toDateString() === today &&
-    log.action === 'execution_completed'
-  );
+  // Check 3: Daily trade count
+  const tradesToday = context ? context.tradesToday : countTradesToday();
   
-  if (todayLogs.length >= config.dailyMaxTrades) {
+  if (tradesToday >= config.dailyMaxTrades) {
     return {
       pass: false,
+      rule: 'daily_limit',
       reason: `Daily trade limit reached (${config.dailyMaxTrades})`,
       warnings
     };
   }
   
-  // Check 3: Global exposure
+  // Check 4: Global exposure
   const currentExposure = (portfolio.totalValue - portfolio.cash) / portfolio.totalValue;
   if (currentExposure > config.globalMaxExposurePct) {
     warnings.push(`High exposure: ${(currentExposure * 100).toFixed(1)}%`);
   }
   
-  // Check 4: High volatility veto
+  // Check 5: High volatility veto
   if (config.vetoconditions.highVolatility && risk.volatilityPct > 2.0) {
     return {
       pass: false,
+      rule: 'high_volatility',
       reason: `High volatility ${risk.volatilityPct.toFixed(2)}% exceeds threshold`,
       warnings
     };
   }
   
-  // Check 5: Risk score threshold
+  // Check 6: Risk score threshold
   if (risk.riskScore > 75) {
     return {
       pass: false,
+      rule: 'risk_score',
       reason: `Risk score ${risk.riskScore} too high for autonomous execution`,
       warnings
     };
@@ -84,6 +131,92 @@ function guardianCheck(
   return { pass: true, warnings };
 }
 
+/**
+ * Risk, allocation and guardian check for a triangular cycle
+ * There is no debate: the cycle's rate already nets out fees and depth. It is
+ * executed only when the guardian passes it and triangularExecution is on.
+ */
+async function processTriangularOpportunity(tri: TriangularOpportunity): Promise<void> {
+  const state = getState();
+  state.runner.opportunitiesProcessed++;
+  updateState('runner', state.runner);
+  
+  const path = tri.path.join(' -> ');
+  console.log(`[Runner] Processing triangular cycle: ${path} on ${tri.exchange} (${tri.profitPct.toFixed(2)}%)`);
+  
+  const risk = await assessTriangularRisk(tri);
+  console.log(`[Runner] Risk score: ${risk.riskScore}/100`);
+  
+  // No more than the amount the cycle was priced at, since depth sets its rate
+  const portfolio = getPortfolio();
+  const allocation = { allocatedUSDT: Math.max(0, Math.min(tri.startAmount, portfolio.cash, 5000)) };
+  console.log(`[Runner] Allocation: $${allocation.allocatedUSDT}`);
+  
+  const guardian = guardianCheck(tri, risk, allocation, getState().guardianSettings);
+  console.log(`[Runner] Guardian: ${guardian.pass ? 'PASS' : 'VETO'} ${guardian.reason || ''}`);
+  
+  const executionEnabled = getSettings().triangularExecution;
+  
+  addAuditLog({
+    action: 'triangular_opportunity_evaluated',
+    component: 'runner',
+    opportunityId: tri.id,
+    details: {
+      exchange: tri.exchange,
+      path,
+      profitPct: tri.profitPct,
+      riskScore: risk.riskScore,
+      volatilityPct: risk.volatilityPct,
+      allocation: allocation.allocatedUSDT,
+      guardianPass: guardian.pass,
+      guardianRule: guardian.rule,
+      guardianReason: guardian.reason,
+      guardianWarnings: guardian.warnings,
+      executionEnabled
+    },
+    eventType: 'risk_assessment'
+  });
+  
+  if (!guardian.pass || !executionEnabled || allocation.allocatedUSDT <= 0) {
+    console.log(`[Runner] ✗ Skipping triangular execution (Guardian: ${guardian.pass}, Enabled: ${executionEnabled})`);
+    return;
+  }
+  
+  console.log(`[Runner] ✓ Executing triangular cycle ${path} on ${tri.exchange}`);
+  const current = getState();
+  current.runner.executionsAttempted++;
+  updateState('runner', current.runner);
+  
+  addAuditLog({
+    action: 'autonomous_execution_initiated',
+    component: 'runner',
+    details: {
+      opportunity: tri.id,
+      exchange: tri.exchange,
+      path,
+      riskScore: risk.riskScore,
+      allocation: allocation.allocatedUSDT,
+      profitPct: tri.profitPct
+    },
+    eventType: 'execution'
+  });
+  
+  try {
+    const result = await executeTriangularCycle(tri, allocation.allocatedUSDT);
+    
+    if (result.success) {
+      const state = getState();
+      state.runner.executionsSuccessful++;
+      updateState('runner', state.runner);
+      console.log(`[Runner] ✓ Triangular execution successful: ${result.netProfit.toFixed(2)} profit`);
+    } else {
+      console.log(`[Runner] ✗ Triangular execution failed: ${result.error}`);
+    }
+  } catch (execError) {
+    console.error(`[Runner] Triangular execution error:`, execError);
+  }
+}
+
 /**
  * Single poll iteration
  */
@@ -96,6 +229,11 @@ async function pollOnce(): Promise<void> {
     runnerState.lastPollTime = new Date().toISOString();
     updateState('runner', runnerState);
     
+    // Step the replay clock so each poll sees the next slice of recorded data
+    if (isReplayActive() && runnerState.pollCount > 1) {
+      advanceReplayClock(runnerPollMs);
+    }
+    
     console.log(`[Runner] Poll #${runnerState.pollCount} at ${runnerState.lastPollTime}`);
     
     // Step 1: Discover prices
@@ -110,6 +248,35 @@ async function pollOnce(): Promise<void> {
     
     console.log(`[Runner] Found ${opportunities.length} opportunities`);
     
+    // Step 2b: Detect triangular cycles within each exchange
+    const triangularOpportunities = await detectTriangularArbitrage({
+      minProfitPct: 0.1,
+      minPersistenceCount: TRIANGULAR_MIN_PERSISTENCE
+    });
+    
+    console.log(`[Runner] Found ${triangularOpportunities.length} triangular opportunities`);
+    
+    for (const tri of triangularOpportunities) {
+      // Evaluate once, when the cycle first clears the persistence threshold
+      if (tri.persistenceCount !== TRIANGULAR_MIN_PERSISTENCE) continue;
+      
+      addAuditLog({
+        action: 'triangular_opportunity_detected',
+        component: 'runner',
+        opportunityId: tri.id,
+        details: {
+          exchange: tri.exchange,
+          path: tri.path.join(' -> '),
+          startAmount: tri.startAmount,
+          endAmount: tri.endAmount,
+          profitPct: tri.profitPct
+        },
+        eventType: 'detection'
+      });
+      
+      await processTriangularOpportunity(tri);
+    }
+    
     // Step 3: Process each opportunity
     for (const opp of opportunities) {
       const state = getState();
@@ -143,8 +310,29 @@ async function pollOnce(): Promise<void> {
         console.log(`[Runner] Guardian warnings: ${guardian.warnings.join(', ')}`);
       }
       
-      // 3e. Execute if all checks pass
+      // 3e. Execute if all checks pass and the edge survived the debate
       if (guardian.pass && debate.decision === 'execute') {
+        const revalidation = await validateOpportunity(opp, { allocationUSDT: allocation.allocatedUSDT });
+        
+        if (!revalidation.valid) {
+          console.log(`[Runner] ✗ Opportunity no longer viable: ${revalidation.reason}`);
+          addAuditLog({
+            action: 'execution_aborted',
+            component: 'runner',
+            opportunityId: opp.id,
+            details: {
+              symbol: opp.symbol,
+              reason: revalidation.reason,
+              ageMs: revalidation.ageMs,
+              detectedSpreadPct: opp.spreadPct,
+              spreadPct: revalidation.spreadPct,
+              netEdgePct: revalidation.netEdgePct
+            },
+            eventType: 'execution'
+          });
+          continue;
+        }
+        
         console.log(`[Runner] ✓ Executing trade for ${opp.symbol}`);
         
         const state = getState();
@@ -159,13 +347,18 @@ async function pollOnce(): Promise<void> {
             symbol: opp.symbol,
             riskScore: risk.riskScore,
             allocation: allocation.allocatedUSDT,
-            debateScore: debate.finalDecisionScore
+            debateScore: debate.finalDecisionScore,
+            netEdgePct: revalidation.netEdgePct
           },
           eventType: 'execution'
         });
         
         try {
-          const result = await executeArbitrageWithPartialFills(opp, allocation.allocatedUSDT);
+          const result = await executeArbitrageWithPartialFills(
+            { ...opp, buyPrice: revalidation.buyPrice, sellPrice: revalidation.sellPrice },
+            allocation.allocatedUSDT,
+            risk
+          );
           
           if (result.success) {
             const state = getState();
@@ -183,6 +376,11 @@ async function pollOnce(): Promise<void> {
       }
     }
     
+    // Step 4: Post fills on resting limit orders, then mark open inventory and record the equity curve
+    await syncOpenOrders();
+    const valued = await getValuedPortfolio();
+    recordEquitySnapshot(valued);
+    
   } catch (error) {
     console.error('[Runner] Poll error:', error);
     
@@ -197,8 +395,9 @@ async function pollOnce(): Promise<void> {
 
 /**
  * Start the autonomous runner
+ * A poll interval override from /api/admin/simulate takes precedence over pollMs
  */
-export function startRunner(pollMs: number = 2000): boolean {
+export function startRunner(pollMs: number = 2000, seed?: number): boolean {
   const state = getState();
   const runnerState = state.runner;
   
@@ -206,8 +405,18 @@ export function startRunner(pollMs: number = 2000): boolean {
     console.log('[Runner] Already running');
     return false;
   }
+
+  if (isBacktestActive()) {
+    throw new Error(backtestBusyMessage());
+  }
   
+  pollMs = getPollIntervalOverride() ?? pollMs;
   console.log(`[Runner] Starting with poll interval: ${pollMs}ms`);
+  runnerPollMs = pollMs;
+
+  // Every session draws from a fresh generator so it can be replayed from its seed
+  const rng = reseedRng(seed);
+  console.log(`[Runner] Simulation seed: ${rng.seed}`);
   
   // Update runner state
   runnerState.isRunning = true;
@@ -222,7 +431,7 @@ export function startRunner(pollMs: number = 2000): boolean {
   addAuditLog({
     action: 'runner_started',
     component: 'runner',
-    details: { pollMs, symbols: runnerState.currentSymbols },
+    details: { pollMs, seed: rng.seed, symbols: runnerState.currentSymbols },
     eventType: 'system'
   });
   
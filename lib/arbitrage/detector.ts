@@ -2,9 +2,14 @@
 
 import { calculateSpreads, SpreadData } from '@/lib/agents/priceDiscovery';
 import { discoverPrices, DiscoveredPrice } from '@/lib/agents/priceDiscovery';
+import { getInrConversionCosts } from '@/lib/exchanges/fx';
+import { getRoundTripFeePct, getTradingFee, getTransferCost } from '@/lib/exchanges/fees';
+import { getInstrument, normalizeQuantityAcross } from '@/lib/exchanges/symbols';
+import { getExchange } from '@/lib/exchanges/registry';
+import { getSettings } from '@/lib/state/settings';
 
 // Persistence buffer for tracking opportunities across polls
-interface OpportunityPersistence {
+export interface OpportunityPersistence {
   opportunityKey: string;
   firstSeenTs: number;
   lastSeenTs: number;
@@ -12,16 +17,21 @@ interface OpportunityPersistence {
   data: Opportunity;
 }
 
-const persistenceBuffer: Map<string, OpportunityPersistence> = new Map();
+const liveBuffer: Map<string, OpportunityPersistence> = new Map();
 
 export interface Opportunity {
   id: string;
+  kind: 'cross_exchange';
   symbol: string;
   spreadPct: number;
   action: string;
-  estimatedGrossProfitPct: number;
-  binancePrice: number;
-  indianPrice: number;
+  estimatedGrossProfitPct: number; // spread less fees and conversion costs
+  feePct: number; // taker fees on both legs
+  conversionCostPct: number; // TDS, INR/USDT spread and USDT premium when one leg settles in INR
+  buyExchange: string;
+  sellExchange: string;
+  buyPrice: number;
+  sellPrice: number;
   firstSeenTs: number;
   lastSeenTs: number;
   persistenceCount: number;
@@ -31,13 +41,31 @@ export interface DetectArbitrageOptions {
   minSpreadPct?: number;
   persistenceMs?: number;
   minPersistenceCount?: number;
+  now?: number; // defaults to wall clock; backtests pass virtual time
+  buffer?: Map<string, OpportunityPersistence>; // isolates callers from the live buffer
 }
 
 
+/**
+ * Collect per-exchange prices from a discovery result
+ * Falls back to the legacy fixed fields for callers that omit the map
+ */
+function getVenuePrices(priceData: DiscoveredPrice): Record<string, number> {
+  if (priceData.prices && Object.keys(priceData.prices).length > 0) {
+    return priceData.prices;
+  }
+
+  const prices: Record<string, number> = {};
+  if (priceData.binancePrice) prices.binance = priceData.binancePrice;
+  if (priceData.indianPrice) prices.wazirx = priceData.indianPrice;
+  if (priceData.nsePrice) prices.nse = priceData.nsePrice;
+  return prices;
+}
 
 /**
  * Detect arbitrage opportunities with persistence buffer
- * Only returns opportunities that have persisted across multiple polls
+ * Evaluates every ordered exchange pair and only returns opportunities
+ * that have persisted across multiple polls
  */
 export async function detectArbitrage(
   prices: DiscoveredPrice[],
@@ -46,85 +74,98 @@ export async function detectArbitrage(
   const {
     minSpreadPct = 0.5,
     persistenceMs = 2000,
-    minPersistenceCount = 2
+    minPersistenceCount = 2,
+    now = Date.now(),
+    buffer: persistenceBuffer = liveBuffer
   } = opts;
 
   const opportunities: Opportunity[] = [];
-  const currentTime = Date.now();
+  const currentTime = now;
   const seenKeys = new Set<string>();
 
   for (const priceData of prices) {
-    const { symbol, binancePrice, indianPrice } = priceData;
+    const { symbol } = priceData;
+    const venues = Object.entries(getVenuePrices(priceData)).filter(([, price]) => price > 0);
 
-    // Skip if either price is missing
-    if (!binancePrice || !indianPrice) {
-      continue;
-    }
+    for (const [buyExchange, buyPrice] of venues) {
+      for (const [sellExchange, sellPrice] of venues) {
+        if (buyExchange === sellExchange || sellPrice <= buyPrice) {
+          continue;
+        }
 
-    // Calculate spread
-    const spreadPct = ((indianPrice - binancePrice) / binancePrice) * 100;
+        // Calculate spread
+        const spreadPct = ((sellPrice - buyPrice) / buyPrice) * 100;
 
-    // Skip if spread is below minimum threshold
-    if (Math.abs(spreadPct) < minSpreadPct) {
-      continue;
-    }
+        // Skip if spread is below minimum threshold
+        if (spreadPct < minSpreadPct) {
+          continue;
+        }
 
-    // Determine action based on spread direction
-    const action = spreadPct > 0 
-      ? 'buy-binance-sell-india' 
-      : 'buy-india-sell-binance';
-
-    // Create unique key for this opportunity
-    const opportunityKey = `${symbol}_${action}`;
-    seenKeys.add(opportunityKey);
-
-    // Check if this opportunity exists in persistence buffer
-    let persistence = persistenceBuffer.get(opportunityKey);
-
-    if (persistence) {
-      // Update existing opportunity
-      persistence.lastSeenTs = currentTime;
-      persistence.persistenceCount += 1;
-      persistence.data = {
-        ...persistence.data,
-        spreadPct: Math.abs(spreadPct),
-        estimatedGrossProfitPct: Math.abs(spreadPct) - 0.3, // Subtract estimated fees
-        binancePrice,
-        indianPrice,
-        lastSeenTs: currentTime,
-        persistenceCount: persistence.persistenceCount,
-      };
-    } else {
-      // New opportunity - add to buffer
-      const oppId = `opp_${symbol}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-      persistence = {
-        opportunityKey,
-        firstSeenTs: currentTime,
-        lastSeenTs: currentTime,
-        persistenceCount: 1,
-        data: {
-          id: oppId,
-          symbol,
-          spreadPct: Math.abs(spreadPct),
-          action,
-          estimatedGrossProfitPct: Math.abs(spreadPct) - 0.3, // Subtract estimated fees
-          binancePrice,
-          indianPrice,
-          firstSeenTs: currentTime,
-          lastSeenTs: currentTime,
-          persistenceCount: 1,
-        },
-      };
-      persistenceBuffer.set(opportunityKey, persistence);
-    }
+        const action = `buy-${buyExchange}-sell-${sellExchange}`;
+        const conversionCostPct = getInrConversionCosts(symbol, buyExchange, sellExchange).totalPct;
+        const feePct = getRoundTripFeePct(buyExchange, sellExchange);
+
+        // Create unique key for this opportunity (one per symbol and ordered pair)
+        const opportunityKey = `${symbol}_${buyExchange}_${sellExchange}`;
+        seenKeys.add(opportunityKey);
+
+        // Check if this opportunity exists in persistence buffer
+        let persistence = persistenceBuffer.get(opportunityKey);
+
+        if (persistence) {
+          // Update existing opportunity
+          persistence.lastSeenTs = currentTime;
+          persistence.persistenceCount += 1;
+          persistence.data = {
+            ...persistence.data,
+            spreadPct,
+            estimatedGrossProfitPct: spreadPct - feePct - conversionCostPct,
+            feePct,
+            conversionCostPct,
+            buyPrice,
+            sellPrice,
+            lastSeenTs: currentTime,
+            persistenceCount: persistence.persistenceCount,
+          };
+        } else {
+          // New opportunity - add to buffer; the key and (virtual) time make
+          // the id unique without a random draw, so backtests reproduce it
+          const oppId = `opp_${opportunityKey}_${currentTime}`;
+          persistence = {
+            opportunityKey,
+            firstSeenTs: currentTime,
+            lastSeenTs: currentTime,
+            persistenceCount: 1,
+            data: {
+              id: oppId,
+              kind: 'cross_exchange',
+              symbol,
+              spreadPct,
+              action,
+              estimatedGrossProfitPct: spreadPct - feePct - conversionCostPct,
+              feePct,
+              conversionCostPct,
+              buyExchange,
+              sellExchange,
+              buyPrice,
+              sellPrice,
+              firstSeenTs: currentTime,
+              lastSeenTs: currentTime,
+              persistenceCount: 1,
+            },
+          };
+          persistenceBuffer.set(opportunityKey, persistence);
+        }
 
-    // Check if opportunity meets persistence criteria
-    const timePersisted = currentTime - persistence.firstSeenTs;
-    const meetsCountCriteria = persistence.persistenceCount >= minPersistenceCount;
-    const meetsTimeCriteria = timePersisted >= persistenceMs;
+        // Check if opportunity meets persistence criteria
+        const timePersisted = currentTime - persistence.firstSeenTs;
+        const meetsCountCriteria = persistence.persistenceCount >= minPersistenceCount;
+        const meetsTimeCriteria = timePersisted >= persistenceMs;
 
-    if (meetsCountCriteria || meetsTimeCriteria) {
-      opportunities.push(persistence.data);
+        if (meetsCountCriteria || meetsTimeCriteria) {
+          opportunities.push(persistence.data);
+        }
+      }
     }
   }
 
@@ -155,13 +196,15 @@ export interface ArbitrageOpportunity {
   sellPrice: number;
   spread: number; // percentage
   spreadAbsolute: number; // absolute value
+  quantity: number; // base units the costs were estimated for
   estimatedProfit: number;
   estimatedFees: number;
+  costs: TransactionCostBreakdown;
   netProfit: number;
   confidence: number; // 0-1
   liquidity: {
-    buy: number;
-    sell: number;
+    buy: number; // fillable on the buy venue's asks
+    sell: number; // fillable on the sell venue's bids
   };
   timestamp: Date;
   expiresAt: Date;
@@ -173,8 +216,40 @@ export interface DetectionConfig {
   exchanges: string[];
   symbols: string[];
   checkIntervalMs: number;
+  allocationUSDT?: number; // trade size costs are estimated for
 }
 
+export interface TransactionCostInput {
+  symbol: string;
+  buyExchange: string;
+  sellExchange: string;
+  buyPrice: number;
+  sellPrice: number;
+  quantity: number;
+}
+
+export interface TransactionCostBreakdown {
+  quantity: number;
+  buyAvgPrice: number; // expected fill prices after walking each book
+  sellAvgPrice: number;
+  tradingFees: number;
+  transferFees: number; // withdrawing the coin from the buy venue; none in inventory mode
+  slippage: number; // fills worse than the quoted prices
+  fx: number; // TDS, INR/USDT spread and USDT premium
+  total: number;
+  totalPct: number; // of the buy notional
+  depth: {
+    buy: number; // fillable quantity on each side of the trade
+    sell: number;
+  };
+}
+
+// Default trade size for cost estimates
+const DEFAULT_ALLOCATION_USDT = 1000;
+
+// Slippage assumed when a venue's book cannot be fetched
+const FALLBACK_SLIPPAGE_PCT = 0.1;
+
 /**
  * Detect arbitrage opportunities across all exchanges
  * Uses spread calculation from priceDiscovery agent
@@ -196,17 +271,28 @@ export async function detectOpportunities(
           continue;
         }
         
-        // Calculate estimated fees
-        const estimatedFees = await estimateTransactionCosts(
+        // Size the trade from the allocation, in lots both venues accept
+        const quantity = normalizeQuantityAcross(
+          [opp.buyExchange, opp.sellExchange],
           spreadData.symbol,
-          opp.buyExchange,
-          opp.sellExchange,
-          1 // Assume 1 unit for estimation
+          (config.allocationUSDT ?? DEFAULT_ALLOCATION_USDT) / opp.buyPrice
         );
+        if (quantity <= 0) {
+          continue;
+        }
+        
+        const costs = await estimateTransactionCosts({
+          symbol: spreadData.symbol,
+          buyExchange: opp.buyExchange,
+          sellExchange: opp.sellExchange,
+          buyPrice: opp.buyPrice,
+          sellPrice: opp.sellPrice,
+          quantity
+        });
         
         const spreadAbsolute = opp.sellPrice - opp.buyPrice;
-        const grossProfit = spreadAbsolute;
-        const netProfit = grossProfit - estimatedFees;
+        const grossProfit = spreadAbsolute * quantity;
+        const netProfit = grossProfit - costs.total;
         
         // Filter by minimum profit
         if (netProfit < config.minProfitUSD) {
@@ -230,12 +316,6 @@ export async function detectOpportunities(
         // Generate unique ID
         const id = `${spreadData.symbol}_${opp.buyExchange}_${opp.sellExchange}_${Date.now()}`;
         
-        // Mock liquidity (in production, fetch from order books)
-        const liquidity = {
-          buy: 100,
-          sell: 100
-        };
-        
         opportunities.push({
           id,
           symbol: spreadData.symbol,
@@ -245,11 +325,13 @@ export async function detectOpportunities(
           sellPrice: opp.sellPrice,
           spread: opp.spreadPercent,
           spreadAbsolute,
+          quantity,
           estimatedProfit: grossProfit,
-          estimatedFees,
+          estimatedFees: costs.total,
+          costs,
           netProfit,
           confidence,
-          liquidity,
+          liquidity: costs.depth,
           timestamp: new Date(),
           expiresAt: new Date(Date.now() + 60000) // 1 minute expiry
         });
@@ -266,106 +348,207 @@ export async function detectOpportunities(
   }
 }
 
+export interface RevalidationOptions {
+  allocationUSDT?: number; // trade size costs are re-estimated for, unless the opportunity carries a quantity
+  maxAgeMs?: number; // defaults to settings.maxOpportunityAgeMs
+  minNetEdgePct?: number; // defaults to settings.minNetEdgePct
+  now?: number;
+}
+
+export interface OpportunityRevalidation {
+  valid: boolean;
+  reason?: string; // why the opportunity should not be executed
+  ageMs: number; // since its prices were quoted
+  buyPrice: number; // current quotes; the detected ones when not re-quoted
+  sellPrice: number;
+  spreadPct: number;
+  netEdgePct?: number; // spread less estimated costs, of the buy notional
+  costs?: TransactionCostBreakdown;
+}
+
+// Either opportunity shape: detectArbitrage stamps lastSeenTs, detectOpportunities a timestamp
+type QuotedOpportunity = Pick<Opportunity, 'symbol' | 'buyExchange' | 'sellExchange' | 'buyPrice' | 'sellPrice'> & {
+  lastSeenTs?: number;
+  timestamp?: Date | string;
+  quantity?: number;
+};
+
 /**
- * Validate if an opportunity is still viable
- * Re-fetches current prices and checks if spread still exists
+ * Pre-trade gate: check an opportunity is still worth executing
+ * Rejects opportunities quoted longer ago than the maximum age, then re-quotes
+ * both venues and recomputes the net edge with current fees and book depth;
+ * an edge that has decayed below the floor fails with the reason
  */
 export async function validateOpportunity(
-  opportunity: ArbitrageOpportunity
-): Promise<boolean> {
+  opportunity: QuotedOpportunity,
+  opts: RevalidationOptions = {}
+): Promise<OpportunityRevalidation> {
+  const settings = getSettings();
+  const {
+    maxAgeMs = settings.maxOpportunityAgeMs,
+    minNetEdgePct = settings.minNetEdgePct,
+    now = Date.now()
+  } = opts;
+  const { symbol, buyExchange, sellExchange } = opportunity;
+
+  const quotedAt = opportunity.lastSeenTs
+    ?? (opportunity.timestamp ? new Date(opportunity.timestamp).getTime() : NaN);
+  const ageMs = Number.isFinite(quotedAt) ? Math.max(0, now - quotedAt) : Infinity;
+  let result: OpportunityRevalidation = {
+    valid: false,
+    ageMs,
+    buyPrice: opportunity.buyPrice,
+    sellPrice: opportunity.sellPrice,
+    spreadPct: ((opportunity.sellPrice - opportunity.buyPrice) / opportunity.buyPrice) * 100
+  };
+
+  if (ageMs > maxAgeMs) {
+    return {
+      ...result,
+      reason: Number.isFinite(ageMs)
+        ? `Opportunity is ${ageMs}ms old (max ${maxAgeMs}ms)`
+        : 'Opportunity has no quote time'
+    };
+  }
+
   try {
-    // Check if opportunity has expired
-    if (new Date() > opportunity.expiresAt) {
-      return false;
-    }
-    
-    // Re-fetch current spreads for this symbol
-    const currentSpreads = await calculateSpreads([opportunity.symbol]);
-    
-    if (currentSpreads.length === 0) {
-      return false;
+    const [buyTicker, sellTicker] = await Promise.all([
+      getExchange(buyExchange).getTicker(symbol),
+      getExchange(sellExchange).getTicker(symbol)
+    ]);
+    const buyPrice = buyTicker.price;
+    const sellPrice = sellTicker.price;
+    result = { ...result, buyPrice, sellPrice, spreadPct: ((sellPrice - buyPrice) / buyPrice) * 100 };
+
+    if (sellPrice <= buyPrice) {
+      return { ...result, reason: `Spread has closed: ${buyExchange} ${buyPrice} vs ${sellExchange} ${sellPrice}` };
     }
-    
-    const currentSpread = currentSpreads[0];
-    
-    // Find the specific opportunity (buy from X, sell to Y)
-    const currentOpp = currentSpread.opportunities.find(
-      opp => opp.buyExchange === opportunity.buyExchange && 
-             opp.sellExchange === opportunity.sellExchange
+
+    const quantity = opportunity.quantity ?? normalizeQuantityAcross(
+      [buyExchange, sellExchange],
+      symbol,
+      (opts.allocationUSDT ?? DEFAULT_ALLOCATION_USDT) / buyPrice
     );
-    
-    if (!currentOpp) {
-      return false;
+    if (quantity <= 0) {
+      return { ...result, reason: 'Trade size is below the minimum lot on one of the venues' };
     }
-    
-    // Check if spread is still profitable (within 10% of original)
-    const spreadDifference = Math.abs(currentOpp.spreadPercent - opportunity.spread);
-    const isSpreadStable = spreadDifference < (opportunity.spread * 0.1);
-    
-    // Check if still profitable
-    const stillProfitable = currentOpp.profitPotential > 0;
-    
-    return isSpreadStable && stillProfitable;
+
+    const costs = await estimateTransactionCosts({ symbol, buyExchange, sellExchange, buyPrice, sellPrice, quantity });
+    const netEdgePct = (((sellPrice - buyPrice) * quantity - costs.total) / (buyPrice * quantity)) * 100;
+    result = { ...result, netEdgePct, costs };
+
+    if (netEdgePct < minNetEdgePct) {
+      return {
+        ...result,
+        reason: `Net edge ${netEdgePct.toFixed(3)}% is below the ${minNetEdgePct}% floor`
+      };
+    }
+
+    return { ...result, valid: true };
   } catch (error) {
     console.error('Error validating opportunity:', error);
-    return false;
+    return {
+      ...result,
+      reason: `Could not re-quote: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
   }
 }
 
 /**
- * Calculate transaction costs
- * Includes trading fees, withdrawal fees, network fees, and slippage
+ * Expected average fill for `quantity` against one side of a book
+ * Quantity beyond the visible depth is assumed to fill at the last level
  */
-export async function estimateTransactionCosts(
+function walkBook(levels: [number, number][], quantity: number): { avgPrice: number; fillableQty: number } | null {
+  let remaining = quantity;
+  let value = 0;
+  let lastPrice: number | null = null;
+
+  for (const [price, qty] of levels) {
+    if (remaining <= 0) break;
+    const fillQty = Math.min(remaining, qty);
+    value += price * fillQty;
+    remaining -= fillQty;
+    lastPrice = price;
+  }
+
+  if (lastPrice === null) return null;
+  return {
+    avgPrice: (value + remaining * lastPrice) / quantity,
+    fillableQty: quantity - remaining
+  };
+}
+
+/**
+ * Expected fill on one venue, from its order book when it can be fetched
+ */
+async function expectedFill(
+  exchange: string,
   symbol: string,
-  buyExchange: string,
-  sellExchange: string,
+  side: 'buy' | 'sell',
+  quotedPrice: number,
   quantity: number
-): Promise<number> {
-  // Fee structures for different exchanges
-  const feeStructure: Record<string, {
-    tradingFee: number; // percentage
-    withdrawalFee: number; // flat fee in USD
-    networkFee: number; // for crypto transfers
-  }> = {
-    binance: {
-      tradingFee: 0.1, // 0.1%
-      withdrawalFee: 1, // $1 equivalent
-      networkFee: 2 // $2 for crypto transfer
-    },
-    wazirx: {
-      tradingFee: 0.2, // 0.2%
-      withdrawalFee: 2, // $2 equivalent
-      networkFee: 1 // Lower network fee in India
-    },
-    nse: {
-      tradingFee: 0.03, // 0.03% (STT + brokerage)
-      withdrawalFee: 0, // No withdrawal fee for stocks
-      networkFee: 0
+): Promise<{ avgPrice: number; fillableQty: number }> {
+  try {
+    const book = await getExchange(exchange).getOrderBook(symbol, 20);
+    const fill = walkBook(side === 'buy' ? book.asks : book.bids, quantity);
+    if (fill) return fill;
+  } catch (error) {
+    console.warn(`[Detector] No ${exchange} book for ${symbol}, assuming ${FALLBACK_SLIPPAGE_PCT}% slippage:`, error);
+  }
+
+  const direction = side === 'buy' ? 1 : -1;
+  return { avgPrice: quotedPrice * (1 + direction * FALLBACK_SLIPPAGE_PCT / 100), fillableQty: 0 };
+}
+
+/**
+ * Calculate transaction costs for trading `quantity` at the quoted prices
+ * Itemizes trading fees, withdrawal and network fees, order-book slippage on
+ * both legs and INR conversion costs
+ */
+export async function estimateTransactionCosts(input: TransactionCostInput): Promise<TransactionCostBreakdown> {
+  const { symbol, buyExchange, sellExchange, buyPrice, sellPrice, quantity } = input;
+
+  const [buyFill, sellFill] = await Promise.all([
+    expectedFill(buyExchange, symbol, 'buy', buyPrice, quantity),
+    expectedFill(sellExchange, symbol, 'sell', sellPrice, quantity)
+  ]);
+  const buyNotional = buyFill.avgPrice * quantity;
+  const sellNotional = sellFill.avgPrice * quantity;
+
+  // Fees from each venue's schedule, on the expected fill notional
+  const tradingFees =
+    getTradingFee(buyExchange, buyNotional).total +
+    getTradingFee(sellExchange, sellNotional).total;
+
+  // Withdrawal and network fees for moving the coin to the sell venue; in
+  // inventory mode the sell comes out of stock already there
+  const transferFees = buyExchange !== sellExchange && getSettings().executionMode !== 'inventory'
+    ? getTransferCost(buyExchange, getInstrument(symbol).baseAsset) * buyFill.avgPrice
+    : 0;
+
+  // Slippage is measured against the quotes the spread was computed from
+  const slippage = (buyFill.avgPrice - buyPrice) * quantity + (sellPrice - sellFill.avgPrice) * quantity;
+
+  // TDS, INR/USDT spread and USDT premium when one leg settles in INR
+  const fx = (sellNotional * getInrConversionCosts(symbol, buyExchange, sellExchange).totalPct) / 100;
+
+  const total = tradingFees + transferFees + slippage + fx;
+
+  return {
+    quantity,
+    buyAvgPrice: buyFill.avgPrice,
+    sellAvgPrice: sellFill.avgPrice,
+    tradingFees,
+    transferFees,
+    slippage,
+    fx,
+    total,
+    totalPct: buyNotional > 0 ? (total / buyNotional) * 100 : 0,
+    depth: {
+      buy: buyFill.fillableQty,
+      sell: sellFill.fillableQty
     }
   };
-  
-  const buyFees = feeStructure[buyExchange.toLowerCase()] || feeStructure.binance;
-  const sellFees = feeStructure[sellExchange.toLowerCase()] || feeStructure.binance;
-  
-  // Mock average price (in production, use actual buy/sell prices)
-  const avgPrice = 50000; // Placeholder
-  
-  // Calculate trading fees
-  const buyTradingFee = (avgPrice * quantity * buyFees.tradingFee) / 100;
-  const sellTradingFee = (avgPrice * quantity * sellFees.tradingFee) / 100;
-  
-  // Withdrawal and network fees (only if transferring between exchanges)
-  const transferFees = buyExchange !== sellExchange 
-    ? buyFees.withdrawalFee + buyFees.networkFee
-    : 0;
-  
-  // Slippage estimation (0.05% to 0.2%)
-  const slippage = avgPrice * quantity * (0.001 + Math.random() * 0.001);
-  
-  const totalCosts = buyTradingFee + sellTradingFee + transferFees + slippage;
-  
-  return totalCosts;
 }
 
 /**
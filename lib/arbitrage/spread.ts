@@ -1,5 +1,8 @@
 // Spread Analysis Utilities
 
+import { listExchanges } from '@/lib/exchanges/registry';
+import { getSpreadSamples, onSpreadRecorded } from '@/lib/state/spreadHistory';
+
 export interface SpreadData {
   symbol: string;
   exchanges: {
@@ -23,77 +26,185 @@ export interface SpreadHistory {
     spread: number;
     buyPrice: number;
     sellPrice: number;
+    zScore: number;
+    isOutlier: boolean;
   }[];
+  stats: SpreadStats;
+}
+
+export interface SpreadStats {
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  sampleCount: number;
+  current: number | null; // latest recorded spread
+  zScore: number;         // of the current spread against the window
+  isOutlier: boolean;     // current spread is abnormal for this pair
+  outlierCount: number;   // samples in the window flagged as outliers
+}
+
+// |z| beyond which a spread counts as abnormal
+export const OUTLIER_Z_SCORE = 2.5;
+// Below this many samples the statistics are not trusted for outlier flags
+export const MIN_SAMPLES_FOR_STATS = 10;
+
+/**
+ * Build spread data from per-exchange quotes
+ */
+function buildSpreadData(
+  symbol: string,
+  exchanges: SpreadData['exchanges'],
+  timestamp: Date
+): SpreadData | null {
+  if (exchanges.length < 2) return null;
+
+  const prices = exchanges.map(e => e.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+
+  return {
+    symbol,
+    exchanges,
+    minPrice,
+    maxPrice,
+    spreadPercentage: ((maxPrice - minPrice) / minPrice) * 100,
+    spreadAbsolute: maxPrice - minPrice,
+    avgPrice: prices.reduce((a, b) => a + b, 0) / prices.length,
+    timestamp
+  };
+}
+
+function zScoreOf(value: number, mean: number, stdDev: number): number {
+  return stdDev > 0 ? (value - mean) / stdDev : 0;
 }
 
 /**
- * TODO: Calculate spread between exchanges for a symbol
- * - Get prices from all exchanges
- * - Find min and max prices
- * - Calculate percentage and absolute spread
- * - Include volume data
+ * Mean, median, std-dev and outlier flags for a list of spreads
+ */
+function computeStats(spreads: number[]): SpreadStats {
+  if (spreads.length === 0) {
+    return {
+      mean: 0, median: 0, stdDev: 0, min: 0, max: 0,
+      sampleCount: 0, current: null, zScore: 0, isOutlier: false, outlierCount: 0
+    };
+  }
+
+  const mean = spreads.reduce((a, b) => a + b, 0) / spreads.length;
+  const variance = spreads.reduce((sum, s) => sum + Math.pow(s - mean, 2), 0) / spreads.length;
+  const stdDev = Math.sqrt(variance);
+
+  const sorted = [...spreads].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+  const trusted = spreads.length >= MIN_SAMPLES_FOR_STATS;
+  const current = spreads[spreads.length - 1];
+  const zScore = zScoreOf(current, mean, stdDev);
+  const outlierCount = trusted
+    ? spreads.filter(s => Math.abs(zScoreOf(s, mean, stdDev)) > OUTLIER_Z_SCORE).length
+    : 0;
+
+  return {
+    mean,
+    median,
+    stdDev,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    sampleCount: spreads.length,
+    current,
+    zScore,
+    isOutlier: trusted && Math.abs(zScore) > OUTLIER_Z_SCORE,
+    outlierCount
+  };
+}
+
+/**
+ * Calculate spread between exchanges for a symbol
+ * Uses the live ticker of every registered exchange quoting the symbol
  */
 export async function calculateSpread(symbol: string): Promise<SpreadData | null> {
-  // TODO: Implement spread calculation
-  return null;
+  const adapters = listExchanges();
+  const tickers = await Promise.all(
+    adapters.map(adapter => adapter.getTicker(symbol).catch(() => null))
+  );
+
+  const exchanges: SpreadData['exchanges'] = [];
+  adapters.forEach((adapter, i) => {
+    const ticker = tickers[i];
+    if (ticker && ticker.price > 0) {
+      exchanges.push({ name: adapter.id, price: ticker.price, volume: ticker.volume || 0 });
+    }
+  });
+
+  return buildSpreadData(symbol, exchanges, new Date());
 }
 
 /**
- * TODO: Analyze spread trends over time
- * - Track historical spread data
- * - Identify patterns
- * - Predict optimal execution windows
+ * Analyze spread trends over time
+ * Returns the recorded series for a pair with each sample scored against the window
  */
 export async function analyzeSpreadTrends(
   symbol: string,
   exchangePair: [string, string],
   timeRangeMinutes: number
 ): Promise<SpreadHistory> {
-  // TODO: Implement spread trend analysis
+  const samples = getSpreadSamples(symbol, exchangePair, Date.now() - timeRangeMinutes * 60 * 1000);
+  const stats = computeStats(samples.map(s => s.spreadPct));
+  const trusted = stats.sampleCount >= MIN_SAMPLES_FOR_STATS;
+
   return {
     symbol,
     exchangePair,
-    history: []
+    history: samples.map(sample => {
+      const zScore = zScoreOf(sample.spreadPct, stats.mean, stats.stdDev);
+      return {
+        timestamp: new Date(sample.timestamp),
+        spread: sample.spreadPct,
+        buyPrice: sample.buyPrice,
+        sellPrice: sample.sellPrice,
+        zScore,
+        isOutlier: trusted && Math.abs(zScore) > OUTLIER_Z_SCORE
+      };
+    }),
+    stats
   };
 }
 
 /**
- * TODO: Monitor real-time spread changes
- * - Set up price listeners
- * - Detect rapid spread changes
- * - Alert when spread exceeds threshold
+ * Monitor real-time spread changes
+ * Invokes the callback whenever a recorded spread for the symbol reaches the
+ * threshold (in percent). Resolves to an unsubscribe function.
  */
 export async function monitorSpread(
   symbol: string,
   threshold: number,
   callback: (spread: SpreadData) => void
-): Promise<void> {
-  // TODO: Implement real-time spread monitoring
+): Promise<() => void> {
+  return onSpreadRecorded((recordedSymbol, prices, timestamp) => {
+    if (recordedSymbol !== symbol) return;
+
+    const exchanges = Object.entries(prices)
+      .filter(([, price]) => price > 0)
+      .map(([name, price]) => ({ name, price, volume: 0 }));
+
+    const spread = buildSpreadData(symbol, exchanges, new Date(timestamp));
+    if (spread && spread.spreadPercentage >= threshold) {
+      callback(spread);
+    }
+  });
 }
 
 /**
- * TODO: Calculate average spread for a trading pair
- * - Aggregate historical data
- * - Calculate mean, median, std deviation
- * - Identify outliers
+ * Calculate average spread for a trading pair
+ * Statistics over the recorded window, including the z-score of the latest spread
  */
 export async function getAverageSpread(
   symbol: string,
   exchangePair: [string, string],
   periodMinutes: number
-): Promise<{
-  mean: number;
-  median: number;
-  stdDev: number;
-  min: number;
-  max: number;
-}> {
-  // TODO: Implement statistical spread analysis
-  return {
-    mean: 0,
-    median: 0,
-    stdDev: 0,
-    min: 0,
-    max: 0
-  };
+): Promise<SpreadStats> {
+  const samples = getSpreadSamples(symbol, exchangePair, Date.now() - periodMinutes * 60 * 1000);
+  return computeStats(samples.map(s => s.spreadPct));
 }
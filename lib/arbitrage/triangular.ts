@@ -0,0 +1,250 @@
+// Triangular Arbitrage Detector - cycles through three markets on one exchange
+
+import { getExchange } from '@/lib/exchanges/registry';
+import type { ExchangeOrderBook } from '@/lib/exchanges/types';
+
+export interface TriangularMarket {
+  symbol: string;
+  base: string;
+  quote: string;
+}
+
+export interface TriangularLeg {
+  symbol: string;
+  side: 'buy' | 'sell';
+  fromAsset: string;
+  toAsset: string;
+  amountIn: number;
+  amountOut: number;
+  avgPrice: number;
+  fees: number;
+}
+
+export interface TriangularOpportunity {
+  id: string;
+  kind: 'triangular';
+  exchange: string;
+  path: string[]; // e.g. ['USDT', 'BTC', 'ETH', 'USDT']
+  legs: TriangularLeg[];
+  startAmount: number;
+  endAmount: number;
+  netRate: number; // endAmount / startAmount after fees and depth
+  profitPct: number;
+  firstSeenTs: number;
+  lastSeenTs: number;
+  persistenceCount: number;
+}
+
+export interface DetectTriangularOptions {
+  exchanges?: string[];
+  triangles?: [string, string, string][];
+  startAmount?: number;
+  minProfitPct?: number;
+  minPersistenceCount?: number;
+}
+
+// Markets the detector knows how to route through
+const TRIANGULAR_MARKETS: TriangularMarket[] = [
+  { symbol: 'BTCUSDT', base: 'BTC', quote: 'USDT' },
+  { symbol: 'ETHUSDT', base: 'ETH', quote: 'USDT' },
+  { symbol: 'BNBUSDT', base: 'BNB', quote: 'USDT' },
+  { symbol: 'ETHBTC', base: 'ETH', quote: 'BTC' },
+  { symbol: 'BNBBTC', base: 'BNB', quote: 'BTC' },
+  { symbol: 'BNBETH', base: 'BNB', quote: 'ETH' },
+];
+
+// Each triangle starts and ends in its first asset
+const DEFAULT_TRIANGLES: [string, string, string][] = [
+  ['USDT', 'BTC', 'ETH'],
+  ['USDT', 'BTC', 'BNB'],
+  ['USDT', 'ETH', 'BNB'],
+];
+
+// Persistence buffer for tracking cycles across polls
+const persistenceBuffer: Map<string, TriangularOpportunity> = new Map();
+
+/**
+ * Find the market connecting two assets and the side needed to go from -> to
+ */
+function resolveMarket(
+  fromAsset: string,
+  toAsset: string
+): { market: TriangularMarket; side: 'buy' | 'sell' } | null {
+  for (const market of TRIANGULAR_MARKETS) {
+    if (market.quote === fromAsset && market.base === toAsset) {
+      return { market, side: 'buy' };
+    }
+    if (market.base === fromAsset && market.quote === toAsset) {
+      return { market, side: 'sell' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Walk the order book to convert `amountIn` of one asset into the other
+ * Buys spend quote against asks, sells spend base against bids.
+ * Returns null when the book is too thin to absorb the full amount.
+ */
+function simulateConversion(
+  orderbook: ExchangeOrderBook,
+  side: 'buy' | 'sell',
+  amountIn: number,
+  feeRate: number
+): { amountOut: number; avgPrice: number; fees: number } | null {
+  let remaining = amountIn;
+  let received = 0;
+
+  if (side === 'buy') {
+    for (const [price, qty] of orderbook.asks) {
+      if (remaining <= 0) break;
+
+      const spend = Math.min(remaining, price * qty);
+      received += spend / price;
+      remaining -= spend;
+    }
+  } else {
+    for (const [price, qty] of orderbook.bids) {
+      if (remaining <= 0) break;
+
+      const fill = Math.min(remaining, qty);
+      received += fill * price;
+      remaining -= fill;
+    }
+  }
+
+  if (remaining > amountIn * 1e-9 || received <= 0) {
+    return null;
+  }
+
+  const avgPrice = side === 'buy' ? amountIn / received : received / amountIn;
+  const fees = received * feeRate;
+
+  return { amountOut: received - fees, avgPrice, fees };
+}
+
+/**
+ * Evaluate one directed cycle (e.g. USDT -> BTC -> ETH -> USDT) on an exchange
+ */
+async function evaluateCycle(
+  exchange: string,
+  path: string[],
+  startAmount: number,
+  getBook: (symbol: string) => Promise<ExchangeOrderBook | null>
+): Promise<{ legs: TriangularLeg[]; endAmount: number } | null> {
+  const adapter = getExchange(exchange);
+  const legs: TriangularLeg[] = [];
+  let amount = startAmount;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const route = resolveMarket(path[i], path[i + 1]);
+    if (!route) return null;
+
+    const orderbook = await getBook(route.market.symbol);
+    if (!orderbook) return null;
+
+    const feeRate = adapter.getFees(route.market.symbol).taker;
+    const conversion = simulateConversion(orderbook, route.side, amount, feeRate);
+    if (!conversion) return null;
+
+    legs.push({
+      symbol: route.market.symbol,
+      side: route.side,
+      fromAsset: path[i],
+      toAsset: path[i + 1],
+      amountIn: amount,
+      amountOut: conversion.amountOut,
+      avgPrice: conversion.avgPrice,
+      fees: conversion.fees
+    });
+
+    amount = conversion.amountOut;
+  }
+
+  return { legs, endAmount: amount };
+}
+
+/**
+ * Detect triangular arbitrage cycles within each exchange
+ * A cycle qualifies when the product of depth-weighted rates exceeds 1 after fees.
+ * The runner scores each cycle and puts it to the guardian; it is executed
+ * only with the triangularExecution setting on
+ */
+export async function detectTriangularArbitrage(
+  opts: DetectTriangularOptions = {}
+): Promise<TriangularOpportunity[]> {
+  const {
+    exchanges = ['binance', 'wazirx'],
+    triangles = DEFAULT_TRIANGLES,
+    startAmount = 1000,
+    minProfitPct = 0.1,
+    minPersistenceCount = 2
+  } = opts;
+
+  const opportunities: TriangularOpportunity[] = [];
+  const currentTime = Date.now();
+  const seenKeys = new Set<string>();
+
+  for (const exchange of exchanges) {
+    // Fetch each book at most once per exchange per detection pass
+    const books: Map<string, Promise<ExchangeOrderBook | null>> = new Map();
+    const getBook = (symbol: string) => {
+      if (!books.has(symbol)) {
+        books.set(symbol, getExchange(exchange).getOrderBook(symbol, 20).catch(() => null));
+      }
+      return books.get(symbol)!;
+    };
+
+    for (const [start, a, b] of triangles) {
+      // Both directions around the triangle
+      for (const path of [[start, a, b, start], [start, b, a, start]]) {
+        try {
+          const cycle = await evaluateCycle(exchange, path, startAmount, getBook);
+          if (!cycle) continue;
+
+          const netRate = cycle.endAmount / startAmount;
+          const profitPct = (netRate - 1) * 100;
+          if (profitPct < minProfitPct) continue;
+
+          const key = `${exchange}_${path.join('_')}`;
+          seenKeys.add(key);
+
+          const existing = persistenceBuffer.get(key);
+          const opportunity: TriangularOpportunity = {
+            id: existing?.id || `tri_${exchange}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+            kind: 'triangular',
+            exchange,
+            path,
+            legs: cycle.legs,
+            startAmount,
+            endAmount: cycle.endAmount,
+            netRate,
+            profitPct,
+            firstSeenTs: existing?.firstSeenTs || currentTime,
+            lastSeenTs: currentTime,
+            persistenceCount: (existing?.persistenceCount || 0) + 1
+          };
+          persistenceBuffer.set(key, opportunity);
+
+          if (opportunity.persistenceCount >= minPersistenceCount) {
+            opportunities.push(opportunity);
+          }
+        } catch (error) {
+          console.error(`Error evaluating triangle ${path.join('->')} on ${exchange}:`, error);
+        }
+      }
+    }
+  }
+
+  // Clean up cycles not seen for more than 10 seconds
+  for (const [key, opportunity] of Array.from(persistenceBuffer.entries())) {
+    if (!seenKeys.has(key) && currentTime - opportunity.lastSeenTs > 10000) {
+      persistenceBuffer.delete(key);
+    }
+  }
+
+  // Sort by profit
+  opportunities.sort((a, b) => b.profitPct - a.profitPct);
+
+  return opportunities;
+}
@@ -0,0 +1,26 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep the live state database out of the run
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-test-'));
+process.env.STATE_DB_PATH = path.join(stateDir, 'state.db');
+after(() => fs.rmSync(stateDir, { recursive: true, force: true }));
+
+test('two backtests on one seed make the same trades', async () => {
+  const { checkBacktestDeterminism } = await import('./engine');
+
+  // A low confidence bar so the sample dataset trades
+  const check = await checkBacktestDeterminism({ seed: 42, executeConfidenceThreshold: 0.3 });
+  const [first, second] = check.results;
+
+  assert.ok(first.trades.length > 0, 'the run should trade for the check to mean anything');
+  assert.deepEqual(check.mismatches, []);
+  assert.equal(check.deterministic, true);
+  assert.deepEqual(
+    first.trades.map(trade => trade.opportunityId),
+    second.trades.map(trade => trade.opportunityId)
+  );
+});
@@ -0,0 +1,362 @@
+// Backtest Engine - replays historical data through the agent pipeline
+
+import fs from 'fs';
+import path from 'path';
+import { discoverPrices, clearPriceHistory } from '@/lib/agents/priceDiscovery';
+import { detectArbitrage, type OpportunityPersistence } from '@/lib/arbitrage/detector';
+import { assessRisk } from '@/lib/agents/riskAssessment';
+import { allocateCapitalForOpportunity } from '@/lib/agents/capitalAllocation';
+import { debateWithMedianConsensus } from '@/lib/agents/debateAgent';
+import { simulatePartialFill } from '@/lib/agents/executionEngine';
+import { guardianCheck, type GuardianResult } from '@/lib/agents/runner';
+import { getExchange } from '@/lib/exchanges/registry';
+import { snapshotSimulatedBooks, restoreSimulatedBooks, resetSimulatedBooks } from '@/lib/exchanges/indianBook';
+import {
+  loadReplayFile,
+  snapshotReplay,
+  restoreReplay,
+  advanceReplayClock,
+  getReplayTime
+} from '@/lib/exchanges/replay';
+import { getState, type GuardianConfig } from '@/lib/state/global';
+import { createRng, generateSeed, setRng } from '@/lib/state/rng';
+import { acquireBacktest, releaseBacktest } from './guard';
+
+// Recorded datasets live here; requests name a file, never a path
+const DATASET_DIR = path.join(process.cwd(), 'lib', 'data', 'replay');
+const MAX_STEPS = 5000;
+const MAX_STORED_RESULTS = 20;
+
+export interface BacktestConfig {
+  dataset?: string;
+  symbols?: string[];
+  stepMs?: number;
+  initialCapital?: number;
+  maxTradeAmount?: number;
+  minSpreadPct?: number;
+  minPersistenceCount?: number;
+  executeConfidenceThreshold?: number;
+  guardian?: Partial<GuardianConfig>;
+  seed?: number; // simulation RNG seed; rerun with a result's seed to reproduce it
+}
+
+export interface BacktestTrade {
+  ts: number;
+  opportunityId: string;
+  symbol: string;
+  buyExchange: string;
+  sellExchange: string;
+  spreadPct: number;
+  allocatedUSDT: number;
+  buyPrice: number;
+  avgSellPrice: number;
+  fillRatio: number;
+  partialFill: boolean;
+  netProfit: number;
+}
+
+export interface EquityPoint {
+  ts: number;
+  equity: number;
+}
+
+export interface BacktestResult {
+  id: string;
+  dataset: string;
+  config: Required<Omit<BacktestConfig, 'guardian'>> & { guardian: GuardianConfig };
+  startedAt: string;
+  durationMs: number;
+  startTs: number;
+  endTs: number;
+  steps: number;
+  opportunitiesSeen: number;
+  debateWaits: number;
+  guardianVetoes: Record<string, number>;
+  trades: BacktestTrade[];
+  metrics: {
+    totalPnL: number;
+    returnPct: number;
+    finalEquity: number;
+    tradeCount: number;
+    winningTrades: number;
+    hitRate: number;
+    maxDrawdown: number;
+    maxDrawdownPct: number;
+    avgFillRatio: number;
+    minFillRatio: number;
+    partialFills: number;
+  };
+  equityCurve: EquityPoint[];
+}
+
+// Recent results kept in memory for the results page
+const results: Map<string, BacktestResult> = new Map();
+
+/**
+ * Resolve a dataset name to a file inside the replay directory
+ */
+function resolveDataset(dataset: string): string {
+  const fileName = path.basename(dataset);
+  if (!/\.(jsonl|ndjson|csv)$/i.test(fileName)) {
+    throw new Error(`Unsupported dataset format: ${fileName}`);
+  }
+  return path.join(DATASET_DIR, fileName);
+}
+
+/**
+ * Peak-to-trough drop of an equity curve, in absolute terms and percent of peak
+ */
+function calculateMaxDrawdown(curve: EquityPoint[]): { maxDrawdown: number; maxDrawdownPct: number } {
+  let peak = curve.length > 0 ? curve[0].equity : 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    const drawdown = peak - point.equity;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPct = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+  }
+
+  return { maxDrawdown, maxDrawdownPct };
+}
+
+/**
+ * Run the detection -> risk -> allocation -> debate -> guardian -> execution
+ * pipeline over a recorded dataset on a virtual clock
+ * Execution is simulated against the recorded books; live portfolio,
+ * audit log and detector state are left untouched. One backtest runs at a
+ * time, and live requests are turned away while it holds the replay session
+ * and RNG (see ./guard)
+ */
+export async function runBacktest(config: BacktestConfig = {}): Promise<BacktestResult> {
+  if (getState().runner.isRunning) {
+    throw new Error('Stop the autonomous runner before running a backtest');
+  }
+
+  const {
+    dataset = 'sample.jsonl',
+    symbols = ['BTCUSDT', 'ETHUSDT'],
+    stepMs = 2000,
+    initialCapital = 10000,
+    maxTradeAmount = 5000,
+    minSpreadPct = 0.5,
+    minPersistenceCount = 2,
+    executeConfidenceThreshold = 0.6,
+    seed = generateSeed()
+  } = config;
+
+  if (stepMs <= 0) {
+    throw new Error('stepMs must be positive');
+  }
+
+  if (!acquireBacktest({ dataset: path.basename(dataset), seed, startedAt: Date.now() })) {
+    throw new Error('Another backtest is already running');
+  }
+
+  const guardianSettings: GuardianConfig = { ...getState().guardianSettings, ...config.guardian };
+  const startedAt = new Date();
+  const previousReplay = snapshotReplay();
+  const previousRng = setRng(createRng(seed));
+  const previousBooks = snapshotSimulatedBooks();
+  resetSimulatedBooks(); // every run starts from fresh books on the virtual clock
+
+  const buffer: Map<string, OpportunityPersistence> = new Map();
+  const guardianVetoes: Record<string, number> = {};
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let cash = initialCapital;
+  let opportunitiesSeen = 0;
+  let debateWaits = 0;
+  let steps = 0;
+
+  try {
+    const status = loadReplayFile(resolveDataset(dataset));
+    const startTs = status.startTs!;
+    const endTs = status.endTs!;
+    clearPriceHistory();
+
+    equityCurve.push({ ts: startTs, equity: cash });
+
+    while (getReplayTime() <= endTs && steps < MAX_STEPS) {
+      const now = getReplayTime();
+      const day = new Date(now).toDateString();
+      steps++;
+
+      const prices = await discoverPrices(symbols, { recordSpreads: false });
+      const opportunities = await detectArbitrage(prices, {
+        minSpreadPct,
+        persistenceMs: stepMs,
+        minPersistenceCount,
+        now,
+        buffer
+      });
+
+      for (const opp of opportunities) {
+        opportunitiesSeen++;
+
+        const risk = await assessRisk(opp, 1, { useSpreadHistory: false });
+        const allocation = allocateCapitalForOpportunity(opp, risk, {
+          usdtBalance: cash,
+          maxTradeAmount
+        });
+
+        const debate = await debateWithMedianConsensus(
+          opp, risk, allocation, executeConfidenceThreshold, { fallbackOnly: true }
+        );
+        if (debate.decision !== 'execute') {
+          debateWaits++;
+          continue;
+        }
+
+        const guardian: GuardianResult = guardianCheck(opp, risk, allocation, guardianSettings, {
+          portfolio: { cash, totalValue: cash },
+          tradesToday: trades.filter(t => new Date(t.ts).toDateString() === day).length
+        });
+        if (!guardian.pass) {
+          const rule = guardian.rule || 'other';
+          guardianVetoes[rule] = (guardianVetoes[rule] || 0) + 1;
+          continue;
+        }
+
+        if (allocation.allocatedUSDT <= 0) continue;
+
+        const orderbook = await getExchange(opp.sellExchange).getOrderBook(opp.symbol, 20);
+        const fill = simulatePartialFill(opp, allocation.allocatedUSDT, orderbook);
+        cash += fill.netProfit;
+
+        trades.push({
+          ts: now,
+          opportunityId: opp.id,
+          symbol: opp.symbol,
+          buyExchange: opp.buyExchange,
+          sellExchange: opp.sellExchange,
+          spreadPct: opp.spreadPct,
+          allocatedUSDT: allocation.allocatedUSDT,
+          buyPrice: fill.buyPrice,
+          avgSellPrice: fill.avgSellPrice,
+          fillRatio: fill.fillRatio,
+          partialFill: fill.partialFill,
+          netProfit: fill.netProfit
+        });
+      }
+
+      equityCurve.push({ ts: now, equity: cash });
+      advanceReplayClock(stepMs);
+    }
+
+    const winningTrades = trades.filter(t => t.netProfit > 0).length;
+    const fillRatios = trades.map(t => t.fillRatio);
+    const totalPnL = cash - initialCapital;
+
+    const result: BacktestResult = {
+      id: `BT_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      dataset: path.basename(dataset),
+      config: {
+        dataset: path.basename(dataset),
+        symbols,
+        stepMs,
+        initialCapital,
+        maxTradeAmount,
+        minSpreadPct,
+        minPersistenceCount,
+        executeConfidenceThreshold,
+        seed,
+        guardian: guardianSettings
+      },
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      startTs,
+      endTs,
+      steps,
+      opportunitiesSeen,
+      debateWaits,
+      guardianVetoes,
+      trades,
+      metrics: {
+        totalPnL,
+        returnPct: (totalPnL / initialCapital) * 100,
+        finalEquity: cash,
+        tradeCount: trades.length,
+        winningTrades,
+        hitRate: trades.length > 0 ? winningTrades / trades.length : 0,
+        ...calculateMaxDrawdown(equityCurve),
+        avgFillRatio: fillRatios.length > 0
+          ? fillRatios.reduce((a, b) => a + b, 0) / fillRatios.length
+          : 0,
+        minFillRatio: fillRatios.length > 0 ? Math.min(...fillRatios) : 0,
+        partialFills: trades.filter(t => t.partialFill).length
+      },
+      equityCurve
+    };
+
+    results.set(result.id, result);
+    if (results.size > MAX_STORED_RESULTS) {
+      const oldest = results.keys().next().value;
+      if (oldest) results.delete(oldest);
+    }
+
+    console.log(`[Backtest] ${result.id}: ${steps} steps, ${trades.length} trades, P&L ${totalPnL.toFixed(2)}`);
+    return result;
+  } finally {
+    // Hand the replay session, volatility windows, RNG and books back to live mode
+    restoreReplay(previousReplay);
+    setRng(previousRng);
+    restoreSimulatedBooks(previousBooks);
+    clearPriceHistory();
+    releaseBacktest();
+  }
+}
+
+/**
+ * Everything in a result that should depend only on the config and seed
+ */
+function fingerprint(result: BacktestResult): Record<string, unknown> {
+  const { opportunitiesSeen, debateWaits, guardianVetoes, trades, metrics, equityCurve, steps } = result;
+  return { steps, opportunitiesSeen, debateWaits, guardianVetoes, trades, metrics, equityCurve };
+}
+
+/**
+ * Run the same config twice on one seed and report which parts of the
+ * results differ; a reproducible backtest has none
+ */
+export async function checkBacktestDeterminism(config: BacktestConfig = {}): Promise<{
+  deterministic: boolean;
+  seed: number;
+  mismatches: string[];
+  results: [BacktestResult, BacktestResult];
+}> {
+  const seed = config.seed ?? generateSeed();
+  const first = await runBacktest({ ...config, seed });
+  const second = await runBacktest({ ...config, seed });
+
+  const a = fingerprint(first);
+  const b = fingerprint(second);
+  const mismatches = Object.keys(a).filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+
+  return { deterministic: mismatches.length === 0, seed, mismatches, results: [first, second] };
+}
+
+/**
+ * Get a stored backtest result
+ */
+export function getBacktestResult(id: string): BacktestResult | null {
+  return results.get(id) || null;
+}
+
+/**
+ * List stored backtest results, newest first
+ */
+export function listBacktestResults(): BacktestResult[] {
+  return Array.from(results.values()).reverse();
+}
+
+/**
+ * Recorded datasets available to backtest
+ */
+export function listDatasets(): string[] {
+  if (!fs.existsSync(DATASET_DIR)) return [];
+  return fs.readdirSync(DATASET_DIR).filter(name => /\.(jsonl|ndjson|csv)$/i.test(name)).sort();
+}
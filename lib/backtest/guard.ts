@@ -0,0 +1,42 @@
+// Backtest Guard - a backtest swaps the process-wide replay session, RNG and
+// simulated books for its own while it awaits, so live requests that quote,
+// trade or draw from the RNG are turned away until it hands them back
+
+export interface ActiveBacktest {
+  dataset: string;
+  seed: number;
+  startedAt: number;
+}
+
+let active: ActiveBacktest | null = null;
+
+export function getActiveBacktest(): ActiveBacktest | null {
+  return active;
+}
+
+export function isBacktestActive(): boolean {
+  return active !== null;
+}
+
+/**
+ * Claim the shared simulation state for a backtest; false when another
+ * backtest already holds it
+ */
+export function acquireBacktest(backtest: ActiveBacktest): boolean {
+  if (active) return false;
+  active = backtest;
+  return true;
+}
+
+export function releaseBacktest(): void {
+  active = null;
+}
+
+/**
+ * Message for live requests turned away while a backtest runs
+ */
+export function backtestBusyMessage(): string {
+  return active
+    ? `Backtest on ${active.dataset} (seed ${active.seed}) is running; live quotes and execution resume when it finishes`
+    : 'No backtest is running';
+}
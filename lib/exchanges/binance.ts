@@ -1,5 +1,30 @@
 // Binance Exchange Integration
 
+import type {
+  ExchangeAdapter,
+  ExchangeBalance,
+  ExchangeFees,
+  ExchangeOrderBook,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeStatus,
+  ExchangeTicker,
+  TimeInForce
+} from './types';
+import { isReplayActive, getReplayTicker, getReplayOrderBook } from './replay';
+import { assertExchangeAvailable, isExchangeDown } from './simulation';
+import { getExchangeBalances } from '@/lib/state/ledger';
+import {
+  cancelTestnetOrder,
+  getTestnetBalances,
+  isTestnetConfigured,
+  placeTestnetOrder,
+  queryTestnetOrder,
+  type BinanceOrder
+} from './binanceTestnet';
+import { normalizeSymbol } from './symbols';
+import { getFeeRates } from './fees';
+
 const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
 
 export interface BinancePrice {
@@ -27,14 +52,42 @@ interface BinanceDepthResponse {
   asks: [string, string][];
 }
 
+/**
+ * Serve prices from the active replay session instead of the network
+ * Falls back to the recorded book mid when no ticker was captured
+ */
+function getReplayPrices(symbols: string[]): BinancePrice[] {
+  const prices: BinancePrice[] = [];
+
+  for (const symbol of symbols.map(normalizeSymbol)) {
+    const ticker = getReplayTicker('binance', symbol);
+    if (ticker) {
+      prices.push({ symbol, price: ticker.price, timestamp: new Date(ticker.ts), exchange: 'binance' });
+      continue;
+    }
+
+    const depth = getReplayOrderBook('binance', symbol);
+    if (depth && depth.bids.length > 0 && depth.asks.length > 0) {
+      const mid = (depth.bids[0][0] + depth.asks[0][0]) / 2;
+      prices.push({ symbol, price: mid, timestamp: new Date(depth.ts), exchange: 'binance' });
+    }
+  }
+
+  return prices;
+}
+
 /**
  * Fetch real-time price data from Binance API
  * Uses the ticker/price endpoint for current prices
  */
 export async function getBinancePrices(symbols: string[]): Promise<BinancePrice[]> {
+  if (isReplayActive()) {
+    return getReplayPrices(symbols);
+  }
+
   try {
     // Convert symbols to Binance format (e.g., "BTC/USDT" -> "BTCUSDT")
-    const binanceSymbols = symbols.map(s => s.replace('/', '').toUpperCase());
+    const binanceSymbols = symbols.map(normalizeSymbol);
     
     const prices: BinancePrice[] = [];
     
@@ -80,7 +133,14 @@ export async function getBinancePrices(symbols: string[]): Promise<BinancePrice[
  */
 export async function getBinanceOrderBook(symbol: string): Promise<BinanceOrderBook | null> {
   try {
-    const binanceSymbol = symbol.replace('/', '').toUpperCase();
+    const binanceSymbol = normalizeSymbol(symbol);
+    
+    if (isReplayActive()) {
+      const depth = getReplayOrderBook('binance', binanceSymbol);
+      return depth
+        ? { symbol: binanceSymbol, bids: depth.bids, asks: depth.asks, timestamp: new Date(depth.ts) }
+        : null;
+    }
     
     const response = await fetch(
       `${BINANCE_API_BASE}/depth?symbol=${binanceSymbol}&limit=20`,
@@ -109,20 +169,92 @@ export async function getBinanceOrderBook(symbol: string): Promise<BinanceOrderB
   }
 }
 
+const ORDER_STATUS: Record<string, ExchangeOrderResult['status']> = {
+  FILLED: 'filled',
+  PARTIALLY_FILLED: 'partial',
+  NEW: 'open', // resting limit order, nothing filled yet
+  CANCELED: 'cancelled',
+  EXPIRED: 'cancelled',
+  REJECTED: 'rejected'
+};
+
+/**
+ * Commission in USDT; BNB-paid commission is estimated at the taker rate
+ * Order queries carry no fills, so their commission is estimated at the maker
+ * rate, since anything filling after placement filled while resting
+ */
+function commissionInQuote(order: BinanceOrder): number {
+  if (order.fills.length === 0) {
+    return order.cummulativeQuoteQty * getFeeRates('binance').maker;
+  }
+  return order.fills.reduce((sum, fill) => {
+    if (order.symbol.endsWith(fill.commissionAsset)) return sum + fill.commission;
+    if (order.symbol.startsWith(fill.commissionAsset)) return sum + fill.commission * fill.price;
+    return sum + fill.qty * fill.price * getFeeRates('binance').taker;
+  }, 0);
+}
+
+function toOrderResult(order: BinanceOrder, side: 'buy' | 'sell', type: 'market' | 'limit', price?: number): ExchangeOrderResult {
+  const executedPrice = order.executedQty > 0 ? order.cummulativeQuoteQty / order.executedQty : order.price;
+  const slippagePercent = price && executedPrice > 0
+    ? ((executedPrice - price) / price) * 100 * (side === 'buy' ? 1 : -1)
+    : 0;
+  const status = ORDER_STATUS[order.status] ?? 'rejected';
+  const resting = status === 'open' || status === 'partial';
+
+  return {
+    orderId: String(order.orderId),
+    symbol: order.symbol,
+    side,
+    type,
+    quantity: order.origQty,
+    executedPrice,
+    executedQuantity: order.executedQty,
+    fees: commissionInQuote(order),
+    slippagePercent,
+    status,
+    restingQuantity: resting ? order.origQty - order.executedQty : 0,
+    heldByVenue: true,
+    timestamp: new Date(),
+    exchange: 'binance_testnet',
+    testnet: true,
+    clientOrderId: order.clientOrderId
+  };
+}
+
 /**
- * Execute trade on Binance
- * NOTE: This requires API keys and is NOT implemented for security
- * In production, this would use authenticated endpoints
+ * Execute trade on the Binance Spot Testnet
+ * Requires BINANCE_API_KEY and BINANCE_SECRET_KEY; orders are HMAC-signed.
+ * Post-only orders are sent as LIMIT_MAKER, which Binance rejects if they cross.
  */
 export async function executeBinanceTrade(
   symbol: string,
   side: 'buy' | 'sell',
   quantity: number,
   type: 'market' | 'limit',
-  price?: number
-): Promise<any> {
-  // This requires API keys and signature - not implementing in demo
-  throw new Error('Trade execution requires API keys - not implemented in demo mode');
+  price?: number,
+  timeInForce: TimeInForce = 'GTC'
+): Promise<ExchangeOrderResult> {
+  const binanceSymbol = normalizeSymbol(symbol);
+  const postOnly = type === 'limit' && timeInForce === 'POST_ONLY';
+  const order = await placeTestnetOrder({
+    symbol: binanceSymbol,
+    side: side === 'buy' ? 'BUY' : 'SELL',
+    type: type === 'market' ? 'MARKET' : postOnly ? 'LIMIT_MAKER' : 'LIMIT',
+    quantity,
+    price,
+    timeInForce: type === 'limit' && !postOnly ? timeInForce as Exclude<TimeInForce, 'POST_ONLY'> : undefined
+  });
+
+  return toOrderResult(order, side, type, price);
+}
+
+/**
+ * Current state of a testnet order, e.g. a resting limit order
+ */
+export async function getBinanceOrder(symbol: string, orderId: string): Promise<ExchangeOrderResult> {
+  const order = await queryTestnetOrder(normalizeSymbol(symbol), orderId);
+  return toOrderResult(order, order.side === 'BUY' ? 'buy' : 'sell', order.type === 'MARKET' ? 'market' : 'limit');
 }
 
 /**
@@ -156,7 +288,7 @@ export async function getBinanceOrderbook(symbol: string): Promise<{bids: [numbe
  */
 export async function getBinance24hrStats(symbol: string) {
   try {
-    const binanceSymbol = symbol.replace('/', '').toUpperCase();
+    const binanceSymbol = normalizeSymbol(symbol);
     
     const response = await fetch(
       `${BINANCE_API_BASE}/ticker/24hr?symbol=${binanceSymbol}`,
@@ -188,3 +320,100 @@ export async function getBinance24hrStats(symbol: string) {
     return null;
   }
 }
+
+/**
+ * Binance adapter for the exchange registry
+ * Market data is live; with testnet keys configured orders go to the Spot
+ * Testnet and balances are the signed testnet account's, otherwise balances
+ * come from the paper ledger
+ */
+export const binanceAdapter: ExchangeAdapter = {
+  id: 'binance',
+  name: 'Binance',
+  aliases: ['binance_testnet'],
+  simulated: false,
+  settlementAsset: 'USDT',
+
+  isTradingEnabled(): boolean {
+    return isTestnetConfigured();
+  },
+
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    assertExchangeAvailable('binance');
+    const price = await getBinancePrice(symbol);
+    return {
+      exchange: 'binance',
+      symbol: normalizeSymbol(symbol),
+      price,
+      timestamp: new Date()
+    };
+  },
+
+  async getOrderBook(symbol: string): Promise<ExchangeOrderBook> {
+    assertExchangeAvailable('binance');
+    const orderbook = await getBinanceOrderBook(symbol);
+    if (!orderbook) {
+      throw new Error(`Failed to fetch orderbook for ${symbol}`);
+    }
+    return { exchange: 'binance', ...orderbook };
+  },
+
+  async placeOrder(order: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    assertExchangeAvailable('binance');
+    return executeBinanceTrade(order.symbol, order.side, order.quantity, order.type, order.price, order.timeInForce);
+  },
+
+  async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
+    assertExchangeAvailable('binance');
+    const order = await cancelTestnetOrder(normalizeSymbol(symbol), orderId);
+    return order.status === 'CANCELED';
+  },
+
+  async getOrder(orderId: string, symbol: string): Promise<ExchangeOrderResult> {
+    assertExchangeAvailable('binance');
+    return getBinanceOrder(symbol, orderId);
+  },
+
+  async getBalances(): Promise<ExchangeBalance[]> {
+    if (isTestnetConfigured()) {
+      assertExchangeAvailable('binance');
+      return getTestnetBalances();
+    }
+    
+    // Demo mode trades on paper, so report the ledger balances for this venue
+    return getExchangeBalances('binance').map(b => ({ asset: b.asset, free: b.balance, locked: 0 }));
+  },
+
+  getFees(): ExchangeFees {
+    return getFeeRates('binance');
+  },
+
+  async getStatus(): Promise<ExchangeStatus> {
+    if (isExchangeDown('binance')) {
+      return { online: false, message: 'Simulated outage' };
+    }
+    
+    if (isReplayActive()) {
+      return { online: true, latencyMs: 0, message: 'Serving recorded data' };
+    }
+    
+    const startTime = Date.now();
+    try {
+      const response = await fetch(`${BINANCE_API_BASE}/ping`, {
+        cache: 'no-store',
+        signal: AbortSignal.timeout(5000)
+      });
+      return {
+        online: response.ok,
+        latencyMs: Date.now() - startTime,
+        message: response.ok ? undefined : `HTTP ${response.status}`
+      };
+    } catch (error) {
+      return {
+        online: false,
+        latencyMs: Date.now() - startTime,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+};
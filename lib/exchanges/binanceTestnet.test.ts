@@ -0,0 +1,170 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  getSymbolFilters,
+  placeTestnetOrder,
+  signQuery
+} from './binanceTestnet';
+
+const API_KEY = 'test-api-key';
+const SECRET_KEY = 'test-secret-key';
+
+interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  rawQuery: string;
+  apiKey?: string;
+}
+
+const received: ReceivedRequest[] = [];
+
+// Canned responses from the Spot Testnet, trimmed to the fields the client reads
+const ORDER_RESPONSE = {
+  symbol: 'BTCUSDT',
+  orderId: 28457,
+  clientOrderId: 'EXEC_1_BUY',
+  price: '60000.50000000',
+  origQty: '0.00100000',
+  executedQty: '0.00100000',
+  cummulativeQuoteQty: '60.00050000',
+  status: 'FILLED',
+  timeInForce: 'GTC',
+  type: 'LIMIT',
+  side: 'BUY',
+  fills: [
+    { price: '60000.50000000', qty: '0.00060000', commission: '0.00000060', commissionAsset: 'BTC' },
+    { price: '60000.50000000', qty: '0.00040000', commission: '0.00000040', commissionAsset: 'BTC' }
+  ]
+};
+
+const EXCHANGE_INFO = {
+  symbols: [{
+    symbol: 'BTCUSDT',
+    status: 'TRADING',
+    baseAsset: 'BTC',
+    quoteAsset: 'USDT',
+    filters: [
+      { filterType: 'PRICE_FILTER', minPrice: '0.01000000', maxPrice: '1000000.00000000', tickSize: '0.01000000' },
+      { filterType: 'LOT_SIZE', minQty: '0.00001000', maxQty: '9000.00000000', stepSize: '0.00001000' },
+      { filterType: 'NOTIONAL', minNotional: '5.00000000', applyMinToMarket: true }
+    ]
+  }]
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  received.push({
+    method: req.method ?? '',
+    path: url.pathname,
+    query: url.searchParams,
+    rawQuery: url.search.slice(1),
+    apiKey: req.headers['x-mbx-apikey'] as string | undefined
+  });
+
+  const reply = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (req.method === 'POST' && url.pathname === '/api/v3/order') {
+    if (url.searchParams.get('quantity') === '0.0000001') {
+      return reply(400, { code: -1013, msg: 'Filter failure: LOT_SIZE' });
+    }
+    return reply(200, ORDER_RESPONSE);
+  }
+  if (req.method === 'GET' && url.pathname === '/api/v3/exchangeInfo') {
+    return reply(200, EXCHANGE_INFO);
+  }
+  reply(404, { code: -1, msg: 'Not found' });
+});
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.BINANCE_TESTNET_URL = `http://127.0.0.1:${port}/`;
+  process.env.BINANCE_API_KEY = API_KEY;
+  process.env.BINANCE_SECRET_KEY = SECRET_KEY;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+test('orders are signed over their query string and the response is parsed', async () => {
+  const order = await placeTestnetOrder({
+    symbol: 'BTCUSDT',
+    side: 'BUY',
+    type: 'LIMIT',
+    quantity: 0.001,
+    price: 60000.5,
+    newClientOrderId: 'EXEC_1_BUY'
+  });
+
+  const request = received[received.length - 1];
+  assert.equal(request.method, 'POST');
+  assert.equal(request.apiKey, API_KEY);
+
+  // The signature is the HMAC of everything before it, as sent
+  const [unsigned, signature] = request.rawQuery.split('&signature=');
+  assert.equal(signature, signQuery(unsigned, SECRET_KEY));
+  assert.equal(request.query.get('symbol'), 'BTCUSDT');
+  assert.equal(request.query.get('quantity'), '0.001');
+  assert.equal(request.query.get('price'), '60000.5');
+  assert.equal(request.query.get('timeInForce'), 'GTC');
+  assert.equal(request.query.get('newOrderRespType'), 'FULL');
+  assert.ok(request.query.get('timestamp'));
+  assert.equal(request.query.get('recvWindow'), '5000');
+
+  assert.deepEqual(order, {
+    symbol: 'BTCUSDT',
+    orderId: 28457,
+    clientOrderId: 'EXEC_1_BUY',
+    price: 60000.5,
+    origQty: 0.001,
+    executedQty: 0.001,
+    cummulativeQuoteQty: 60.0005,
+    status: 'FILLED',
+    timeInForce: 'GTC',
+    type: 'LIMIT',
+    side: 'BUY',
+    fills: [
+      { price: 60000.5, qty: 0.0006, commission: 0.0000006, commissionAsset: 'BTC' },
+      { price: 60000.5, qty: 0.0004, commission: 0.0000004, commissionAsset: 'BTC' }
+    ]
+  });
+});
+
+test('venue rejections surface with their Binance error code', async () => {
+  await assert.rejects(
+    placeTestnetOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: 0.0000001 }),
+    { message: 'Binance testnet HTTP 400: Filter failure: LOT_SIZE (code -1013)' }
+  );
+});
+
+test('exchange filters are parsed from exchangeInfo and cached', async () => {
+  const filters = await getSymbolFilters('BTC/USDT');
+
+  const request = received[received.length - 1];
+  assert.equal(request.path, '/api/v3/exchangeInfo');
+  assert.equal(request.query.get('symbol'), 'BTCUSDT');
+  assert.equal(request.query.get('signature'), null);
+
+  assert.deepEqual(filters, {
+    symbol: 'BTCUSDT',
+    baseAsset: 'BTC',
+    quoteAsset: 'USDT',
+    status: 'TRADING',
+    tickSize: 0.01,
+    minPrice: 0.01,
+    maxPrice: 1000000,
+    stepSize: 0.00001,
+    minQty: 0.00001,
+    maxQty: 9000,
+    minNotional: 5
+  });
+
+  const requestCount = received.length;
+  await getSymbolFilters('btcusdt');
+  assert.equal(received.length, requestCount);
+});
@@ -0,0 +1,260 @@
+/**
+ * Binance Spot Testnet Client
+ * HMAC-SHA256 signed REST calls for orders, balances and symbol filters.
+ * Keys come from the server-only BINANCE_API_KEY / BINANCE_SECRET_KEY env vars;
+ * BINANCE_TESTNET_URL points the client at another host, e.g. a local stand-in.
+ */
+
+import crypto from 'crypto';
+import { toVenueSymbol } from './symbols';
+
+const DEFAULT_TESTNET_URL = 'https://testnet.binance.vision';
+const RECV_WINDOW_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface BinanceTestnetConfig {
+  baseUrl: string;
+  apiKey: string;
+  secretKey: string;
+}
+
+export interface BinanceSymbolFilters {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  status: string;
+  tickSize: number; // PRICE_FILTER
+  minPrice: number;
+  maxPrice: number;
+  stepSize: number; // LOT_SIZE
+  minQty: number;
+  maxQty: number;
+  minNotional: number; // NOTIONAL or legacy MIN_NOTIONAL
+}
+
+export interface BinanceNewOrder {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT' | 'LIMIT_MAKER'; // LIMIT_MAKER is rejected if it would take liquidity
+  quantity: number;
+  price?: number; // required for LIMIT and LIMIT_MAKER
+  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  newClientOrderId?: string;
+}
+
+export interface BinanceFill {
+  price: number;
+  qty: number;
+  commission: number;
+  commissionAsset: string;
+}
+
+export interface BinanceOrder {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  price: number;
+  origQty: number;
+  executedQty: number;
+  cummulativeQuoteQty: number;
+  status: string; // NEW, PARTIALLY_FILLED, FILLED, CANCELED, REJECTED, EXPIRED
+  timeInForce: string;
+  type: string;
+  side: 'BUY' | 'SELL';
+  fills: BinanceFill[]; // only on new-order responses
+}
+
+export interface BinanceAccountBalance {
+  asset: string;
+  free: number;
+  locked: number;
+}
+
+// exchangeInfo per `${baseUrl}:${symbol}`; filters rarely change
+const filterCache: Map<string, BinanceSymbolFilters> = new Map();
+
+function testnetBaseUrl(): string {
+  return (process.env.BINANCE_TESTNET_URL || DEFAULT_TESTNET_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Testnet settings from the environment, or null without keys
+ */
+export function getTestnetConfig(): BinanceTestnetConfig | null {
+  const apiKey = process.env.BINANCE_API_KEY;
+  const secretKey = process.env.BINANCE_SECRET_KEY;
+  if (!apiKey || !secretKey) return null;
+
+  return {
+    baseUrl: testnetBaseUrl(),
+    apiKey,
+    secretKey
+  };
+}
+
+export function isTestnetConfigured(): boolean {
+  return getTestnetConfig() !== null;
+}
+
+function requireConfig(): BinanceTestnetConfig {
+  const config = getTestnetConfig();
+  if (!config) {
+    throw new Error('Binance testnet keys not configured (set BINANCE_API_KEY and BINANCE_SECRET_KEY)');
+  }
+  return config;
+}
+
+export function signQuery(query: string, secretKey: string): string {
+  return crypto.createHmac('sha256', secretKey).update(query).digest('hex');
+}
+
+/**
+ * Plain decimal notation; Binance rejects exponents like 1e-7
+ */
+function formatDecimal(value: number): string {
+  return value.toFixed(8).replace(/\.?0+$/, '');
+}
+
+async function request<T>(
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  params: Record<string, string | number | undefined>,
+  signed: boolean
+): Promise<T> {
+  const config = signed ? requireConfig() : getTestnetConfig();
+
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.append(key, String(value));
+  }
+  if (signed) {
+    query.append('recvWindow', String(RECV_WINDOW_MS));
+    query.append('timestamp', String(Date.now()));
+    query.append('signature', signQuery(query.toString(), config!.secretKey));
+  }
+
+  const response = await fetch(`${testnetBaseUrl()}${path}?${query.toString()}`, {
+    method,
+    headers: config ? { 'X-MBX-APIKEY': config.apiKey } : undefined,
+    cache: 'no-store',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = body?.msg ? `${body.msg} (code ${body.code})` : response.statusText;
+    throw new Error(`Binance testnet HTTP ${response.status}: ${detail}`);
+  }
+  return body as T;
+}
+
+function parseOrder(raw: any): BinanceOrder {
+  return {
+    symbol: raw.symbol,
+    orderId: raw.orderId,
+    clientOrderId: raw.clientOrderId,
+    price: parseFloat(raw.price ?? '0'),
+    origQty: parseFloat(raw.origQty ?? '0'),
+    executedQty: parseFloat(raw.executedQty ?? '0'),
+    cummulativeQuoteQty: parseFloat(raw.cummulativeQuoteQty ?? '0'),
+    status: raw.status,
+    timeInForce: raw.timeInForce,
+    type: raw.type,
+    side: raw.side,
+    fills: (raw.fills ?? []).map((fill: any) => ({
+      price: parseFloat(fill.price),
+      qty: parseFloat(fill.qty),
+      commission: parseFloat(fill.commission),
+      commissionAsset: fill.commissionAsset
+    }))
+  };
+}
+
+/**
+ * POST /api/v3/order
+ */
+export async function placeTestnetOrder(order: BinanceNewOrder): Promise<BinanceOrder> {
+  if (order.type !== 'MARKET' && order.price === undefined) {
+    throw new Error(`${order.type} orders need a price`);
+  }
+
+  const raw = await request<any>('POST', '/api/v3/order', {
+    symbol: order.symbol,
+    side: order.side,
+    type: order.type,
+    quantity: formatDecimal(order.quantity),
+    price: order.price !== undefined && order.type !== 'MARKET' ? formatDecimal(order.price) : undefined,
+    timeInForce: order.type === 'LIMIT' ? order.timeInForce ?? 'GTC' : undefined,
+    newClientOrderId: order.newClientOrderId,
+    newOrderRespType: 'FULL'
+  }, true);
+  return parseOrder(raw);
+}
+
+/**
+ * DELETE /api/v3/order
+ */
+export async function cancelTestnetOrder(symbol: string, orderId: number | string): Promise<BinanceOrder> {
+  const raw = await request<any>('DELETE', '/api/v3/order', { symbol, orderId }, true);
+  return parseOrder(raw);
+}
+
+/**
+ * GET /api/v3/order
+ */
+export async function queryTestnetOrder(symbol: string, orderId: number | string): Promise<BinanceOrder> {
+  const raw = await request<any>('GET', '/api/v3/order', { symbol, orderId }, true);
+  return parseOrder(raw);
+}
+
+/**
+ * GET /api/v3/account, non-zero balances only
+ */
+export async function getTestnetBalances(): Promise<BinanceAccountBalance[]> {
+  const account = await request<{ balances: { asset: string; free: string; locked: string }[] }>(
+    'GET', '/api/v3/account', {}, true
+  );
+
+  return account.balances
+    .map(b => ({ asset: b.asset, free: parseFloat(b.free), locked: parseFloat(b.locked) }))
+    .filter(b => b.free > 0 || b.locked > 0);
+}
+
+/**
+ * Lot size, price and notional filters for a symbol (GET /api/v3/exchangeInfo)
+ */
+export async function getSymbolFilters(symbol: string): Promise<BinanceSymbolFilters> {
+  const normalized = toVenueSymbol(symbol, 'binance');
+  const cacheKey = `${testnetBaseUrl()}:${normalized}`;
+
+  const cached = filterCache.get(cacheKey);
+  if (cached) return cached;
+
+  const info = await request<{ symbols: any[] }>('GET', '/api/v3/exchangeInfo', { symbol: normalized }, false);
+  const raw = info.symbols?.find(s => s.symbol === normalized);
+  if (!raw) {
+    throw new Error(`Unknown Binance symbol: ${normalized}`);
+  }
+
+  const filter = (type: string) => raw.filters.find((f: any) => f.filterType === type) ?? {};
+  const price = filter('PRICE_FILTER');
+  const lot = filter('LOT_SIZE');
+  const notional = filter('NOTIONAL').minNotional ?? filter('MIN_NOTIONAL').minNotional ?? '0';
+
+  const filters: BinanceSymbolFilters = {
+    symbol: normalized,
+    baseAsset: raw.baseAsset,
+    quoteAsset: raw.quoteAsset,
+    status: raw.status,
+    tickSize: parseFloat(price.tickSize ?? '0'),
+    minPrice: parseFloat(price.minPrice ?? '0'),
+    maxPrice: parseFloat(price.maxPrice ?? '0'),
+    stepSize: parseFloat(lot.stepSize ?? '0'),
+    minQty: parseFloat(lot.minQty ?? '0'),
+    maxQty: parseFloat(lot.maxQty ?? '0'),
+    minNotional: parseFloat(notional)
+  };
+
+  filterCache.set(cacheKey, filters);
+  return filters;
+}
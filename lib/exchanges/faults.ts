@@ -0,0 +1,299 @@
+/**
+ * Fault Injection
+ * Named timelines of exchange faults for the simulated venues. A loaded
+ * scenario's steps switch on and off relative to the time it was loaded; the
+ * mock adapters consult the active faults on every request.
+ */
+
+import { random } from '@/lib/state/rng';
+
+export type FaultKind =
+  | 'outage'            // exchange unreachable
+  | 'latency'           // params.latencyMs added to every request
+  | 'stale_quotes'      // tickers and books frozen at the last live values
+  | 'reject_orders'     // params.rate of orders rejected (default all)
+  | 'partial_fills'     // orders fill params.fillRatio of the requested quantity
+  | 'thin_book'         // book quantities scaled by params.depthMultiplier
+  | 'premium_collapse'  // price drift over Binance pinned to params.drift
+  | 'rate_limit';       // params.rate of requests fail with HTTP 429 (default all)
+
+export interface FaultParams {
+  latencyMs?: number;
+  rate?: number; // 0-1
+  fillRatio?: number; // 0-1
+  depthMultiplier?: number; // 0-1
+  drift?: number; // fraction, e.g. -0.002
+}
+
+export interface FaultStep {
+  exchange: string; // adapter id
+  fault: FaultKind;
+  atMs: number; // offset from scenario start
+  durationMs?: number; // until the scenario is cleared when omitted
+  params?: FaultParams;
+}
+
+export interface FaultScenario {
+  name: string;
+  description: string;
+  steps: FaultStep[];
+}
+
+export interface ActiveScenario {
+  scenario: FaultScenario;
+  startedAt: number;
+}
+
+const FAULT_KINDS: FaultKind[] = [
+  'outage', 'latency', 'stale_quotes', 'reject_orders',
+  'partial_fills', 'thin_book', 'premium_collapse', 'rate_limit'
+];
+
+// Built-in scenarios, mostly against the Indian venue since it carries the
+// premium the arbitrage strategy trades
+const SCENARIOS: FaultScenario[] = [
+  {
+    name: 'latency-spike',
+    description: 'WazirX responds 3s slower for 30s',
+    steps: [{ exchange: 'wazirx', fault: 'latency', atMs: 0, durationMs: 30_000, params: { latencyMs: 3000 } }]
+  },
+  {
+    name: 'stale-quotes',
+    description: 'WazirX quotes and books stop updating for 60s',
+    steps: [{ exchange: 'wazirx', fault: 'stale_quotes', atMs: 0, durationMs: 60_000 }]
+  },
+  {
+    name: 'order-rejections',
+    description: 'WazirX rejects every order for 60s',
+    steps: [{ exchange: 'wazirx', fault: 'reject_orders', atMs: 0, durationMs: 60_000, params: { rate: 1 } }]
+  },
+  {
+    name: 'partial-fills',
+    description: 'WazirX fills 40% of each order and its book holds a tenth of the usual depth for 60s',
+    steps: [
+      { exchange: 'wazirx', fault: 'partial_fills', atMs: 0, durationMs: 60_000, params: { fillRatio: 0.4 } },
+      { exchange: 'wazirx', fault: 'thin_book', atMs: 0, durationMs: 60_000, params: { depthMultiplier: 0.1 } }
+    ]
+  },
+  {
+    name: 'book-thinning',
+    description: 'WazirX book depth drops to 2% for 60s',
+    steps: [{ exchange: 'wazirx', fault: 'thin_book', atMs: 0, durationMs: 60_000, params: { depthMultiplier: 0.02 } }]
+  },
+  {
+    name: 'premium-collapse',
+    description: 'After 10s the WazirX premium collapses to a 0.2% discount for 60s',
+    steps: [{ exchange: 'wazirx', fault: 'premium_collapse', atMs: 10_000, durationMs: 60_000, params: { drift: -0.002 } }]
+  },
+  {
+    name: 'rate-limited',
+    description: 'Half of WazirX requests fail with HTTP 429 for 30s',
+    steps: [{ exchange: 'wazirx', fault: 'rate_limit', atMs: 0, durationMs: 30_000, params: { rate: 0.5 } }]
+  },
+  {
+    name: 'nse-degraded',
+    description: 'NSE slows down and rejects a third of orders for 60s',
+    steps: [
+      { exchange: 'nse', fault: 'latency', atMs: 0, durationMs: 60_000, params: { latencyMs: 1500 } },
+      { exchange: 'nse', fault: 'reject_orders', atMs: 0, durationMs: 60_000, params: { rate: 0.33 } }
+    ]
+  },
+  {
+    name: 'cascading-failure',
+    description: 'WazirX degrades from latency to rate limiting to a 30s outage',
+    steps: [
+      { exchange: 'wazirx', fault: 'latency', atMs: 0, durationMs: 20_000, params: { latencyMs: 2000 } },
+      { exchange: 'wazirx', fault: 'rate_limit', atMs: 20_000, durationMs: 20_000, params: { rate: 0.8 } },
+      { exchange: 'wazirx', fault: 'outage', atMs: 40_000, durationMs: 30_000 }
+    ]
+  },
+];
+
+let active: ActiveScenario | null = null;
+
+// Last live quote per `${exchange}:${kind}:${symbol}`, served while quotes are stale
+const lastQuotes: Map<string, any> = new Map();
+
+/**
+ * Validate a scenario definition (e.g. from a request body)
+ */
+export function validateFaultScenario(raw: any): FaultScenario {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Scenario must be an object');
+  }
+  if (typeof raw.name !== 'string' || raw.name.length === 0) {
+    throw new Error('Scenario name is required');
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw new Error('Scenario needs at least one step');
+  }
+
+  const steps: FaultStep[] = raw.steps.map((step: any, i: number) => {
+    if (typeof step?.exchange !== 'string') {
+      throw new Error(`steps[${i}].exchange must be a string`);
+    }
+    if (!FAULT_KINDS.includes(step.fault)) {
+      throw new Error(`steps[${i}].fault must be one of ${FAULT_KINDS.join(', ')}`);
+    }
+    if (typeof step.atMs !== 'number' || step.atMs < 0) {
+      throw new Error(`steps[${i}].atMs must be a non-negative number`);
+    }
+    if (step.durationMs !== undefined && (typeof step.durationMs !== 'number' || step.durationMs <= 0)) {
+      throw new Error(`steps[${i}].durationMs must be a positive number`);
+    }
+    return {
+      exchange: step.exchange.toLowerCase(),
+      fault: step.fault,
+      atMs: step.atMs,
+      durationMs: step.durationMs,
+      params: step.params || {}
+    };
+  });
+
+  return { name: raw.name, description: raw.description || '', steps };
+}
+
+export function listFaultScenarios(): FaultScenario[] {
+  return SCENARIOS.map(scenario => ({ ...scenario, steps: [...scenario.steps] }));
+}
+
+/**
+ * Start a built-in scenario by name, or a custom definition
+ */
+export function loadFaultScenario(nameOrScenario: string | FaultScenario, startedAt: number = Date.now()): ActiveScenario {
+  const scenario = typeof nameOrScenario === 'string'
+    ? SCENARIOS.find(s => s.name === nameOrScenario)
+    : validateFaultScenario(nameOrScenario);
+
+  if (!scenario) {
+    throw new Error(`Unknown fault scenario: ${nameOrScenario}`);
+  }
+
+  active = { scenario, startedAt };
+  lastQuotes.clear();
+  return active;
+}
+
+export function clearFaultScenario(): void {
+  active = null;
+  lastQuotes.clear();
+}
+
+export function getActiveScenario(): ActiveScenario | null {
+  return active;
+}
+
+/**
+ * Steps in effect right now, optionally for one exchange
+ */
+export function getActiveFaults(exchange?: string, now: number = Date.now()): FaultStep[] {
+  if (!active) return [];
+  const elapsed = now - active.startedAt;
+
+  return active.scenario.steps.filter(step =>
+    (!exchange || step.exchange === exchange) &&
+    elapsed >= step.atMs &&
+    (step.durationMs === undefined || elapsed < step.atMs + step.durationMs)
+  );
+}
+
+function findFault(exchange: string, fault: FaultKind): FaultStep | undefined {
+  return getActiveFaults(exchange).find(step => step.fault === fault);
+}
+
+/**
+ * Whether a fault applied at `rate` (default always) hits this request
+ */
+function hits(step: FaultStep): boolean {
+  const rate = step.params?.rate ?? 1;
+  return random() < rate;
+}
+
+export function hasOutageFault(exchange: string): boolean {
+  return findFault(exchange, 'outage') !== undefined;
+}
+
+/**
+ * Delay and rate-limit a request before it reaches the venue
+ */
+export async function applyRequestFaults(exchange: string): Promise<void> {
+  const latency = findFault(exchange, 'latency');
+  if (latency?.params?.latencyMs) {
+    await new Promise(resolve => setTimeout(resolve, latency.params!.latencyMs));
+  }
+
+  const rateLimit = findFault(exchange, 'rate_limit');
+  if (rateLimit && hits(rateLimit)) {
+    throw new Error(`HTTP 429: ${exchange} rate limit exceeded (simulated)`);
+  }
+}
+
+/**
+ * Serve the last live value while quotes are stale; otherwise fetch and remember it
+ */
+export async function withStaleQuotes<T>(
+  exchange: string,
+  key: string,
+  fetchLive: () => Promise<T>
+): Promise<T> {
+  const cacheKey = `${exchange}:${key}`;
+  if (findFault(exchange, 'stale_quotes') && lastQuotes.has(cacheKey)) {
+    return lastQuotes.get(cacheKey);
+  }
+
+  const live = await fetchLive();
+  lastQuotes.set(cacheKey, live);
+  return live;
+}
+
+/**
+ * Drift over Binance forced by a premium collapse, if one is active
+ */
+export function getFaultDrift(exchange: string): number | undefined {
+  return findFault(exchange, 'premium_collapse')?.params?.drift;
+}
+
+/**
+ * Scale book depth while the book is thinned
+ */
+export function applyBookFaults<B extends { bids: [number, number][]; asks: [number, number][] }>(
+  exchange: string,
+  book: B
+): B {
+  const thin = findFault(exchange, 'thin_book');
+  if (!thin) return book;
+
+  const multiplier = thin.params?.depthMultiplier ?? 0.1;
+  const scale = (levels: [number, number][]) =>
+    levels.map(([price, qty]) => [price, qty * multiplier] as [number, number]);
+  return { ...book, bids: scale(book.bids), asks: scale(book.asks) };
+}
+
+/**
+ * Reject an order before it is placed
+ */
+export function applyOrderRejection(exchange: string): void {
+  const reject = findFault(exchange, 'reject_orders');
+  if (reject && hits(reject)) {
+    throw new Error(`Order rejected by ${exchange} (simulated fault)`);
+  }
+}
+
+/**
+ * Cut a filled order down to a partial fill
+ */
+export function applyFillFaults<R extends { executedQuantity: number; fees: number; status: string }>(
+  exchange: string,
+  result: R
+): R {
+  const partial = findFault(exchange, 'partial_fills');
+  if (!partial || result.executedQuantity <= 0) return result;
+
+  const ratio = Math.min(1, Math.max(0, partial.params?.fillRatio ?? 0.5));
+  return {
+    ...result,
+    executedQuantity: result.executedQuantity * ratio,
+    fees: result.fees * ratio,
+    status: ratio < 1 ? 'partial' : result.status
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Fee Schedule
+ * Per-exchange trading fee tiers (maker/taker by VIP level), statutory levies
+ * such as NSE STT, and per-asset withdrawal and network fees. Detection, risk
+ * and execution all price fees from here. Edits made through settings are
+ * stored as per-exchange overrides of the defaults below.
+ */
+
+import { findExchange } from './registry';
+import { getSettings, updateSettings } from '@/lib/state/settings';
+import type { ExchangeFees } from './types';
+
+export interface FeeTier {
+  vipLevel: number;
+  min30dVolumeUSDT: number; // volume the venue requires for the tier
+  maker: number; // fraction, e.g. 0.001 = 0.1%
+  taker: number;
+}
+
+export interface FeeLevy {
+  name: string;
+  rate: number; // fraction of notional, charged on every trade
+}
+
+export interface ExchangeFeeSchedule {
+  vipLevel: number; // tier the account trades at
+  tiers: FeeTier[];
+  levies: FeeLevy[];
+  withdrawal: Record<string, number>; // venue charge per withdrawal, in units of the asset
+  network: Record<string, number>; // on-chain fee per transfer, in units of the asset
+}
+
+export interface FeeCharge {
+  total: number;
+  commission: number; // the venue's maker/taker fee
+  levies: Record<string, number>; // by levy name
+}
+
+export type Liquidity = 'maker' | 'taker';
+
+const MAX_FEE_RATE = 0.05;
+
+const DEFAULT_FEE_SCHEDULES: Record<string, ExchangeFeeSchedule> = {
+  binance: {
+    vipLevel: 0,
+    tiers: [
+      { vipLevel: 0, min30dVolumeUSDT: 0, maker: 0.001, taker: 0.001 },
+      { vipLevel: 1, min30dVolumeUSDT: 1_000_000, maker: 0.0009, taker: 0.001 },
+      { vipLevel: 2, min30dVolumeUSDT: 5_000_000, maker: 0.0008, taker: 0.001 },
+      { vipLevel: 3, min30dVolumeUSDT: 20_000_000, maker: 0.00042, taker: 0.0006 },
+    ],
+    levies: [],
+    withdrawal: { BTC: 0.0002, ETH: 0.0016, BNB: 0.0005, SOL: 0.01, XRP: 0.25, USDT: 1 },
+    network: { BTC: 0.00002, ETH: 0.0003, BNB: 0.0001, SOL: 0.00001, XRP: 0.00001, USDT: 0.3 },
+  },
+  wazirx: {
+    vipLevel: 0,
+    tiers: [
+      { vipLevel: 0, min30dVolumeUSDT: 0, maker: 0.002, taker: 0.002 },
+      { vipLevel: 1, min30dVolumeUSDT: 50_000, maker: 0.0018, taker: 0.0019 },
+      { vipLevel: 2, min30dVolumeUSDT: 250_000, maker: 0.0015, taker: 0.0017 },
+    ],
+    levies: [],
+    withdrawal: { BTC: 0.0006, ETH: 0.005, BNB: 0.001, SOL: 0.02, XRP: 0.5, USDT: 3, INR: 10 },
+    network: { BTC: 0.00002, ETH: 0.0003, BNB: 0.0001, SOL: 0.00001, XRP: 0.00001, USDT: 0.3 },
+  },
+  nse: {
+    vipLevel: 0,
+    tiers: [
+      { vipLevel: 0, min30dVolumeUSDT: 0, maker: 0.0003, taker: 0.0003 }, // brokerage
+    ],
+    levies: [
+      { name: 'stt', rate: 0.00025 }, // securities transaction tax, delivery
+    ],
+    withdrawal: {},
+    network: {},
+  },
+};
+
+// Venues without a schedule are priced like Binance
+const FALLBACK_EXCHANGE = 'binance';
+
+function scheduleKey(exchange: string): string {
+  return findExchange(exchange)?.id ?? exchange.toLowerCase();
+}
+
+/**
+ * Effective schedule for an exchange: the settings override, else the default
+ */
+export function getFeeSchedule(exchange: string): ExchangeFeeSchedule {
+  const key = scheduleKey(exchange);
+  return getSettings().fees?.[key]
+    ?? DEFAULT_FEE_SCHEDULES[key]
+    ?? DEFAULT_FEE_SCHEDULES[FALLBACK_EXCHANGE];
+}
+
+export function listFeeSchedules(): Record<string, ExchangeFeeSchedule> {
+  const keys = new Set([...Object.keys(DEFAULT_FEE_SCHEDULES), ...Object.keys(getSettings().fees ?? {})]);
+  const schedules: Record<string, ExchangeFeeSchedule> = {};
+  keys.forEach(key => { schedules[key] = getFeeSchedule(key); });
+  return schedules;
+}
+
+function tierFor(schedule: ExchangeFeeSchedule, vipLevel: number): FeeTier {
+  // Highest tier at or below the level, so a level between tiers gets the lower one
+  const eligible = schedule.tiers.filter(tier => tier.vipLevel <= vipLevel);
+  return eligible.length > 0
+    ? eligible.reduce((best, tier) => (tier.vipLevel > best.vipLevel ? tier : best))
+    : schedule.tiers[0];
+}
+
+/**
+ * Maker/taker rates including levies, at the account's VIP level unless one is given
+ */
+export function getFeeRates(exchange: string, vipLevel?: number): ExchangeFees {
+  const schedule = getFeeSchedule(exchange);
+  const tier = tierFor(schedule, vipLevel ?? schedule.vipLevel);
+  const levyRate = schedule.levies.reduce((sum, levy) => sum + levy.rate, 0);
+  return { maker: tier.maker + levyRate, taker: tier.taker + levyRate };
+}
+
+/**
+ * Fees on a trade of `notional`, split into the venue commission and each levy
+ */
+export function getTradingFee(exchange: string, notional: number, liquidity: Liquidity = 'taker'): FeeCharge {
+  const schedule = getFeeSchedule(exchange);
+  const tier = tierFor(schedule, schedule.vipLevel);
+  const commission = notional * tier[liquidity];
+
+  const levies: Record<string, number> = {};
+  for (const levy of schedule.levies) {
+    levies[levy.name] = notional * levy.rate;
+  }
+
+  return {
+    total: commission + Object.values(levies).reduce((sum, amount) => sum + amount, 0),
+    commission,
+    levies
+  };
+}
+
+/**
+ * Withdrawal plus network fee for moving `asset` off an exchange, in units of the asset
+ */
+export function getTransferCost(exchange: string, asset: string): number {
+  const schedule = getFeeSchedule(exchange);
+  return (schedule.withdrawal[asset] ?? 0) + (schedule.network[asset] ?? 0);
+}
+
+/**
+ * Taker fees for buying on one venue and selling on another, in percent of notional
+ */
+export function getRoundTripFeePct(buyExchange: string, sellExchange: string): number {
+  return (getFeeRates(buyExchange).taker + getFeeRates(sellExchange).taker) * 100;
+}
+
+function assertRate(value: any, label: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_FEE_RATE) {
+    throw new Error(`${label} must be a fraction between 0 and ${MAX_FEE_RATE}`);
+  }
+}
+
+function assertAmounts(value: any, label: string): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${label} must map assets to amounts`);
+  }
+  for (const [asset, amount] of Object.entries(value)) {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      throw new Error(`${label}.${asset} must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Check a full schedule; throws with the first problem found
+ */
+export function validateFeeSchedule(schedule: ExchangeFeeSchedule): void {
+  if (!Array.isArray(schedule.tiers) || schedule.tiers.length === 0) {
+    throw new Error('tiers must have at least one entry');
+  }
+  schedule.tiers.forEach((tier, i) => {
+    if (!Number.isInteger(tier?.vipLevel) || tier.vipLevel < 0) {
+      throw new Error(`tiers[${i}].vipLevel must be a non-negative integer`);
+    }
+    if (typeof tier.min30dVolumeUSDT !== 'number' || tier.min30dVolumeUSDT < 0) {
+      throw new Error(`tiers[${i}].min30dVolumeUSDT must be a non-negative number`);
+    }
+    assertRate(tier.maker, `tiers[${i}].maker`);
+    assertRate(tier.taker, `tiers[${i}].taker`);
+  });
+
+  if (!schedule.tiers.some(tier => tier.vipLevel === schedule.vipLevel)) {
+    throw new Error(`vipLevel ${schedule.vipLevel} has no matching tier`);
+  }
+
+  if (!Array.isArray(schedule.levies)) {
+    throw new Error('levies must be an array');
+  }
+  schedule.levies.forEach((levy, i) => {
+    if (typeof levy?.name !== 'string' || levy.name.length === 0) {
+      throw new Error(`levies[${i}].name is required`);
+    }
+    assertRate(levy.rate, `levies[${i}].rate`);
+  });
+
+  assertAmounts(schedule.withdrawal, 'withdrawal');
+  assertAmounts(schedule.network, 'network');
+}
+
+/**
+ * Change an exchange's schedule, e.g. its VIP level or withdrawal fees
+ * Updates are merged over the effective schedule and stored in settings
+ */
+export function updateFeeSchedule(exchange: string, updates: Partial<ExchangeFeeSchedule>): ExchangeFeeSchedule {
+  const key = scheduleKey(exchange);
+  const current = getFeeSchedule(key);
+  const schedule: ExchangeFeeSchedule = {
+    vipLevel: updates.vipLevel ?? current.vipLevel,
+    tiers: updates.tiers ?? current.tiers,
+    levies: updates.levies ?? current.levies,
+    withdrawal: updates.withdrawal ? { ...current.withdrawal, ...updates.withdrawal } : current.withdrawal,
+    network: updates.network ? { ...current.network, ...updates.network } : current.network,
+  };
+  validateFeeSchedule(schedule);
+
+  updateSettings({ fees: { ...getSettings().fees, [key]: schedule } });
+  return schedule;
+}
+
+/**
+ * Drop an exchange's override and return to the default schedule
+ */
+export function resetFeeSchedule(exchange: string): ExchangeFeeSchedule {
+  const key = scheduleKey(exchange);
+  const { [key]: _removed, ...rest } = getSettings().fees ?? {};
+  updateSettings({ fees: rest });
+  return getFeeSchedule(key);
+}
@@ -0,0 +1,251 @@
+/**
+ * INR/USDT Foreign Exchange
+ * Reference USD/INR and market USDT/INR rates from a pluggable source (a
+ * recorded replay, an HTTP endpoint such as a local stub, or the static
+ * lib/data/fx.json), cached as a time series. Also models what it costs to
+ * move arbitrage proceeds between INR and USDT: the 1% TDS Indian venues
+ * withhold on crypto sales, the INR/USDT book spread and the USDT premium.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { findExchange } from './registry';
+import { getInstrument } from './symbols';
+import { isReplayActive, getReplayTicker } from './replay';
+
+export interface FxQuote {
+  ts: number;
+  usdInr: number;  // reference rate Indian venues' USD prices are quoted at
+  usdtInr: number; // rate USDT actually trades at against INR
+  source: string;
+}
+
+export interface FxRateSource {
+  name: string;
+  fetchQuote(): Promise<FxQuote | null>; // null when the source has no rate
+}
+
+export interface InrConversionCosts {
+  inrVenue: string | null; // leg settled in INR, if any
+  tdsPct: number;
+  conversionSpreadPct: number;
+  usdtPremiumPct: number; // positive when the trade pays the premium
+  totalPct: number;
+}
+
+// Tax deducted at source on sales of crypto (VDA) on Indian venues
+export const INDIAN_TDS_RATE = 0.01;
+
+// Half the INR/USDT book spread, paid once per conversion
+const CONVERSION_SPREAD_PCT = 0.2;
+
+const DEFAULT_FX_FILE = path.join('lib', 'data', 'fx.json');
+const REFRESH_INTERVAL_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 5000;
+const MAX_SAMPLES = 500;
+
+// Used only when no source has produced a rate yet
+const FALLBACK_QUOTE: FxQuote = { ts: 0, usdInr: 83.5, usdtInr: 84.0, source: 'fallback' };
+
+const series: FxQuote[] = [];
+let sourceOverride: FxRateSource | null = null;
+let lastFetchedAt = 0;
+let seeded = false;
+
+/**
+ * Read a rate file: { "lastUpdated": ISO date, "usdInr": n, "usdtInr": n }
+ */
+function readFxFile(filePath: string): FxQuote | null {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  try {
+    const raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    if (!(raw.usdInr > 0) || !(raw.usdtInr > 0)) return null;
+    return {
+      ts: raw.lastUpdated ? new Date(raw.lastUpdated).getTime() : Date.now(),
+      usdInr: raw.usdInr,
+      usdtInr: raw.usdtInr,
+      source: `file:${filePath}`
+    };
+  } catch (error) {
+    console.warn(`[FX] Could not read ${resolved}:`, error);
+    return null;
+  }
+}
+
+export function fileFxSource(filePath: string = process.env.FX_RATE_FILE || DEFAULT_FX_FILE): FxRateSource {
+  return {
+    name: 'file',
+    fetchQuote: async () => readFxFile(filePath)
+  };
+}
+
+/**
+ * Rates recorded in the active replay as tickers on the pseudo-exchange `fx`
+ * (symbols USDINR and USDTINR)
+ */
+export function replayFxSource(): FxRateSource {
+  return {
+    name: 'replay',
+    fetchQuote: async () => {
+      if (!isReplayActive()) return null;
+      const usd = getReplayTicker('fx', 'USDINR');
+      const usdt = getReplayTicker('fx', 'USDTINR');
+      if (!usd && !usdt) return null;
+
+      const usdInr = usd?.price ?? usdt!.price;
+      return {
+        ts: Math.max(usd?.ts ?? 0, usdt?.ts ?? 0),
+        usdInr,
+        usdtInr: usdt?.price ?? usdInr,
+        source: 'replay'
+      };
+    }
+  };
+}
+
+/**
+ * GET a JSON body of { usdInr, usdtInr } from a URL, e.g. a local stub
+ */
+export function httpFxSource(url: string): FxRateSource {
+  return {
+    name: 'http',
+    fetchQuote: async () => {
+      const response = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`FX source HTTP ${response.status}: ${response.statusText}`);
+      }
+      const body = await response.json();
+      if (!(body.usdInr > 0) || !(body.usdtInr > 0)) {
+        throw new Error('FX source returned no usdInr/usdtInr rates');
+      }
+      return { ts: Date.now(), usdInr: body.usdInr, usdtInr: body.usdtInr, source: `http:${url}` };
+    }
+  };
+}
+
+/**
+ * Replace the rate source (null restores the default chain)
+ */
+export function setFxSource(source: FxRateSource | null): void {
+  sourceOverride = source;
+  lastFetchedAt = 0;
+}
+
+/**
+ * Sources tried in order: an override, then the replay, FX_RATE_URL and the rate file
+ */
+function activeSources(): FxRateSource[] {
+  if (sourceOverride) return [sourceOverride];
+  const sources = [replayFxSource()];
+  if (process.env.FX_RATE_URL) {
+    sources.push(httpFxSource(process.env.FX_RATE_URL));
+  }
+  sources.push(fileFxSource());
+  return sources;
+}
+
+function recordQuote(quote: FxQuote): void {
+  const last = series[series.length - 1];
+  if (last && last.ts === quote.ts && last.source === quote.source) return;
+
+  series.push(quote);
+  series.sort((a, b) => a.ts - b.ts);
+  if (series.length > MAX_SAMPLES) {
+    series.splice(0, series.length - MAX_SAMPLES);
+  }
+}
+
+/**
+ * Fetch a fresh quote if the cached one is older than the refresh interval
+ * A replay is read on every call since its virtual clock moves independently
+ */
+export async function refreshFxRate(force: boolean = false): Promise<FxQuote> {
+  const due = force || isReplayActive() || Date.now() - lastFetchedAt >= REFRESH_INTERVAL_MS;
+  if (!due) return getFxQuote();
+
+  for (const source of activeSources()) {
+    try {
+      const quote = await source.fetchQuote();
+      if (quote) {
+        recordQuote(quote);
+        lastFetchedAt = Date.now();
+        return quote;
+      }
+    } catch (error) {
+      console.warn(`[FX] ${source.name} source failed:`, error);
+    }
+  }
+  return getFxQuote();
+}
+
+/**
+ * Latest cached quote; seeded from the rate file before the first refresh
+ */
+export function getFxQuote(): FxQuote {
+  if (series.length === 0 && !seeded) {
+    seeded = true;
+    const seed = readFxFile(process.env.FX_RATE_FILE || DEFAULT_FX_FILE);
+    if (seed) recordQuote(seed);
+  }
+  return series[series.length - 1] ?? FALLBACK_QUOTE;
+}
+
+/**
+ * Latest quote at or before `ts`, for valuing past trades
+ */
+export function getFxQuoteAt(ts: number): FxQuote {
+  const current = getFxQuote();
+  let found: FxQuote | null = null;
+  for (const quote of series) {
+    if (quote.ts > ts) break;
+    found = quote;
+  }
+  return found ?? series[0] ?? current;
+}
+
+export function getFxHistory(limit?: number): FxQuote[] {
+  return limit ? series.slice(-limit) : [...series];
+}
+
+export function getUsdInrRate(): number {
+  return getFxQuote().usdInr;
+}
+
+export function getUsdtInrRate(): number {
+  return getFxQuote().usdtInr;
+}
+
+/**
+ * USDT/INR premium over the reference rate, in percent
+ */
+export function getUsdtPremiumPct(): number {
+  const { usdInr, usdtInr } = getFxQuote();
+  return (usdtInr / usdInr - 1) * 100;
+}
+
+/**
+ * Cost, as a percent of notional, of a crypto arbitrage with one leg settled in INR
+ * Either direction converts once between INR and USDT and sells something on
+ * the Indian side (the coin, or USDT to fund the buy), so TDS and the spread
+ * always apply; the USDT premium is paid when buying USDT back with INR
+ * proceeds and earned when selling USDT for INR
+ */
+export function getInrConversionCosts(symbol: string, buyExchange: string, sellExchange: string): InrConversionCosts {
+  const isInr = (exchange: string) => findExchange(exchange)?.settlementAsset === 'INR';
+  const buyInr = isInr(buyExchange);
+  const sellInr = isInr(sellExchange);
+
+  if (buyInr === sellInr || getInstrument(symbol).kind !== 'crypto') {
+    return { inrVenue: null, tdsPct: 0, conversionSpreadPct: 0, usdtPremiumPct: 0, totalPct: 0 };
+  }
+
+  const tdsPct = INDIAN_TDS_RATE * 100;
+  const usdtPremiumPct = sellInr ? getUsdtPremiumPct() : -getUsdtPremiumPct();
+  return {
+    inrVenue: sellInr ? sellExchange : buyExchange,
+    tdsPct,
+    conversionSpreadPct: CONVERSION_SPREAD_PCT,
+    usdtPremiumPct,
+    totalPct: tdsPct + CONVERSION_SPREAD_PCT + usdtPremiumPct
+  };
+}
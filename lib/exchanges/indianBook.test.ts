@@ -0,0 +1,32 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep the live state database out of the run
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indian-book-test-'));
+process.env.STATE_DB_PATH = path.join(stateDir, 'state.db');
+after(() => fs.rmSync(stateDir, { recursive: true, force: true }));
+
+test('the premium keeps walking when the book is read more than once a second', async () => {
+  const { startReplay, stopReplay, advanceReplayClock } = await import('./replay');
+  const { getSimulatedMid, resetSimulatedBooks } = await import('./indianBook');
+
+  startReplay([{ ts: 1_700_000_000_000, type: 'ticker', exchange: 'binance', symbol: 'BTCUSDT', price: 60_000 }]);
+  resetSimulatedBooks();
+  try {
+    const mids = [await getSimulatedMid('BTCUSDT')];
+    for (let read = 0; read < 10; read++) {
+      advanceReplayClock(400);
+      mids.push(await getSimulatedMid('BTCUSDT'));
+    }
+
+    // Four seconds of reads at 400ms apart: the walk takes a step every second
+    const moves = mids.slice(1).filter((mid, i) => mid !== mids[i]).length;
+    assert.equal(moves, 4);
+  } finally {
+    resetSimulatedBooks();
+    stopReplay();
+  }
+});
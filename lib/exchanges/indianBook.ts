@@ -0,0 +1,459 @@
+/**
+ * Indian Exchange Order Book Simulator
+ * A persistent limit order book per symbol for the mock Indian venue, matched
+ * with price-time priority. Liquidity providers quote a ladder around Binance
+ * plus a slowly wandering premium (none on cross pairs such as ETHBTC) and
+ * refill consumed depth over time, so our own orders move the book and
+ * back-to-back trades see worse prices. Providers catch up lazily on each
+ * access rather than on a timer. Our limit orders can rest on the book and
+ * fill as makers when the providers' quotes move through them.
+ */
+
+import { getBinancePrices } from './binance';
+import { getFaultDrift } from './faults';
+import { getIndianDriftOverride } from './simulation';
+import { getReplayTime } from './replay';
+import { getInstrument, getVenueFilters, normalizeSymbol, roundPriceToTick, roundToStep } from './symbols';
+import { getSettings } from '@/lib/state/settings';
+import { random } from '@/lib/state/rng';
+import type { OrderStatus, TimeInForce } from './types';
+
+export type BookSide = 'buy' | 'sell';
+
+export interface RestingOrder {
+  id: string;
+  owner: 'lp' | 'user';
+  side: BookSide;
+  price: number;
+  quantity: number; // remaining
+  seq: number; // time priority; lower fills first at the same price
+  level?: number; // provider ladder rung
+}
+
+export interface BookFill {
+  makerOrderId: string;
+  price: number;
+  quantity: number;
+  liquidity: 'maker' | 'taker'; // from our side
+}
+
+export interface SimulatedOrder {
+  id: string;
+  symbol: string;
+  side: BookSide;
+  price?: number; // limit price; none for market orders
+  timeInForce: TimeInForce;
+  requestedQty: number;
+  filledQty: number;
+  avgPrice: number; // 0 when nothing filled
+  restingQty: number;
+  midBefore: number; // provider mid when the order arrived
+  fills: BookFill[];
+  status: OrderStatus;
+  reason?: string; // why it was rejected
+}
+
+export interface BookSnapshot {
+  symbol: string;
+  mid: number;
+  bids: [number, number][]; // aggregated by price, best first
+  asks: [number, number][];
+}
+
+interface SimBook {
+  symbol: string;
+  bids: RestingOrder[]; // best (highest) first
+  asks: RestingOrder[]; // best (lowest) first
+  premium: number; // over Binance, fraction
+  crossPair: boolean; // quoted in another coin, e.g. ETHBTC; carries no premium
+  mid: number;
+  lastReplenishAt: number;
+  premiumSteppedAt: number; // the premium walks in whole seconds from here
+}
+
+export interface SimulatedBooksSnapshot {
+  books: Map<string, SimBook>;
+  userOrders: Map<string, SimulatedOrder>;
+}
+
+const LADDER_LEVELS = 20;
+const HALF_SPREAD = 0.001; // best quote 0.1% from mid
+const LEVEL_SPACING = 0.0005; // 0.05% between rungs
+const LEVEL_NOTIONAL_USDT = 15_000; // first rung; deeper rungs hold more
+const REFILL_PER_SEC = 0.1; // share of a rung's target depth restored per second
+const MAX_CATCH_UP_SEC = 60;
+const MAX_TRACKED_ORDERS = 500; // finished orders kept so their final state can be read
+
+// Premium mean-reverts inside the 0.5%-2.5% band Indian venues usually trade in
+const PREMIUM_MEAN = 0.015;
+const PREMIUM_REVERSION = 0.05; // per second
+const PREMIUM_NOISE = 0.0008; // per second
+
+const books: Map<string, SimBook> = new Map();
+const userOrders: Map<string, SimulatedOrder> = new Map();
+let nextSeq = 1;
+
+function byBidPriority(a: RestingOrder, b: RestingOrder): number {
+  return b.price - a.price || a.seq - b.seq;
+}
+
+function byAskPriority(a: RestingOrder, b: RestingOrder): number {
+  return a.price - b.price || a.seq - b.seq;
+}
+
+function rungTarget(mid: number, level: number): number {
+  const multiplier = getSettings().indianExchange?.liquidityMultiplier ?? 1;
+  return (LEVEL_NOTIONAL_USDT * (1 + level * 0.25) * multiplier) / mid;
+}
+
+function rungPrice(side: BookSide, mid: number, level: number, tickSize: number): number {
+  const offset = HALF_SPREAD + level * LEVEL_SPACING;
+  return roundToStep(mid * (side === 'buy' ? 1 - offset : 1 + offset), tickSize);
+}
+
+/**
+ * Walk the premium forward and re-quote every provider rung around the new mid
+ * A rung that moves loses its time priority; consumed depth refills gradually
+ */
+function replenish(book: SimBook, referencePrice: number, now: number): void {
+  const elapsedSec = Math.max(0, Math.min((now - book.lastReplenishAt) / 1000, MAX_CATCH_UP_SEC));
+  const pinned = getFaultDrift('wazirx') ?? getIndianDriftOverride();
+
+  // The premium is the price of buying crypto with INR; a cross pair's two
+  // legs both carry it, so it cancels out of the cross rate
+  if (book.crossPair) {
+    book.premium = 0;
+    book.premiumSteppedAt = now;
+  } else if (pinned !== undefined) {
+    book.premium = pinned;
+    book.premiumSteppedAt = now;
+  } else {
+    // The walk keeps its own clock and carries the part-second over, or a
+    // book read more than once a second would never move
+    const steps = Math.floor((now - book.premiumSteppedAt) / 1000);
+    for (let s = 0; s < Math.min(steps, MAX_CATCH_UP_SEC); s++) {
+      book.premium += (PREMIUM_MEAN - book.premium) * PREMIUM_REVERSION + (random() - 0.5) * 2 * PREMIUM_NOISE;
+    }
+    book.premiumSteppedAt = steps < 0 || steps > MAX_CATCH_UP_SEC ? now : book.premiumSteppedAt + steps * 1000;
+  }
+  book.mid = referencePrice * (1 + book.premium);
+
+  const { tickSize } = getVenueFilters('wazirx', book.symbol);
+  for (const side of ['buy', 'sell'] as BookSide[]) {
+    const orders = side === 'buy' ? book.bids : book.asks;
+    const kept = orders.filter(order => order.owner !== 'lp');
+
+    for (let level = 0; level < LADDER_LEVELS; level++) {
+      const target = rungTarget(book.mid, level);
+      const existing = orders.find(order => order.owner === 'lp' && order.level === level);
+      const quantity = Math.min(target, (existing?.quantity ?? 0) + target * REFILL_PER_SEC * elapsedSec);
+      if (quantity <= 0) continue;
+
+      const price = rungPrice(side, book.mid, level, tickSize);
+      kept.push({
+        id: existing?.id ?? `LP_${side}_${book.symbol}_${level}`,
+        owner: 'lp',
+        side,
+        price,
+        quantity,
+        seq: existing && existing.price === price ? existing.seq : nextSeq++,
+        level
+      });
+    }
+
+    if (side === 'buy') {
+      book.bids = kept.sort(byBidPriority);
+    } else {
+      book.asks = kept.sort(byAskPriority);
+    }
+  }
+
+  fillCrossedOrders(book);
+  book.lastReplenishAt = now;
+}
+
+function recordFill(order: SimulatedOrder, fill: BookFill): void {
+  const value = order.avgPrice * order.filledQty + fill.price * fill.quantity;
+  order.fills.push(fill);
+  order.filledQty += fill.quantity;
+  order.avgPrice = value / order.filledQty;
+}
+
+function settleResting(order: SimulatedOrder, stepSize: number): void {
+  order.filledQty = roundToStep(order.filledQty, stepSize);
+  order.restingQty = roundToStep(order.requestedQty - order.filledQty, stepSize);
+  if (order.restingQty <= 0) {
+    order.restingQty = 0;
+    order.status = 'filled';
+  } else {
+    order.status = order.filledQty > 0 ? 'partial' : 'open';
+  }
+}
+
+/**
+ * Trade our resting orders against provider quotes that moved through them
+ * The resting order was there first, so it is the maker and trades at its price
+ */
+function fillCrossedOrders(book: SimBook): void {
+  const { stepSize } = getVenueFilters('wazirx', book.symbol);
+
+  for (const side of ['buy', 'sell'] as BookSide[]) {
+    const ours = (side === 'buy' ? book.bids : book.asks).filter(order => order.owner === 'user');
+    const opposite = side === 'buy' ? book.asks : book.bids;
+
+    for (const resting of ours) {
+      const order = userOrders.get(resting.id);
+      if (!order) continue;
+
+      for (const quote of opposite) {
+        if (resting.quantity < stepSize) break;
+        if (quote.owner !== 'lp' || quote.quantity < stepSize) continue;
+        if (side === 'buy' ? quote.price > resting.price : quote.price < resting.price) break;
+
+        const fillQty = roundToStep(Math.min(resting.quantity, quote.quantity), stepSize);
+        quote.quantity -= fillQty;
+        resting.quantity -= fillQty;
+        recordFill(order, { makerOrderId: resting.id, price: resting.price, quantity: fillQty, liquidity: 'maker' });
+      }
+      settleResting(order, stepSize);
+    }
+  }
+
+  book.bids = book.bids.filter(order => order.quantity >= stepSize);
+  book.asks = book.asks.filter(order => order.quantity >= stepSize);
+}
+
+/**
+ * Book for a symbol, created on first use with a full ladder and brought up
+ * to date with the current Binance price
+ * Time is the replay's virtual clock when one is active, so backtests evolve
+ * the book the same way on every run
+ */
+async function loadBook(symbol: string): Promise<SimBook> {
+  const canonical = normalizeSymbol(symbol);
+  const prices = await getBinancePrices([canonical]);
+  if (prices.length === 0) {
+    throw new Error(`Failed to fetch base price for ${canonical}`);
+  }
+
+  const now = getReplayTime();
+  let book = books.get(canonical);
+  if (!book) {
+    const instrument = getInstrument(canonical);
+    book = {
+      symbol: canonical,
+      bids: [],
+      asks: [],
+      premium: 0.005 + random() * 0.02, // 0.5% to 2.5%
+      crossPair: instrument.kind === 'crypto' && !['USDT', 'INR'].includes(instrument.quoteAsset),
+      mid: 0,
+      lastReplenishAt: now - MAX_CATCH_UP_SEC * 1000, // start with full depth
+      premiumSteppedAt: now
+    };
+    books.set(canonical, book);
+  }
+
+  replenish(book, prices[0].price, now);
+  return book;
+}
+
+function aggregate(orders: RestingOrder[], depth: number): [number, number][] {
+  const levels: [number, number][] = [];
+  for (const order of orders) {
+    const last = levels[levels.length - 1];
+    if (last && last[0] === order.price) {
+      last[1] += order.quantity;
+    } else {
+      if (levels.length === depth) break;
+      levels.push([order.price, order.quantity]);
+    }
+  }
+  return levels;
+}
+
+export async function getSimulatedBook(symbol: string, depth: number = 10): Promise<BookSnapshot> {
+  const book = await loadBook(symbol);
+  return {
+    symbol: book.symbol,
+    mid: book.mid,
+    bids: aggregate(book.bids, depth),
+    asks: aggregate(book.asks, depth)
+  };
+}
+
+/**
+ * Mid between the best bid and ask, or the providers' mid if a side is empty
+ */
+export async function getSimulatedMid(symbol: string): Promise<number> {
+  const book = await loadBook(symbol);
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  return bestBid !== undefined && bestAsk !== undefined ? (bestBid + bestAsk) / 2 : book.mid;
+}
+
+function trackOrder(order: SimulatedOrder): void {
+  userOrders.set(order.id, order);
+  for (const [id, tracked] of Array.from(userOrders)) {
+    if (userOrders.size <= MAX_TRACKED_ORDERS) break;
+    if (tracked.restingQty <= 0) userOrders.delete(id);
+  }
+}
+
+/**
+ * Quantity on the providers' side of the book at or better than a limit
+ */
+function availableWithin(opposite: RestingOrder[], crosses: (price: number) => boolean): number {
+  let available = 0;
+  for (const maker of opposite) {
+    if (!crosses(maker.price)) break;
+    if (maker.owner === 'lp') available += maker.quantity;
+  }
+  return available;
+}
+
+/**
+ * Submit an order to the book, matched with price-time priority
+ * Market orders sweep until filled or the book runs out and cancel the rest.
+ * Limit orders match up to their price, then by time in force: IOC cancels
+ * the remainder, FOK fills in full or not at all, GTC rests the remainder and
+ * POST_ONLY rests the whole order, or is rejected if it would take liquidity.
+ * Our own resting orders are never matched against each other.
+ * Quantities are rounded down to the venue's lot size; limit prices to the
+ * tick, down for buys and up for sells.
+ */
+export async function submitSimulatedOrder(
+  symbol: string,
+  side: BookSide,
+  quantity: number,
+  opts: { limitPrice?: number; timeInForce?: TimeInForce } = {}
+): Promise<SimulatedOrder> {
+  const book = await loadBook(symbol);
+  const { stepSize, tickSize } = getVenueFilters('wazirx', book.symbol);
+  const limitPrice = opts.limitPrice !== undefined ? roundPriceToTick(opts.limitPrice, tickSize, side) : undefined;
+  const timeInForce = limitPrice === undefined ? 'IOC' : opts.timeInForce ?? 'GTC';
+
+  const order: SimulatedOrder = {
+    id: `WAZIRX_SIM_${nextSeq}_${Math.random().toString(36).substr(2, 6)}`,
+    symbol: book.symbol,
+    side,
+    price: limitPrice,
+    timeInForce,
+    requestedQty: roundToStep(quantity, stepSize),
+    filledQty: 0,
+    avgPrice: 0,
+    restingQty: 0,
+    midBefore: book.mid,
+    fills: [],
+    status: 'cancelled'
+  };
+
+  const opposite = side === 'buy' ? book.asks : book.bids;
+  const crosses = (price: number) =>
+    limitPrice === undefined || (side === 'buy' ? price <= limitPrice : price >= limitPrice);
+
+  if (timeInForce === 'POST_ONLY' && opposite.some(maker => maker.owner === 'lp' && crosses(maker.price))) {
+    order.status = 'rejected';
+    order.reason = 'Post-only order would take liquidity';
+    return order;
+  }
+  if (timeInForce === 'FOK' && availableWithin(opposite, crosses) < order.requestedQty) {
+    order.reason = 'Fill-or-kill order could not fill in full';
+    return order;
+  }
+
+  let remaining = timeInForce === 'POST_ONLY' ? 0 : order.requestedQty;
+  for (const maker of opposite) {
+    if (remaining <= 0 || !crosses(maker.price)) break;
+    if (maker.owner !== 'lp') continue;
+    const fillQty = roundToStep(Math.min(remaining, maker.quantity), stepSize);
+    if (fillQty <= 0) continue;
+
+    maker.quantity -= fillQty;
+    remaining = roundToStep(remaining - fillQty, stepSize);
+    recordFill(order, { makerOrderId: maker.id, price: maker.price, quantity: fillQty, liquidity: 'taker' });
+  }
+
+  // Drop exhausted makers; dust below the lot size cannot trade either
+  const live = opposite.filter(maker => maker.quantity >= stepSize);
+  if (side === 'buy') {
+    book.asks = live;
+  } else {
+    book.bids = live;
+  }
+
+  order.filledQty = roundToStep(order.filledQty, stepSize);
+  const rests = (timeInForce === 'GTC' || timeInForce === 'POST_ONLY') && order.requestedQty - order.filledQty >= stepSize;
+  if (rests) {
+    const resting: RestingOrder = {
+      id: order.id,
+      owner: 'user',
+      side,
+      price: limitPrice!,
+      quantity: roundToStep(order.requestedQty - order.filledQty, stepSize),
+      seq: nextSeq++
+    };
+    if (side === 'buy') {
+      book.bids = [...book.bids, resting].sort(byBidPriority);
+    } else {
+      book.asks = [...book.asks, resting].sort(byAskPriority);
+    }
+    trackOrder(order);
+    settleResting(order, stepSize);
+  } else {
+    order.status = order.filledQty <= 0 ? 'cancelled' : order.filledQty < order.requestedQty ? 'partial' : 'filled';
+  }
+
+  return order;
+}
+
+/**
+ * Latest state of one of our orders, after bringing the book up to date
+ */
+export async function getSimulatedOrder(orderId: string): Promise<SimulatedOrder | null> {
+  const order = userOrders.get(orderId);
+  if (!order) return null;
+  await loadBook(order.symbol);
+  return order;
+}
+
+/**
+ * Take a resting order off the book; false if it is unknown or no longer resting
+ */
+export async function cancelSimulatedOrder(orderId: string): Promise<boolean> {
+  const order = await getSimulatedOrder(orderId);
+  if (!order || order.restingQty <= 0) return false;
+
+  const book = books.get(order.symbol);
+  if (book) {
+    book.bids = book.bids.filter(resting => resting.id !== orderId);
+    book.asks = book.asks.filter(resting => resting.id !== orderId);
+  }
+  order.restingQty = 0;
+  order.status = 'cancelled';
+  return true;
+}
+
+/**
+ * Forget every simulated book, e.g. between backtests
+ */
+export function resetSimulatedBooks(): void {
+  books.clear();
+  userOrders.clear();
+}
+
+/**
+ * Capture the books and our orders on them so a backtest can start from empty
+ * books and hand the live ones back afterwards
+ */
+export function snapshotSimulatedBooks(): SimulatedBooksSnapshot {
+  return { books: new Map(books), userOrders: new Map(userOrders) };
+}
+
+/**
+ * Reinstate books captured by snapshotSimulatedBooks
+ */
+export function restoreSimulatedBooks(snapshot: SimulatedBooksSnapshot): void {
+  resetSimulatedBooks();
+  snapshot.books.forEach((book, symbol) => books.set(symbol, book));
+  snapshot.userOrders.forEach((order, id) => userOrders.set(id, order));
+}
@@ -1,9 +1,41 @@
 // Mock Indian Exchange (WazirX, CoinDCX, etc.)
 
 import { getBinancePrices } from './binance';
-
-// Current USD to INR exchange rate (approximate)
-const USD_TO_INR = 83.5;
+import { getExchangeBalances } from '@/lib/state/ledger';
+import { random } from '@/lib/state/rng';
+import { isReplayActive, getReplayTicker, getReplayOrderBook } from './replay';
+import { normalizeSymbol, toVenueSymbol } from './symbols';
+import { getUsdInrRate } from './fx';
+import { getFeeRates, getTradingFee } from './fees';
+import {
+  cancelSimulatedOrder,
+  getSimulatedBook,
+  getSimulatedMid,
+  getSimulatedOrder,
+  submitSimulatedOrder,
+  type SimulatedOrder
+} from './indianBook';
+import { fillAgainstQuote } from './quoteFill';
+import { assertExchangeAvailable, isExchangeDown } from './simulation';
+import {
+  applyRequestFaults,
+  withStaleQuotes,
+  applyBookFaults,
+  applyOrderRejection,
+  applyFillFaults,
+  getActiveFaults
+} from './faults';
+import type {
+  ExchangeAdapter,
+  ExchangeBalance,
+  ExchangeFees,
+  ExchangeOrderBook,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeStatus,
+  ExchangeTicker,
+  TimeInForce
+} from './types';
 
 export interface IndianExchangePrice {
   symbol: string;
@@ -21,34 +53,25 @@ export interface IndianExchangeOrderBook {
 }
 
 /**
- * Generate mock price data for Indian exchanges (WazirX)
- * Simulates realistic price variations with premium/discount to global prices
- * Indian exchanges typically trade at 0.5-3% premium due to liquidity and INR conversion
+ * Current prices on the Indian exchange (WazirX)
+ * Quotes are the mid of the simulated order book, which liquidity providers
+ * keep at a 0.5-2.5% premium to Binance (liquidity and INR conversion)
  */
 export async function getIndianExchangePrices(symbols: string[]): Promise<IndianExchangePrice[]> {
   try {
-    // Get Binance prices as base reference
-    const binancePrices = await getBinancePrices(symbols);
+    const usdInr = getUsdInrRate();
+    const indianPrices: IndianExchangePrice[] = [];
     
-    const indianPrices: IndianExchangePrice[] = binancePrices.map(binancePrice => {
-      // Indian exchanges typically have 0.5% to 2.5% premium
-      const premiumPercentage = 0.5 + Math.random() * 2.0; // 0.5% to 2.5%
-      const premium = 1 + (premiumPercentage / 100);
-      
-      // Add small random variation (-0.2% to +0.2%)
-      const variation = 0.998 + Math.random() * 0.004;
-      
-      const priceUSD = binancePrice.price * premium * variation;
-      const priceINR = priceUSD * USD_TO_INR;
-      
-      return {
-        symbol: binancePrice.symbol,
+    for (const symbol of symbols) {
+      const priceUSD = await getIndianExchangePrice(symbol);
+      indianPrices.push({
+        symbol: normalizeSymbol(symbol),
         price: priceUSD,
-        priceInINR: priceINR,
+        priceInINR: priceUSD * usdInr,
         timestamp: new Date(),
         exchange: 'wazirx' as const
-      };
-    });
+      });
+    }
     
     return indianPrices;
   } catch (error) {
@@ -59,28 +82,30 @@ export async function getIndianExchangePrices(symbols: string[]): Promise<Indian
 
 /**
  * Get price for a single symbol from Indian exchange
- * Supports optional drift override for testing and simulation
+ * Supports optional drift override for testing and simulation, priced straight
+ * off Binance; otherwise the simulated book's mid, which an active
+ * premium-collapse fault or the /api/admin/simulate override pins
  */
 export async function getIndianExchangePrice(
   symbol: string, 
   opts?: { driftOverride?: number }
 ): Promise<number> {
   try {
-    // Get Binance price as base reference
+    // Serve recorded Indian quotes when the replay captured them
+    const recorded = isReplayActive() ? getReplayTicker('wazirx', symbol) : null;
+    if (recorded) {
+      return recorded.price;
+    }
+    
+    if (opts?.driftOverride === undefined) {
+      return await getSimulatedMid(symbol);
+    }
+    
     const binancePrices = await getBinancePrices([symbol]);
     if (binancePrices.length === 0) {
       throw new Error(`Failed to fetch base price for ${symbol}`);
     }
-    
-    const binancePrice = binancePrices[0].price;
-    
-    // Calculate drift: use override or random 0.5%-2.5% premium
-    const drift = typeof opts?.driftOverride === 'number' 
-      ? opts.driftOverride 
-      : (0.005 + Math.random() * 0.02); // 0.5% to 2.5%
-    
-    const price = binancePrice * (1 + drift);
-    return price;
+    return binancePrices[0].price * (1 + opts.driftOverride);
   } catch (error) {
     console.error('Error getting Indian exchange price:', error);
     throw error;
@@ -88,38 +113,24 @@ export async function getIndianExchangePrice(
 }
 
 /**
- * Generate mock order book for Indian exchanges
- * Creates realistic bid/ask spreads with lower liquidity than global exchanges
+ * Order book for Indian exchanges
+ * A snapshot of the simulated book, so it reflects liquidity our own orders took
  */
 export async function getIndianOrderBook(
   symbol: string,
   depth: number = 10
 ): Promise<{bids: [number, number][], asks: [number, number][]}> {
   try {
-    // Get Indian exchange price with drift
-    const midPrice = await getIndianExchangePrice(symbol);
-    
-    // Indian exchanges have wider spreads (0.1% to 0.5%)
-    const spreadPercent = 0.001 + Math.random() * 0.004; // 0.1% to 0.5%
-    
-    // Generate bids (lower prices)
-    const bids: [number, number][] = [];
-    for (let i = 0; i < depth; i++) {
-      const priceOffset = spreadPercent * (i + 1);
-      const price = midPrice * (1 - priceOffset);
-      const quantity = 0.1 + Math.random() * 5; // 0.1 to 5 BTC
-      bids.push([price, quantity]);
-    }
-    
-    // Generate asks (higher prices)
-    const asks: [number, number][] = [];
-    for (let i = 0; i < depth; i++) {
-      const priceOffset = spreadPercent * (i + 1);
-      const price = midPrice * (1 + priceOffset);
-      const quantity = 0.1 + Math.random() * 5;
-      asks.push([price, quantity]);
+    // Serve the recorded Indian book when the replay captured one
+    const recorded = isReplayActive() ? getReplayOrderBook('wazirx', symbol) : null;
+    if (recorded) {
+      return {
+        bids: recorded.bids.slice(0, depth),
+        asks: recorded.asks.slice(0, depth)
+      };
     }
     
+    const { bids, asks } = await getSimulatedBook(symbol, depth);
     return {
       bids,
       asks
@@ -167,74 +178,194 @@ export async function getIndianLiquidityEstimate(
   }
 }
 
+/**
+ * Shape a simulated book order as a trade result
+ * Fills that took liquidity pay the taker fee and fills made while resting the maker fee
+ */
+function toTradeResult(order: SimulatedOrder, type: 'market' | 'limit'): any {
+  const fees = order.fills.reduce(
+    (sum, fill) => sum + getTradingFee('wazirx', fill.price * fill.quantity, fill.liquidity).total,
+    0
+  );
+  const slippage = order.filledQty > 0 && order.midBefore > 0 ? Math.abs(order.avgPrice / order.midBefore - 1) : 0;
+  
+  const usdInr = getUsdInrRate();
+  return {
+    orderId: order.id,
+    symbol: order.symbol,
+    venueSymbol: toVenueSymbol(order.symbol, 'wazirx'),
+    side: order.side,
+    type,
+    quantity: order.requestedQty,
+    executedPrice: order.avgPrice,
+    executedPriceINR: order.avgPrice * usdInr,
+    executedQuantity: order.filledQty,
+    fees,
+    feesINR: fees * usdInr,
+    slippagePercent: slippage * 100,
+    status: order.status,
+    restingQuantity: order.restingQty,
+    heldByVenue: true,
+    timeInForce: order.timeInForce,
+    reason: order.reason,
+    timestamp: new Date(),
+    exchange: 'wazirx'
+  };
+}
+
 /**
  * Simulate trade execution on Indian exchange
- * Returns mock execution result
+ * Orders are submitted to the simulated book with their time in force, so
+ * limit orders can rest there. Under a replay with recorded Indian quotes the
+ * fill is modelled off the quote instead.
  */
 export async function executeIndianTrade(
   symbol: string,
   side: 'buy' | 'sell',
   quantity: number,
   type: 'market' | 'limit',
-  price?: number
+  price?: number,
+  timeInForce?: TimeInForce
 ): Promise<any> {
   // Simulate execution delay (100-500ms)
-  await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 400));
+  await new Promise(resolve => setTimeout(resolve, 100 + random() * 400));
   
-  // Get current price
-  const prices = await getIndianExchangePrices([symbol]);
-  if (prices.length === 0) {
-    throw new Error('Failed to get price for execution');
+  const recorded = isReplayActive() ? getReplayTicker('wazirx', symbol) : null;
+  if (!recorded) {
+    const order = await submitSimulatedOrder(symbol, side, quantity, {
+      limitPrice: type === 'limit' ? price : undefined,
+      timeInForce
+    });
+    return toTradeResult(order, type);
   }
   
-  const currentPrice = prices[0].price;
-  const executionPrice = price || currentPrice;
+  // Simulate slippage (0.05% to 0.2%) off the recorded quote
+  const fill = fillAgainstQuote({ side, quantity, type, price, timeInForce }, recorded.price, 0.0005 + random() * 0.0015);
   
-  // Simulate slippage (0.05% to 0.2%)
-  const slippage = 0.0005 + Math.random() * 0.0015;
-  const finalPrice = side === 'buy' 
-    ? executionPrice * (1 + slippage)
-    : executionPrice * (1 - slippage);
-  
-  // Simulate fees (0.1% to 0.2%)
-  const feePercent = 0.001 + Math.random() * 0.001;
-  const fees = finalPrice * quantity * feePercent;
+  // Mock orders always take liquidity
+  const fees = getTradingFee('wazirx', fill.executedPrice * fill.executedQuantity, 'taker').total;
   
+  const usdInr = getUsdInrRate();
   return {
     orderId: `WAZIRX_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    symbol: symbol.replace('/', '').toUpperCase(),
+    symbol: normalizeSymbol(symbol),
+    venueSymbol: toVenueSymbol(symbol, 'wazirx'),
     side,
     type,
     quantity,
-    executedPrice: finalPrice,
-    executedPriceINR: finalPrice * USD_TO_INR,
-    executedQuantity: quantity,
+    executedPrice: fill.executedPrice,
+    executedPriceINR: fill.executedPrice * usdInr,
+    executedQuantity: fill.executedQuantity,
     fees,
-    feesINR: fees * USD_TO_INR,
-    slippagePercent: slippage * 100,
-    status: 'filled',
+    feesINR: fees * usdInr,
+    slippagePercent: fill.slippage * 100,
+    status: fill.status,
+    restingQuantity: fill.restingQuantity,
+    reason: fill.reason,
     timestamp: new Date(),
     exchange: 'wazirx'
   };
 }
 
 /**
- * Get INR conversion rate
+ * Get INR conversion rate (the reference USD/INR rate prices are quoted at)
  */
 export function getINRConversionRate(): number {
-  return USD_TO_INR;
+  return getUsdInrRate();
 }
 
 /**
  * Convert USD to INR
  */
 export function convertToINR(usdAmount: number): number {
-  return usdAmount * USD_TO_INR;
+  return usdAmount * getUsdInrRate();
 }
 
 /**
  * Convert INR to USD
  */
 export function convertToUSD(inrAmount: number): number {
-  return inrAmount / USD_TO_INR;
+  return inrAmount / getUsdInrRate();
 }
+
+/**
+ * Indian exchange adapter for the exchange registry
+ * Fully simulated: a persistent order book quoted around Binance with a premium;
+ * orders match against it and limit orders can rest there
+ */
+export const indianExchangeAdapter: ExchangeAdapter = {
+  id: 'wazirx',
+  name: 'WazirX (mock)',
+  aliases: ['indian', 'indian_mock', 'india'],
+  simulated: true,
+  settlementAsset: 'INR',
+
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    assertExchangeAvailable('wazirx');
+    await applyRequestFaults('wazirx');
+    return withStaleQuotes('wazirx', `ticker:${symbol}`, async () => ({
+      exchange: 'wazirx',
+      symbol: normalizeSymbol(symbol),
+      price: await getIndianExchangePrice(symbol),
+      timestamp: new Date()
+    }));
+  },
+
+  async getOrderBook(symbol: string, depth: number = 10): Promise<ExchangeOrderBook> {
+    assertExchangeAvailable('wazirx');
+    await applyRequestFaults('wazirx');
+    const orderbook = await withStaleQuotes('wazirx', `book:${symbol}:${depth}`, async () => ({
+      exchange: 'wazirx',
+      symbol: normalizeSymbol(symbol),
+      ...await getIndianOrderBook(symbol, depth),
+      timestamp: new Date()
+    }));
+    return applyBookFaults('wazirx', orderbook);
+  },
+
+  async placeOrder(order: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    assertExchangeAvailable('wazirx');
+    await applyRequestFaults('wazirx');
+    applyOrderRejection('wazirx');
+    const result = await executeIndianTrade(
+      order.symbol, order.side, order.quantity, order.type, order.price, order.timeInForce
+    );
+    return applyFillFaults('wazirx', result);
+  },
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    assertExchangeAvailable('wazirx');
+    return cancelSimulatedOrder(orderId);
+  },
+
+  async getOrder(orderId: string): Promise<ExchangeOrderResult> {
+    assertExchangeAvailable('wazirx');
+    const order = await getSimulatedOrder(orderId);
+    if (!order) {
+      throw new Error(`Unknown WazirX order: ${orderId}`);
+    }
+    return toTradeResult(order, order.price === undefined ? 'market' : 'limit');
+  },
+
+  async getBalances(): Promise<ExchangeBalance[]> {
+    // Simulated venues report their paper balances from the ledger
+    return getExchangeBalances('wazirx').map(b => ({ asset: b.asset, free: b.balance, locked: 0 }));
+  },
+
+  getFees(): ExchangeFees {
+    return getFeeRates('wazirx');
+  },
+
+  async getStatus(): Promise<ExchangeStatus> {
+    if (isExchangeDown('wazirx')) {
+      return { online: false, message: 'Simulated outage' };
+    }
+    
+    const faults = getActiveFaults('wazirx');
+    return {
+      online: true,
+      latencyMs: faults.find(f => f.fault === 'latency')?.params?.latencyMs ?? 0,
+      message: faults.length > 0 ? `Simulated faults: ${faults.map(f => f.fault).join(', ')}` : undefined
+    };
+  }
+};
@@ -2,6 +2,33 @@
 
 import fs from 'fs';
 import path from 'path';
+import { getExchangeBalances } from '@/lib/state/ledger';
+import { random } from '@/lib/state/rng';
+import type {
+  ExchangeAdapter,
+  ExchangeBalance,
+  ExchangeFees,
+  ExchangeOrderBook,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeStatus,
+  ExchangeTicker,
+  TimeInForce
+} from './types';
+import { isReplayActive, getReplayTicker, getReplayOrderBook } from './replay';
+import { normalizeSymbol } from './symbols';
+import { getFeeRates, getTradingFee } from './fees';
+import { fillAgainstQuote } from './quoteFill';
+import { assertExchangeAvailable, isExchangeDown } from './simulation';
+import {
+  applyRequestFaults,
+  withStaleQuotes,
+  applyBookFaults,
+  applyOrderRejection,
+  applyFillFaults,
+  getFaultDrift,
+  getActiveFaults
+} from './faults';
 
 export interface NSEPrice {
   symbol: string;
@@ -80,7 +107,7 @@ function getCachedNSEData(): NSEDataFile | null {
  */
 function applyPriceVariation(basePrice: number, volatilityPercent: number = 0.3): number {
   // Random walk: -0.3% to +0.3% variation
-  const variation = (Math.random() - 0.5) * 2 * (volatilityPercent / 100);
+  const variation = (random() - 0.5) * 2 * (volatilityPercent / 100);
   return basePrice * (1 + variation);
 }
 
@@ -147,6 +174,12 @@ export async function getNSEPrice(
   opts?: { driftOverride?: number }
 ): Promise<number> {
   try {
+    // Serve recorded NSE quotes when the replay captured them
+    const recorded = isReplayActive() ? getReplayTicker('nse', symbol) : null;
+    if (recorded) {
+      return recorded.price;
+    }
+    
     // Check if this is a crypto symbol (contains USDT, BTC, ETH, etc.)
     const isCrypto = /USDT|BTC|ETH/i.test(symbol);
     
@@ -161,10 +194,11 @@ export async function getNSEPrice(
       
       const binancePrice = binancePrices[0].price;
       
-      // Small drift: 0.2% to 1%
-      const drift = typeof opts?.driftOverride === 'number'
-        ? opts.driftOverride
-        : (0.002 + Math.random() * 0.008); // 0.2% to 1%
+      // Small drift: 0.2% to 1%, unless overridden or collapsed by a fault
+      const driftOverride = opts?.driftOverride ?? getFaultDrift('nse');
+      const drift = typeof driftOverride === 'number'
+        ? driftOverride
+        : (0.002 + random() * 0.008); // 0.2% to 1%
       
       return binancePrice * (1 + drift);
     } else {
@@ -187,17 +221,28 @@ export async function getNSEPrice(
  */
 export async function getNSEOrderBook(symbol: string): Promise<NSEOrderBook | null> {
   try {
+    // Serve the recorded NSE book when the replay captured one
+    const recorded = isReplayActive() ? getReplayOrderBook('nse', symbol) : null;
+    if (recorded) {
+      return {
+        symbol: normalizeSymbol(symbol),
+        bids: recorded.bids,
+        asks: recorded.asks,
+        timestamp: new Date(recorded.ts)
+      };
+    }
+    
     const basePrice = await getNSEPrice(symbol);
     
     // NSE spreads are typically 0.05% to 0.15%
-    const spreadPercent = 0.0005 + Math.random() * 0.001;
+    const spreadPercent = 0.0005 + random() * 0.001;
     
     // Generate bids (lower prices)
     const bids: [number, number][] = [];
     for (let i = 0; i < 20; i++) {
       const priceOffset = spreadPercent * (i + 1) / 2;
       const bidPrice = basePrice * (1 - priceOffset);
-      const quantity = Math.floor(10 + Math.random() * 500); // Lot sizes
+      const quantity = Math.floor(10 + random() * 500); // Lot sizes
       bids.push([bidPrice, quantity]);
     }
     
@@ -206,12 +251,12 @@ export async function getNSEOrderBook(symbol: string): Promise<NSEOrderBook | nu
     for (let i = 0; i < 20; i++) {
       const priceOffset = spreadPercent * (i + 1) / 2;
       const askPrice = basePrice * (1 + priceOffset);
-      const quantity = Math.floor(10 + Math.random() * 500);
+      const quantity = Math.floor(10 + random() * 500);
       asks.push([askPrice, quantity]);
     }
     
     return {
-      symbol: symbol.toUpperCase(),
+      symbol: normalizeSymbol(symbol),
       bids,
       asks,
       timestamp: new Date()
@@ -231,7 +276,8 @@ export async function executeNSETrade(
   side: 'buy' | 'sell',
   quantity: number,
   type: 'market' | 'limit',
-  price?: number
+  price?: number,
+  timeInForce?: TimeInForce
 ): Promise<any> {
   // Check if market is open (9:15 AM to 3:30 PM IST on weekdays)
   const now = new Date();
@@ -248,37 +294,36 @@ export async function executeNSETrade(
   }
   
   // Simulate execution delay (50-200ms)
-  await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 150));
+  await new Promise(resolve => setTimeout(resolve, 50 + random() * 150));
   
   const currentPrice = await getNSEPrice(symbol);
-  const executionPrice = price || currentPrice;
   
-  // Simulate slippage (0.02% to 0.08%)
-  const slippage = 0.0002 + Math.random() * 0.0006;
-  const finalPrice = side === 'buy' 
-    ? executionPrice * (1 + slippage)
-    : executionPrice * (1 - slippage);
+  // Simulate slippage (0.02% to 0.08%); limit orders fill only once the price reaches them
+  const fill = fillAgainstQuote({ side, quantity, type, price, timeInForce }, currentPrice, 0.0002 + random() * 0.0006);
   
-  // NSE charges: STT (0.025% for delivery) + brokerage (0.03%)
-  const stt = finalPrice * quantity * 0.00025;
-  const brokerage = finalPrice * quantity * 0.0003;
-  const totalFees = stt + brokerage;
+  // NSE charges: brokerage plus STT, from the fee schedule
+  const charge = getTradingFee('nse', fill.executedPrice * fill.executedQuantity, 'taker');
+  const stt = charge.levies.stt ?? 0;
+  const brokerage = charge.commission;
+  const totalFees = charge.total;
   
   return {
     orderId: `NSE_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    symbol: symbol.toUpperCase(),
+    symbol: normalizeSymbol(symbol),
     side,
     type,
     quantity,
-    executedPrice: finalPrice,
-    executedQuantity: quantity,
+    executedPrice: fill.executedPrice,
+    executedQuantity: fill.executedQuantity,
     fees: totalFees,
     breakdown: {
       stt,
       brokerage
     },
-    slippagePercent: slippage * 100,
-    status: 'filled',
+    slippagePercent: fill.slippage * 100,
+    status: fill.status,
+    restingQuantity: fill.restingQuantity,
+    reason: fill.reason,
     timestamp: new Date(),
     exchange: 'nse',
     settlementType: 'T+2' // NSE settlement cycle
@@ -308,3 +353,80 @@ export function getAllNSESymbols(): string[] {
   const nseData = getCachedNSEData();
   return nseData ? nseData.stocks.map(s => s.symbol) : [];
 }
+
+/**
+ * NSE adapter for the exchange registry
+ * Fully simulated; orders are rejected outside market hours
+ */
+export const nseAdapter: ExchangeAdapter = {
+  id: 'nse',
+  name: 'NSE (mock)',
+  simulated: true,
+  settlementAsset: 'INR',
+
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    assertExchangeAvailable('nse');
+    await applyRequestFaults('nse');
+    return withStaleQuotes('nse', `ticker:${symbol}`, async () => ({
+      exchange: 'nse',
+      symbol: normalizeSymbol(symbol),
+      price: await getNSEPrice(symbol),
+      timestamp: new Date()
+    }));
+  },
+
+  async getOrderBook(symbol: string): Promise<ExchangeOrderBook> {
+    assertExchangeAvailable('nse');
+    await applyRequestFaults('nse');
+    const orderbook = await withStaleQuotes('nse', `book:${symbol}`, async () => {
+      const book = await getNSEOrderBook(symbol);
+      if (!book) {
+        throw new Error(`Failed to generate NSE orderbook for ${symbol}`);
+      }
+      return { exchange: 'nse', ...book };
+    });
+    return applyBookFaults('nse', orderbook);
+  },
+
+  async placeOrder(order: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    assertExchangeAvailable('nse');
+    await applyRequestFaults('nse');
+    applyOrderRejection('nse');
+    const result = await executeNSETrade(
+      order.symbol, order.side, order.quantity, order.type, order.price, order.timeInForce
+    );
+    return applyFillFaults('nse', result);
+  },
+
+  async cancelOrder(): Promise<boolean> {
+    // The mock keeps no book; resting limit orders are tracked by the execution engine
+    return false;
+  },
+
+  async getBalances(): Promise<ExchangeBalance[]> {
+    // Simulated venues report their paper balances from the ledger
+    return getExchangeBalances('nse').map(b => ({ asset: b.asset, free: b.balance, locked: 0 }));
+  },
+
+  getFees(): ExchangeFees {
+    // Brokerage + STT
+    return getFeeRates('nse');
+  },
+
+  async getStatus(): Promise<ExchangeStatus> {
+    if (isExchangeDown('nse')) {
+      return { online: false, message: 'Simulated outage' };
+    }
+    
+    const faults = getActiveFaults('nse');
+    const notes = [
+      isNSEMarketOpen() ? null : 'Market closed',
+      faults.length > 0 ? `Simulated faults: ${faults.map(f => f.fault).join(', ')}` : null
+    ].filter(Boolean);
+    return {
+      online: true,
+      latencyMs: faults.find(f => f.fault === 'latency')?.params?.latencyMs ?? 0,
+      message: notes.length > 0 ? notes.join('; ') : undefined
+    };
+  }
+};
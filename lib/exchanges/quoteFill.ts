@@ -0,0 +1,76 @@
+/**
+ * Quote Fill Model
+ * Time-in-force rules for venues simulated off a single reference price
+ * rather than a book: NSE, replayed Indian quotes and Binance without testnet
+ * keys. A marketable order fills in full at the quote plus slippage, never
+ * past its limit; one that is not marketable is cancelled (IOC, FOK) or left
+ * resting (GTC, POST_ONLY) for the caller to track.
+ */
+
+import type { ExchangeOrderRequest, OrderStatus, TimeInForce } from './types';
+
+export interface QuoteFill {
+  status: OrderStatus;
+  executedPrice: number; // 0 when nothing filled
+  executedQuantity: number;
+  restingQuantity: number;
+  slippage: number; // fraction actually paid
+  reason?: string; // why it was rejected or cancelled
+}
+
+/**
+ * Time in force an order runs under: market orders are always IOC
+ */
+export function effectiveTimeInForce(order: Pick<ExchangeOrderRequest, 'type' | 'timeInForce'>): TimeInForce {
+  return order.type === 'market' ? 'IOC' : order.timeInForce ?? 'GTC';
+}
+
+/**
+ * Whether a quote is at or better than a limit for the given side
+ */
+export function crossesLimit(side: 'buy' | 'sell', quote: number, limitPrice: number): boolean {
+  return side === 'buy' ? quote <= limitPrice : quote >= limitPrice;
+}
+
+export function fillAgainstQuote(
+  order: Pick<ExchangeOrderRequest, 'side' | 'quantity' | 'type' | 'price' | 'timeInForce'>,
+  quote: number,
+  slippage: number
+): QuoteFill {
+  const timeInForce = effectiveTimeInForce(order);
+  const limitPrice = order.type === 'limit' ? order.price : undefined;
+  if (order.type === 'limit' && limitPrice === undefined) {
+    return { status: 'rejected', executedPrice: 0, executedQuantity: 0, restingQuantity: 0, slippage: 0, reason: 'Limit orders need a price' };
+  }
+
+  const marketable = limitPrice === undefined || crossesLimit(order.side, quote, limitPrice);
+
+  if (timeInForce === 'POST_ONLY' && marketable) {
+    return { status: 'rejected', executedPrice: 0, executedQuantity: 0, restingQuantity: 0, slippage: 0, reason: 'Post-only order would take liquidity' };
+  }
+
+  if (!marketable || timeInForce === 'POST_ONLY') {
+    const rests = timeInForce === 'GTC' || timeInForce === 'POST_ONLY';
+    return {
+      status: rests ? 'open' : 'cancelled',
+      executedPrice: 0,
+      executedQuantity: 0,
+      restingQuantity: rests ? order.quantity : 0,
+      slippage: 0,
+      reason: rests ? undefined : 'Limit price not reached'
+    };
+  }
+
+  const slipped = order.side === 'buy' ? quote * (1 + slippage) : quote * (1 - slippage);
+  const executedPrice = limitPrice === undefined
+    ? slipped
+    : order.side === 'buy' ? Math.min(slipped, limitPrice) : Math.max(slipped, limitPrice);
+
+  return {
+    status: 'filled',
+    executedPrice,
+    executedQuantity: order.quantity,
+    restingQuantity: 0,
+    slippage: Math.abs(executedPrice / quote - 1)
+  };
+}
@@ -0,0 +1,113 @@
+// Exchange Registry - single lookup point for all exchange adapters
+
+import { binanceAdapter } from './binance';
+import { indianExchangeAdapter } from './indianMock';
+import { nseAdapter } from './nseMock';
+import type { ExchangeAdapter } from './types';
+
+const adapters: Map<string, ExchangeAdapter> = new Map();
+const aliasIndex: Map<string, string> = new Map();
+let builtinsRegistered = false;
+
+/**
+ * Register the built-in venues on first use rather than at import time: the
+ * adapters import modules that import this registry, so an adapter module
+ * loaded first would otherwise still be mid-evaluation here
+ */
+function ensureBuiltins(): void {
+  if (builtinsRegistered) return;
+  builtinsRegistered = true;
+  registerExchange(binanceAdapter);
+  registerExchange(indianExchangeAdapter);
+  registerExchange(nseAdapter);
+}
+
+/**
+ * Register an exchange adapter
+ * Replaces any adapter previously registered under the same id
+ */
+export function registerExchange(adapter: ExchangeAdapter): void {
+  ensureBuiltins();
+  const id = adapter.id.toLowerCase();
+  adapters.set(id, adapter);
+  aliasIndex.set(id, id);
+
+  for (const alias of adapter.aliases || []) {
+    aliasIndex.set(alias.toLowerCase(), id);
+  }
+}
+
+/**
+ * Remove an exchange adapter and its aliases
+ */
+export function unregisterExchange(id: string): void {
+  ensureBuiltins();
+  const key = id.toLowerCase();
+  adapters.delete(key);
+
+  for (const [alias, target] of Array.from(aliasIndex.entries())) {
+    if (target === key) {
+      aliasIndex.delete(alias);
+    }
+  }
+}
+
+/**
+ * Look up an adapter by id or alias (case-insensitive)
+ */
+export function findExchange(idOrAlias: string): ExchangeAdapter | null {
+  ensureBuiltins();
+  const id = aliasIndex.get(idOrAlias.toLowerCase());
+  return id ? adapters.get(id) || null : null;
+}
+
+/**
+ * Look up an adapter by id or alias, throwing if it is not registered
+ */
+export function getExchange(idOrAlias: string): ExchangeAdapter {
+  const adapter = findExchange(idOrAlias);
+  if (!adapter) {
+    throw new Error(`Unknown exchange: ${idOrAlias}`);
+  }
+  return adapter;
+}
+
+/**
+ * List all registered adapters in registration order
+ */
+export function listExchanges(): ExchangeAdapter[] {
+  ensureBuiltins();
+  return Array.from(adapters.values());
+}
+
+/**
+ * Estimate fillable quantity and average price for a market order
+ * Walks asks for buys and bids for sells
+ */
+export async function estimateLiquidity(
+  idOrAlias: string,
+  symbol: string,
+  targetQty: number,
+  side: 'buy' | 'sell' = 'buy'
+): Promise<{fillableQty: number, expectedAvgPrice: number}> {
+  const orderbook = await getExchange(idOrAlias).getOrderBook(symbol, 20);
+  const levels = side === 'buy' ? orderbook.asks : orderbook.bids;
+
+  let remainingQty = targetQty;
+  let totalCost = 0;
+  let filledQty = 0;
+
+  for (const [price, qty] of levels) {
+    if (remainingQty <= 0) break;
+
+    const fillQty = Math.min(remainingQty, qty);
+    totalCost += price * fillQty;
+    filledQty += fillQty;
+    remainingQty -= fillQty;
+  }
+
+  return {
+    fillableQty: filledQty,
+    expectedAvgPrice: filledQty > 0 ? totalCost / filledQty : 0
+  };
+}
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startReplay, stopReplay, type ReplayRecord } from './replay';
+
+test('a long recording loads with its first and last timestamps', () => {
+  // Recorded out of order, and long enough to overflow a spread into Math.min
+  const count = 300_000;
+  const records: ReplayRecord[] = Array.from({ length: count }, (_, i) => ({
+    ts: 1_700_000_000_000 + ((i * 7919) % count) * 1000,
+    type: 'ticker',
+    exchange: i % 2 === 0 ? 'binance' : 'wazirx',
+    symbol: 'BTCUSDT',
+    price: 60_000 + (i % 100)
+  }));
+
+  try {
+    const status = startReplay(records);
+    assert.equal(status.recordCount, count);
+    assert.equal(status.startTs, 1_700_000_000_000);
+    assert.equal(status.endTs, 1_700_000_000_000 + (count - 1) * 1000);
+    assert.equal(status.now, status.startTs);
+  } finally {
+    stopReplay();
+  }
+});
@@ -0,0 +1,290 @@
+// Replay Exchange - serves recorded ticks and order books on a virtual clock
+
+import fs from 'fs';
+import path from 'path';
+import { normalizeSymbol } from './symbols';
+
+export interface ReplayTicker {
+  ts: number;
+  type: 'ticker';
+  exchange: string;
+  symbol: string;
+  price: number;
+  volume?: number;
+}
+
+export interface ReplayDepth {
+  ts: number;
+  type: 'depth';
+  exchange: string;
+  symbol: string;
+  bids: [number, number][];
+  asks: [number, number][];
+}
+
+export type ReplayRecord = ReplayTicker | ReplayDepth;
+
+export interface ReplayStatus {
+  active: boolean;
+  source?: string;
+  recordCount: number;
+  startTs?: number;
+  endTs?: number;
+  now?: number;
+  finished: boolean;
+}
+
+export interface ReplaySession {
+  source: string;
+  // Records grouped by `${type}:${exchange}:${symbol}` and sorted by ts
+  series: Map<string, ReplayRecord[]>;
+  recordCount: number;
+  startTs: number;
+  endTs: number;
+  now: number;
+}
+
+let session: ReplaySession | null = null;
+let envChecked = false;
+
+function seriesKey(type: ReplayRecord['type'], exchange: string, symbol: string): string {
+  return `${type}:${exchange.toLowerCase()}:${normalizeSymbol(symbol)}`;
+}
+
+/**
+ * Parse JSON Lines: one ticker or depth record per line
+ */
+function parseJsonLines(content: string): ReplayRecord[] {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'))
+    .map(line => JSON.parse(line) as ReplayRecord);
+}
+
+/**
+ * Parse CSV with header `ts,type,exchange,symbol,side,price,qty`
+ * Ticker rows leave `side` empty; depth rows hold one level each and are
+ * grouped into a snapshot by (ts, exchange, symbol)
+ */
+function parseCsv(content: string): ReplayRecord[] {
+  const lines = content.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(h => h.trim());
+  const col = (name: string) => header.indexOf(name);
+
+  const records: ReplayRecord[] = [];
+  const depthSnapshots: Map<string, ReplayDepth> = new Map();
+
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(c => c.trim());
+    const ts = Number(cells[col('ts')]);
+    const type = cells[col('type')];
+    const exchange = cells[col('exchange')].toLowerCase();
+    const symbol = normalizeSymbol(cells[col('symbol')]);
+    const price = parseFloat(cells[col('price')]);
+
+    if (type === 'ticker') {
+      const volume = col('qty') >= 0 && cells[col('qty')] ? parseFloat(cells[col('qty')]) : undefined;
+      records.push({ ts, type: 'ticker', exchange, symbol, price, volume });
+    } else if (type === 'depth') {
+      const key = `${ts}:${exchange}:${symbol}`;
+      let snapshot = depthSnapshots.get(key);
+      if (!snapshot) {
+        snapshot = { ts, type: 'depth', exchange, symbol, bids: [], asks: [] };
+        depthSnapshots.set(key, snapshot);
+        records.push(snapshot);
+      }
+      const level: [number, number] = [price, parseFloat(cells[col('qty')])];
+      if (cells[col('side')] === 'bid') {
+        snapshot.bids.push(level);
+      } else {
+        snapshot.asks.push(level);
+      }
+    }
+  }
+
+  // Keep books ordered best-first like live depth responses
+  for (const snapshot of Array.from(depthSnapshots.values())) {
+    snapshot.bids.sort((a, b) => b[0] - a[0]);
+    snapshot.asks.sort((a, b) => a[0] - b[0]);
+  }
+
+  return records;
+}
+
+/**
+ * Start a replay session from in-memory records
+ * The virtual clock starts at the first recorded timestamp
+ */
+export function startReplay(records: ReplayRecord[], source: string = 'memory'): ReplayStatus {
+  if (records.length === 0) {
+    throw new Error('Replay requires at least one record');
+  }
+
+  // Tracked in the loop: spreading a long recording into Math.min/max
+  // overflows the call stack
+  let startTs = Infinity;
+  let endTs = -Infinity;
+  const series: Map<string, ReplayRecord[]> = new Map();
+  for (const record of records) {
+    startTs = Math.min(startTs, record.ts);
+    endTs = Math.max(endTs, record.ts);
+    const key = seriesKey(record.type, record.exchange, record.symbol);
+    if (!series.has(key)) {
+      series.set(key, []);
+    }
+    series.get(key)!.push({
+      ...record,
+      exchange: record.exchange.toLowerCase(),
+      symbol: normalizeSymbol(record.symbol)
+    });
+  }
+
+  series.forEach(list => list.sort((a, b) => a.ts - b.ts));
+
+  session = {
+    source,
+    series,
+    recordCount: records.length,
+    startTs,
+    endTs,
+    now: startTs
+  };
+
+  console.log(`[Replay] Loaded ${records.length} records from ${source}`);
+  return getReplayStatus();
+}
+
+/**
+ * Load a recording from disk (.jsonl / .ndjson or .csv)
+ */
+export function loadReplayFile(filePath: string): ReplayStatus {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  const content = fs.readFileSync(resolved, 'utf-8');
+  const records = resolved.toLowerCase().endsWith('.csv')
+    ? parseCsv(content)
+    : parseJsonLines(content);
+
+  return startReplay(records, resolved);
+}
+
+/**
+ * Stop replaying and fall back to live data
+ */
+export function stopReplay(): void {
+  session = null;
+}
+
+/**
+ * Capture the active session so a caller can borrow the replay and hand it back
+ */
+export function snapshotReplay(): ReplaySession | null {
+  return session ? { ...session } : null;
+}
+
+/**
+ * Reinstate a session captured by snapshotReplay (null clears replay)
+ */
+export function restoreReplay(snapshot: ReplaySession | null): void {
+  session = snapshot ? { ...snapshot } : null;
+}
+
+/**
+ * Whether prices and books are currently served from a recording
+ * Loads EXCHANGE_REPLAY_FILE on first call if it is set
+ */
+export function isReplayActive(): boolean {
+  if (!envChecked) {
+    envChecked = true;
+    const envFile = process.env.EXCHANGE_REPLAY_FILE;
+    if (envFile && !session) {
+      try {
+        loadReplayFile(envFile);
+      } catch (error) {
+        console.error(`[Replay] Failed to load ${envFile}:`, error);
+      }
+    }
+  }
+  return session !== null;
+}
+
+/**
+ * Current virtual time in ms (wall clock when no replay is active)
+ */
+export function getReplayTime(): number {
+  return session ? session.now : Date.now();
+}
+
+/**
+ * Advance the virtual clock
+ */
+export function advanceReplayClock(ms: number): number {
+  if (!session) return Date.now();
+  session.now += ms;
+  return session.now;
+}
+
+/**
+ * Jump the virtual clock to an absolute timestamp
+ */
+export function seekReplay(ts: number): number {
+  if (!session) return Date.now();
+  session.now = ts;
+  return session.now;
+}
+
+export function getReplayStatus(): ReplayStatus {
+  if (!session) {
+    return { active: false, recordCount: 0, finished: false };
+  }
+  return {
+    active: true,
+    source: session.source,
+    recordCount: session.recordCount,
+    startTs: session.startTs,
+    endTs: session.endTs,
+    now: session.now,
+    finished: session.now >= session.endTs
+  };
+}
+
+/**
+ * Latest record in a series at or before the virtual clock
+ */
+function latestAt<T extends ReplayRecord>(key: string): T | null {
+  if (!session) return null;
+  const list = session.series.get(key);
+  if (!list || list.length === 0) return null;
+
+  // Binary search for the last record with ts <= now
+  let lo = 0;
+  let hi = list.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].ts <= session.now) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found >= 0 ? (list[found] as T) : null;
+}
+
+/**
+ * Recorded ticker for an exchange/symbol at the current virtual time
+ */
+export function getReplayTicker(exchange: string, symbol: string): ReplayTicker | null {
+  return latestAt<ReplayTicker>(seriesKey('ticker', exchange, symbol));
+}
+
+/**
+ * Recorded order book for an exchange/symbol at the current virtual time
+ */
+export function getReplayOrderBook(exchange: string, symbol: string): ReplayDepth | null {
+  return latestAt<ReplayDepth>(seriesKey('depth', exchange, symbol));
+}
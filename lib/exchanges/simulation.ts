@@ -0,0 +1,92 @@
+/**
+ * Simulation Controls
+ * Runtime overrides set through /api/admin/simulate and consulted by the
+ * exchange adapters, the guardian and the runner
+ */
+
+import { findExchange } from './registry';
+import { hasOutageFault } from './faults';
+
+export interface SimulationControls {
+  indianDriftOverride: number | null; // fraction, e.g. 0.02 = 2% premium over Binance
+  exchangeOutages: string[]; // adapter ids
+  pollIntervalOverride: number | null; // ms
+}
+
+export const MIN_POLL_INTERVAL_MS = 500;
+
+let controls: SimulationControls = {
+  indianDriftOverride: null,
+  exchangeOutages: [],
+  pollIntervalOverride: null,
+};
+
+/**
+ * Resolve an id or alias ('india', 'binance_testnet') to the adapter id
+ */
+function resolveExchangeId(idOrAlias: string): string {
+  return findExchange(idOrAlias)?.id ?? idOrAlias.toLowerCase();
+}
+
+export function getSimulationControls(): SimulationControls {
+  return { ...controls, exchangeOutages: [...controls.exchangeOutages] };
+}
+
+export function setIndianDriftOverride(drift: number | null): void {
+  controls.indianDriftOverride = drift;
+}
+
+export function getIndianDriftOverride(): number | undefined {
+  return controls.indianDriftOverride ?? undefined;
+}
+
+/**
+ * Mark an exchange as down or back up; returns false when nothing changed
+ */
+export function setExchangeOutage(idOrAlias: string, down: boolean): boolean {
+  const id = resolveExchangeId(idOrAlias);
+  const isDown = controls.exchangeOutages.includes(id);
+
+  if (down === isDown) return false;
+
+  controls.exchangeOutages = down
+    ? [...controls.exchangeOutages, id]
+    : controls.exchangeOutages.filter(existing => existing !== id);
+  return true;
+}
+
+/**
+ * Down when an outage was set directly or a loaded fault scenario has one active
+ */
+export function isExchangeDown(idOrAlias: string): boolean {
+  const id = resolveExchangeId(idOrAlias);
+  return controls.exchangeOutages.includes(id) || hasOutageFault(id);
+}
+
+/**
+ * Throw when an outage is being simulated for the exchange
+ */
+export function assertExchangeAvailable(idOrAlias: string): void {
+  if (isExchangeDown(idOrAlias)) {
+    throw new Error(`Simulated outage: ${resolveExchangeId(idOrAlias)} is unavailable`);
+  }
+}
+
+export function setPollIntervalOverride(pollMs: number | null): void {
+  if (pollMs !== null && pollMs < MIN_POLL_INTERVAL_MS) {
+    throw new Error(`Poll interval must be at least ${MIN_POLL_INTERVAL_MS}ms`);
+  }
+  controls.pollIntervalOverride = pollMs;
+}
+
+export function getPollIntervalOverride(): number | undefined {
+  return controls.pollIntervalOverride ?? undefined;
+}
+
+export function resetSimulationControls(): void {
+  controls = {
+    indianDriftOverride: null,
+    exchangeOutages: [],
+    pollIntervalOverride: null,
+  };
+}
@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeOrder } from './symbols';
+
+test('limit prices round down to the tick for buys and up for sells', () => {
+  assert.equal(normalizeOrder('binance', 'BTCUSDT', 'buy', 0.01, 60000.019).price, 60000.01);
+  assert.equal(normalizeOrder('binance', 'BTCUSDT', 'sell', 0.01, 60000.011).price, 60000.02);
+
+  // Prices already on the tick stay put either way
+  assert.equal(normalizeOrder('binance', 'BTCUSDT', 'buy', 0.01, 60000.01).price, 60000.01);
+  assert.equal(normalizeOrder('binance', 'XRPUSDT', 'sell', 100, 0.5129).price, 0.5129);
+  assert.equal(normalizeOrder('wazirx', 'ETHBTC', 'sell', 1, 0.05).price, 0.05);
+});
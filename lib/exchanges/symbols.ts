@@ -0,0 +1,232 @@
+/**
+ * Symbol Registry
+ * Canonical symbols (Binance style, e.g. BTCUSDT; NSE tickers as-is), their
+ * venue-native names (BTC/INR on WazirX) and per-venue order filters. Every
+ * order path rounds and validates its quantity here before submission.
+ */
+
+import { getSymbolFilters as fetchBinanceFilters, isTestnetConfigured } from './binanceTestnet';
+
+export interface SymbolFilters {
+  tickSize: number; // price increment, in the price units the venue quotes
+  stepSize: number; // quantity increment
+  minQty: number;
+  maxQty?: number;
+  minNotional: number; // minimum price * quantity
+}
+
+export interface InstrumentSpec {
+  canonical: string;
+  baseAsset: string;
+  quoteAsset: string; // quote of the canonical symbol
+  kind: 'crypto' | 'equity';
+}
+
+export interface NormalizedOrder {
+  symbol: string; // canonical
+  venueSymbol: string;
+  quantity: number;
+  price?: number;
+}
+
+// Crypto pairs the agents trade, keyed by canonical symbol; pairs without a
+// quote asset are quoted in USDT. Cross pairs carry their own minimum order
+// value in the quote coin, since the venues' minimums are in USDT
+const CRYPTO_INSTRUMENTS: Record<string, {
+  baseAsset: string;
+  quoteAsset?: string;
+  stepSize: number;
+  tickSize: number;
+  minNotional?: number;
+}> = {
+  BTCUSDT: { baseAsset: 'BTC', stepSize: 0.00001, tickSize: 0.01 },
+  ETHUSDT: { baseAsset: 'ETH', stepSize: 0.0001, tickSize: 0.01 },
+  BNBUSDT: { baseAsset: 'BNB', stepSize: 0.001, tickSize: 0.01 },
+  SOLUSDT: { baseAsset: 'SOL', stepSize: 0.001, tickSize: 0.01 },
+  XRPUSDT: { baseAsset: 'XRP', stepSize: 0.1, tickSize: 0.0001 },
+  // Cross pairs the triangular detector routes through
+  ETHBTC: { baseAsset: 'ETH', quoteAsset: 'BTC', stepSize: 0.0001, tickSize: 0.00001, minNotional: 0.0001 },
+  BNBBTC: { baseAsset: 'BNB', quoteAsset: 'BTC', stepSize: 0.001, tickSize: 0.000001, minNotional: 0.0001 },
+  BNBETH: { baseAsset: 'BNB', quoteAsset: 'ETH', stepSize: 0.001, tickSize: 0.00001, minNotional: 0.001 },
+};
+
+// Minimum order value per venue, in the venue's quoted price units
+const MIN_NOTIONAL: Record<string, number> = {
+  binance: 5,
+  wazirx: 1, // ₹50 minimum at ~83.5 INR/USDT, rounded up
+  nse: 0,
+};
+
+// NSE cash equities trade in whole shares at a 5 paise tick
+const EQUITY_FILTERS: SymbolFilters = { tickSize: 0.05, stepSize: 1, minQty: 1, minNotional: 0 };
+
+// Filters fetched from a live venue, preferred over the static table
+const liveFilters: Map<string, SymbolFilters> = new Map();
+
+const EPSILON = 1e-9;
+
+/**
+ * Canonical form of any symbol spelling: BTC/USDT, btcusdt, BTC-INR and
+ * BTC/INR all map to BTCUSDT; unknown symbols are just uppercased
+ */
+export function normalizeSymbol(symbol: string): string {
+  const compact = symbol.replace(/[/\-_\s]/g, '').toUpperCase();
+  if (compact.endsWith('INR')) {
+    const usdt = `${compact.slice(0, -3)}USDT`;
+    if (CRYPTO_INSTRUMENTS[usdt]) return usdt;
+  }
+  return compact;
+}
+
+/**
+ * Instrument behind a symbol; unknown non-crypto symbols are treated as equities
+ */
+export function getInstrument(symbol: string): InstrumentSpec {
+  const canonical = normalizeSymbol(symbol);
+  const crypto = CRYPTO_INSTRUMENTS[canonical];
+  if (crypto) {
+    return { canonical, baseAsset: crypto.baseAsset, quoteAsset: crypto.quoteAsset ?? 'USDT', kind: 'crypto' };
+  }
+
+  const quote = canonical.match(/(USDT|INR)$/)?.[1];
+  if (quote && canonical.length > quote.length) {
+    return { canonical, baseAsset: canonical.slice(0, -quote.length), quoteAsset: quote, kind: 'crypto' };
+  }
+  return { canonical, baseAsset: canonical, quoteAsset: 'INR', kind: 'equity' };
+}
+
+export function listInstruments(): InstrumentSpec[] {
+  return Object.keys(CRYPTO_INSTRUMENTS).map(getInstrument);
+}
+
+/**
+ * Name a venue uses for a symbol, e.g. BTCUSDT on wazirx -> BTC/INR and
+ * ETHBTC -> ETH/BTC
+ */
+export function toVenueSymbol(symbol: string, exchange: string): string {
+  const instrument = getInstrument(symbol);
+  if (exchange === 'wazirx' && instrument.kind === 'crypto') {
+    const quote = instrument.quoteAsset === 'USDT' ? 'INR' : instrument.quoteAsset;
+    return `${instrument.baseAsset}/${quote}`;
+  }
+  return instrument.canonical;
+}
+
+/**
+ * Order filters for a symbol on a venue
+ */
+export function getVenueFilters(exchange: string, symbol: string): SymbolFilters {
+  const canonical = normalizeSymbol(symbol);
+  const live = liveFilters.get(`${exchange}:${canonical}`);
+  if (live) return live;
+
+  const instrument = getInstrument(canonical);
+  if (instrument.kind === 'equity') return EQUITY_FILTERS;
+
+  const crypto = CRYPTO_INSTRUMENTS[canonical];
+  const stepSize = crypto?.stepSize ?? 0.00001;
+  return {
+    tickSize: crypto?.tickSize ?? 0.01,
+    stepSize,
+    minQty: stepSize,
+    minNotional: crypto?.minNotional ?? MIN_NOTIONAL[exchange] ?? 0,
+  };
+}
+
+/**
+ * Pull a live venue's filters when it is reachable with credentials
+ * (currently the Binance Spot Testnet); keeps the static filters otherwise
+ */
+export async function refreshVenueFilters(exchange: string, symbol: string): Promise<SymbolFilters> {
+  const canonical = normalizeSymbol(symbol);
+  if (exchange === 'binance' && isTestnetConfigured()) {
+    try {
+      const filters = await fetchBinanceFilters(canonical);
+      liveFilters.set(`${exchange}:${canonical}`, {
+        tickSize: filters.tickSize,
+        stepSize: filters.stepSize,
+        minQty: filters.minQty,
+        maxQty: filters.maxQty || undefined,
+        minNotional: filters.minNotional,
+      });
+    } catch (error) {
+      console.warn(`[Symbols] Using static filters for ${canonical} on ${exchange}:`, error);
+    }
+  }
+  return getVenueFilters(exchange, canonical);
+}
+
+/**
+ * Round down to a multiple of `step`, trimming float noise
+ */
+export function roundToStep(value: number, step: number): number {
+  if (step <= 0) return value;
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  return Number((Math.floor(value / step + EPSILON) * step).toFixed(decimals));
+}
+
+/**
+ * Round a limit price to the tick on the side that never makes it worse:
+ * buys round down, sells round up
+ */
+export function roundPriceToTick(price: number, tickSize: number, side: 'buy' | 'sell'): number {
+  if (side === 'buy' || tickSize <= 0) return roundToStep(price, tickSize);
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tickSize)));
+  return Number((Math.ceil(price / tickSize - EPSILON) * tickSize).toFixed(decimals));
+}
+
+/**
+ * Round an order to the venue's step and tick sizes and check its limits
+ * Throws when the rounded order is below the minimum quantity or notional
+ */
+export function normalizeOrder(
+  exchange: string,
+  symbol: string,
+  side: 'buy' | 'sell',
+  quantity: number,
+  price?: number
+): NormalizedOrder {
+  const canonical = normalizeSymbol(symbol);
+  const filters = getVenueFilters(exchange, canonical);
+
+  const roundedQty = roundToStep(quantity, filters.stepSize);
+  const roundedPrice = price !== undefined ? roundPriceToTick(price, filters.tickSize, side) : undefined;
+
+  if (roundedQty < filters.minQty || roundedQty <= 0) {
+    throw new Error(
+      `Quantity ${quantity} ${canonical} is below the ${exchange} minimum of ${filters.minQty}`
+    );
+  }
+  if (filters.maxQty !== undefined && roundedQty > filters.maxQty) {
+    throw new Error(
+      `Quantity ${quantity} ${canonical} exceeds the ${exchange} maximum of ${filters.maxQty}`
+    );
+  }
+  if (roundedPrice !== undefined && roundedQty * roundedPrice < filters.minNotional) {
+    throw new Error(
+      `Order value ${(roundedQty * roundedPrice).toFixed(2)} for ${canonical} is below the ` +
+      `${exchange} minimum notional of ${filters.minNotional}`
+    );
+  }
+
+  return {
+    symbol: canonical,
+    venueSymbol: toVenueSymbol(canonical, exchange),
+    quantity: roundedQty,
+    price: roundedPrice,
+  };
+}
+
+/**
+ * Coarsest quantity step among venues, so one lot is valid on all of them
+ */
+export function getCommonStepSize(exchanges: string[], symbol: string): number {
+  return Math.max(...exchanges.map(exchange => getVenueFilters(exchange, symbol).stepSize));
+}
+
+/**
+ * Quantity that is valid on every listed venue, e.g. both legs of an arbitrage
+ */
+export function normalizeQuantityAcross(exchanges: string[], symbol: string, quantity: number): number {
+  return roundToStep(quantity, getCommonStepSize(exchanges, symbol));
+}
@@ -0,0 +1,95 @@
+/**
+ * Exchange Adapter Types
+ * Common contract implemented by every exchange integration
+ */
+
+export interface ExchangeTicker {
+  exchange: string;
+  symbol: string;
+  price: number;
+  volume?: number;
+  timestamp: Date;
+}
+
+export interface ExchangeOrderBook {
+  exchange: string;
+  symbol: string;
+  bids: [number, number][];
+  asks: [number, number][];
+  timestamp: Date;
+}
+
+/**
+ * How long a limit order may live: GTC rests until filled or cancelled, IOC
+ * cancels whatever does not fill at once, FOK fills in full at once or not at
+ * all, and POST_ONLY rests but is rejected if it would take liquidity.
+ * Market orders always behave as IOC.
+ */
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'POST_ONLY';
+
+export type OrderStatus = 'filled' | 'partial' | 'open' | 'rejected' | 'cancelled';
+
+export interface ExchangeOrderRequest {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  type: 'market' | 'limit';
+  price?: number;
+  timeInForce?: TimeInForce; // limit orders only, defaults to GTC
+}
+
+export interface ExchangeOrderResult {
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  quantity: number;
+  executedPrice: number;
+  executedQuantity: number;
+  fees: number;
+  slippagePercent: number;
+  status: OrderStatus; // 'open' is resting with nothing filled yet
+  restingQuantity?: number; // still on the book, for GTC and POST_ONLY orders
+  heldByVenue?: boolean; // the venue holds the resting remainder, so getOrder reports its fills
+  timestamp: Date;
+  exchange: string;
+  [extra: string]: any;
+}
+
+export interface ExchangeBalance {
+  asset: string;
+  free: number;
+  locked: number;
+}
+
+export interface ExchangeFees {
+  maker: number; // fraction, e.g. 0.001 = 0.1%
+  taker: number;
+}
+
+export interface ExchangeStatus {
+  online: boolean;
+  latencyMs?: number;
+  message?: string;
+}
+
+/**
+ * Contract every venue implements so agents never branch on exchange names.
+ * `simulated` venues fill orders locally and are always safe to trade against.
+ */
+export interface ExchangeAdapter {
+  id: string;
+  name: string;
+  aliases?: string[];
+  simulated: boolean;
+  settlementAsset: string; // currency trades are paid and received in, e.g. 'USDT' or 'INR'
+  isTradingEnabled?(): boolean; // live venue with credentials, so placeOrder reaches it
+  getTicker(symbol: string): Promise<ExchangeTicker>;
+  getOrderBook(symbol: string, depth?: number): Promise<ExchangeOrderBook>;
+  placeOrder(order: ExchangeOrderRequest): Promise<ExchangeOrderResult>;
+  cancelOrder(orderId: string, symbol: string): Promise<boolean>;
+  getOrder?(orderId: string, symbol: string): Promise<ExchangeOrderResult>; // venues that hold resting orders
+  getBalances(): Promise<ExchangeBalance[]>;
+  getFees(symbol?: string): ExchangeFees;
+  getStatus(): Promise<ExchangeStatus>;
+}
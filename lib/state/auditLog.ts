@@ -1,9 +1,11 @@
 /**
  * Audit Log State
- * Now uses global persistent state
+ * Events are appended to the storage backend one record at a time
  */
 
 import { getState, updateState } from './global';
+import { getBackend, type AuditLogQuery } from './store';
+import { getRngSeed } from './rng';
 
 export interface AuditLogEntry {
   id: string;
@@ -20,50 +22,28 @@ export interface AuditLogEntry {
     confidence?: number;
   };
   metadata?: Record<string, any>;
+  seed?: number; // simulation RNG seed in effect when the event was logged
 }
 
 export function addAuditLog(entry: Omit<AuditLogEntry, "id" | "timestamp">): AuditLogEntry {
   const logEntry: AuditLogEntry = {
     id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     timestamp: Date.now(),
+    seed: getRngSeed(),
     ...entry,
   };
   
-  const state = getState();
-  state.auditLog.push(logEntry);
-  updateState('auditLog', state.auditLog);
+  getBackend().appendAuditEntry(logEntry);
   
   return logEntry;
 }
 
-export function getAuditLog(filters?: {
-  eventType?: string;
-  agentName?: string;
-  opportunityId?: string;
-  limit?: number;
-}): AuditLogEntry[] {
-  let filtered = [...getState().auditLog];
-
-  if (filters) {
-    if (filters.eventType) {
-      filtered = filtered.filter((entry) => entry.eventType === filters.eventType);
-    }
-    if (filters.agentName) {
-      filtered = filtered.filter((entry) => entry.agentName === filters.agentName);
-    }
-    if (filters.opportunityId) {
-      filtered = filtered.filter((entry) => entry.opportunityId === filters.opportunityId);
-    }
-    if (filters.limit) {
-      filtered = filtered.slice(-filters.limit);
-    }
-  }
-
-  return filtered;
+export function getAuditLog(filters?: AuditLogQuery): AuditLogEntry[] {
+  return getBackend().queryAuditLog(filters);
 }
 
 export function clearAuditLog(): void {
-  updateState('auditLog', []);
+  getBackend().clearAuditLog();
 }
 
 // Enhanced audit entry for complete arbitrage flow
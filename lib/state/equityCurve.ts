@@ -0,0 +1,49 @@
+/**
+ * Equity Curve State
+ * Marked-to-market portfolio value recorded on every runner poll
+ */
+
+import { getState, updateState } from './global';
+import type { Portfolio } from './portfolio';
+
+export interface EquitySnapshot {
+  timestamp: number;
+  totalValue: number;
+  cash: number;
+  positionsValue: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+}
+
+const MAX_SNAPSHOTS = 2000;
+
+/**
+ * Append a snapshot of a (marked) portfolio
+ */
+export function recordEquitySnapshot(portfolio: Portfolio, timestamp: number = Date.now()): EquitySnapshot {
+  const snapshot: EquitySnapshot = {
+    timestamp,
+    totalValue: portfolio.totalValue,
+    cash: portfolio.cash,
+    positionsValue: portfolio.totalValue - portfolio.cash,
+    realizedPnL: portfolio.realizedPnL,
+    unrealizedPnL: portfolio.unrealizedPnL
+  };
+
+  const curve = getState().equityCurve;
+  curve.push(snapshot);
+  if (curve.length > MAX_SNAPSHOTS) {
+    curve.splice(0, curve.length - MAX_SNAPSHOTS);
+  }
+  updateState('equityCurve', curve);
+
+  return snapshot;
+}
+
+/**
+ * Most recent N snapshots (all when omitted), oldest first
+ */
+export function getEquityCurve(limit?: number): EquitySnapshot[] {
+  const curve = getState().equityCurve;
+  return limit ? curve.slice(-limit) : [...curve];
+}
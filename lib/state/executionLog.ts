@@ -1,21 +1,64 @@
 /**
  * Execution Log State
- * Now uses global persistent state
+ * Records are upserted into the storage backend by id. Arbitrage executions
+ * move through leg phases that are persisted on every transition, so an
+ * execution interrupted by a restart can be found and reconciled.
  */
 
-import { getState, updateState } from './global';
+import { getBackend } from './store';
+import { getRngSeed } from './rng';
+
+export type ExecutionPhase =
+  | "planned"
+  | "buy_submitted"
+  | "buy_filled"
+  | "sell_submitted"
+  | "legs_submitted" // both legs sent together
+  | "settled"
+  | "unwound"
+  | "failed";
+
+export interface PhaseChange {
+  phase: ExecutionPhase;
+  at: number;
+  note?: string;
+}
+
+// Allowed moves out of each phase; terminal phases have none
+const PHASE_TRANSITIONS: Record<ExecutionPhase, ExecutionPhase[]> = {
+  planned: ["buy_submitted", "legs_submitted", "failed"],
+  buy_submitted: ["buy_filled", "failed"],
+  buy_filled: ["sell_submitted", "unwound", "failed"],
+  sell_submitted: ["settled", "unwound", "failed"],
+  legs_submitted: ["settled", "unwound", "failed"],
+  settled: [],
+  unwound: [],
+  failed: [],
+};
+
+// Status reported for a phase unless the transition sets one
+const PHASE_STATUS: Record<ExecutionPhase, ExecutionRecord["status"]> = {
+  planned: "pending",
+  buy_submitted: "executing",
+  buy_filled: "executing",
+  sell_submitted: "executing",
+  legs_submitted: "executing",
+  settled: "completed",
+  unwound: "hedged",
+  failed: "failed",
+};
 
 export interface ExecutionRecord {
   id: string;
   opportunityId?: string;
   symbol: string;
   action?: "buy" | "sell";
-  type?: "arbitrage" | "single";
+  type?: "arbitrage" | "triangular" | "single" | "hedge";
   exchange?: string;
   quantity?: number;
   price?: number;
   timestamp: number | Date;
-  status: "pending" | "executing" | "filled" | "partial" | "completed" | "failed";
+  status: "pending" | "executing" | "filled" | "partial" | "hedged" | "completed" | "failed";
   fillQuantity?: number;
   fees?: number;
   error?: string;
@@ -28,32 +71,95 @@ export interface ExecutionRecord {
   sellQty?: number;
   profit?: number;
   partialFill?: boolean;
+  inventoryMode?: boolean; // sold stock pre-funded on the sell venue; nothing moves between venues
+  // Unwind of the unsold residual, recorded as its own leg
+  hedgeExecutionId?: string;
+  hedgeQty?: number;
+  hedgePrice?: number;
+  realizedLoss?: number;
+  parentExecutionId?: string; // set on the hedge leg
+  // Leg timing, measured from when the legs were sent
+  buyLatencyMs?: number;
+  sellLatencyMs?: number;
+  legSkewMs?: number; // gap between the two legs completing
+  legTimedOut?: "buy" | "sell" | "both";
+  // Leg state machine (arbitrage executions)
+  phase?: ExecutionPhase;
+  phaseHistory?: PhaseChange[];
   completedAt?: Date;
+  seed?: number; // simulation RNG seed the execution ran under
 }
 
 export function addExecutionRecord(record: ExecutionRecord): void {
-  const state = getState();
-  state.executionLog.push(record);
-  updateState('executionLog', state.executionLog);
+  getBackend().saveExecution({ seed: getRngSeed(), ...record });
 }
 
 export function getExecutionLog(limit?: number): ExecutionRecord[] {
-  const executionLog = getState().executionLog;
-  if (limit) {
-    return executionLog.slice(-limit);
-  }
-  return [...executionLog];
+  return getBackend().queryExecutions(limit);
 }
 
 export function getExecutionById(id: string): ExecutionRecord | undefined {
-  return getState().executionLog.find((record) => record.id === id);
+  return getBackend().getExecution(id);
 }
 
 export function updateExecutionRecord(id: string, updates: Partial<ExecutionRecord>): void {
-  const state = getState();
-  const index = state.executionLog.findIndex((record) => record.id === id);
-  if (index >= 0) {
-    state.executionLog[index] = { ...state.executionLog[index], ...updates };
-    updateState('executionLog', state.executionLog);
+  const existing = getBackend().getExecution(id);
+  if (existing) {
+    getBackend().saveExecution({ ...existing, ...updates });
+  }
+}
+
+/**
+ * Order id of one leg of an arbitrage execution, also the ledger reference its
+ * fills are posted under; the execution id groups the two legs
+ */
+export function legOrderId(executionId: string, side: 'buy' | 'sell'): string {
+  return `${executionId}_${side.toUpperCase()}`;
+}
+
+export function isTerminalPhase(phase: ExecutionPhase): boolean {
+  return PHASE_TRANSITIONS[phase].length === 0;
+}
+
+/**
+ * Move an execution to its next leg phase and persist it
+ * Throws on an unknown execution or a move the state machine does not allow
+ */
+export function transitionExecution(
+  id: string,
+  phase: ExecutionPhase,
+  updates: Partial<ExecutionRecord> = {},
+  note?: string
+): ExecutionRecord {
+  const existing = getBackend().getExecution(id);
+  if (!existing) {
+    throw new Error(`Unknown execution: ${id}`);
+  }
+
+  const from = existing.phase ?? "planned";
+  if (existing.phase && !PHASE_TRANSITIONS[from].includes(phase)) {
+    throw new Error(`Execution ${id} cannot move from ${from} to ${phase}`);
   }
+
+  const record: ExecutionRecord = {
+    ...existing,
+    status: PHASE_STATUS[phase],
+    ...updates,
+    phase,
+    phaseHistory: [...(existing.phaseHistory ?? []), { phase, at: Date.now(), ...(note ? { note } : {}) }],
+  };
+  getBackend().saveExecution(record);
+  return record;
+}
+
+/**
+ * Executions left mid-flight: a non-terminal phase, or (for records written
+ * before phases existed) still pending or executing
+ */
+export function getInFlightExecutions(): ExecutionRecord[] {
+  return getBackend()
+    .queryExecutions()
+    .filter(record => record.phase
+      ? !isTerminalPhase(record.phase)
+      : record.status === "pending" || record.status === "executing");
 }
@@ -1,13 +1,18 @@
 /**
  * Global State Manager - Singleton state store
  * Provides single source of truth for all application state
+ * Audit events and executions are record-level and live only in the storage
+ * backend (see auditLog.ts / executionLog.ts)
  */
 
-import { loadState, saveState } from './store';
+import { getBackend } from './store';
+import { prepareState, STATE_SCHEMA_VERSION } from './schema';
+import { addAuditLog } from './auditLog';
 import type { Position } from './portfolio';
-import type { ExecutionRecord } from './executionLog';
-import type { AuditLogEntry, EnhancedAuditEntry } from './auditLog';
+import type { EnhancedAuditEntry } from './auditLog';
 import type { SystemSettings } from './settings';
+import type { SpreadSample } from './spreadHistory';
+import type { EquitySnapshot } from './equityCurve';
 
 // Runner state interface
 export interface RunnerState {
@@ -40,12 +45,13 @@ export interface GlobalState {
     totalValue: number;
     lastUpdate: number;
   };
-  executionLog: ExecutionRecord[];
-  auditLog: AuditLogEntry[];
   enhancedAuditLog: EnhancedAuditEntry[];
   runner: RunnerState;
   guardianSettings: GuardianConfig;
   settings: SystemSettings;
+  spreadHistory: Record<string, SpreadSample[]>;
+  equityCurve: EquitySnapshot[];
+  schemaVersion: number;
   agents: {
     lastRisk?: any;
     lastAllocation?: any;
@@ -62,8 +68,6 @@ const DEFAULT_STATE: GlobalState = {
     totalValue: 100000,
     lastUpdate: Date.now(),
   },
-  executionLog: [],
-  auditLog: [],
   enhancedAuditLog: [],
   runner: {
     isRunning: false,
@@ -99,11 +103,22 @@ const DEFAULT_STATE: GlobalState = {
     maxPositionSize: 10000,
     maxPortfolioRisk: 0.05,
     minSpreadPercent: 0.2,
+    maxOpportunityAgeMs: 15000,
+    minNetEdgePct: 0.1,
     partialFillsEnabled: true,
     hedgingEnabled: true,
+    legTimeoutMs: 5000,
+    maxLegSkewMs: 1500,
+    executionMode: 'transfer',
+    inventoryBands: {},
+    triangularExecution: false,
+    fees: {},
     runnerActive: false,
     detectionIntervalMs: 5000,
   },
+  spreadHistory: {},
+  equityCurve: [],
+  schemaVersion: STATE_SCHEMA_VERSION,
   agents: {},
 };
 
@@ -115,8 +130,50 @@ let globalState: GlobalState | null = null;
  */
 function initState(): GlobalState {
   if (!globalState) {
-    globalState = loadState<GlobalState>(DEFAULT_STATE);
-    console.log('[GlobalState] Initialized from disk');
+    const backend = getBackend();
+    const loaded = backend.loadSections();
+    const prepared = prepareState(loaded, DEFAULT_STATE);
+    globalState = prepared.state;
+    
+    // Set aside sections that failed validation; they were reset to defaults
+    for (const issue of prepared.invalidSections) {
+      backend.quarantineSection(issue.section, issue.value, issue.problems.join('; '));
+      console.error(`[GlobalState] Quarantined invalid ${issue.section}: ${issue.problems.join('; ')}`);
+    }
+    
+    // Persist new, upgraded or repaired state so the stored version is current
+    if (loaded.schemaVersion !== globalState.schemaVersion || prepared.invalidSections.length > 0) {
+      Object.entries(globalState).forEach(([key, value]) => backend.saveSection(key, value));
+    }
+    
+    if (prepared.migrationsApplied.length > 0) {
+      addAuditLog({
+        eventType: 'system',
+        action: 'state_migrated',
+        component: 'globalState',
+        details: { fromVersion: prepared.fromVersion, toVersion: globalState.schemaVersion, migrations: prepared.migrationsApplied }
+      });
+    }
+    
+    for (const event of backend.recoveryEvents) {
+      addAuditLog({
+        eventType: 'system',
+        action: 'state_quarantined',
+        component: 'store',
+        details: { ...event }
+      });
+    }
+    
+    for (const issue of prepared.invalidSections) {
+      addAuditLog({
+        eventType: 'system',
+        action: 'state_quarantined',
+        component: 'globalState',
+        details: { source: issue.section, reason: issue.problems.join('; '), resetToDefault: true }
+      });
+    }
+    
+    console.log(`[GlobalState] Initialized from storage (schema v${globalState.schemaVersion})`);
   }
   return globalState;
 }
@@ -139,12 +196,10 @@ export function setState(updates: Partial<GlobalState>): GlobalState {
     const value = updates[key as keyof GlobalState];
     if (value !== undefined) {
       (state as any)[key] = value;
+      getBackend().saveSection(key, value);
     }
   });
   
-  // Persist to disk
-  saveState(state);
-  
   return state;
 }
 
@@ -157,7 +212,7 @@ export function updateState<K extends keyof GlobalState>(
 ): GlobalState {
   const state = initState();
   state[key] = value;
-  saveState(state);
+  getBackend().saveSection(key, value);
   return state;
 }
 
@@ -167,6 +222,7 @@ export function updateState<K extends keyof GlobalState>(
 export function getStateInfo() {
   return {
     initialized: globalState !== null,
+    backend: getBackend().kind,
     state: globalState,
   };
 }
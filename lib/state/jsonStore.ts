@@ -0,0 +1,194 @@
+/**
+ * JSON file storage backend
+ * Keeps the whole state in state.json and rewrites it on every change
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { StorageBackend, AuditLogQuery, RecoveryEvent } from './store';
+import type { AuditLogEntry } from './auditLog';
+import type { ExecutionRecord } from './executionLog';
+import type { LedgerTransaction } from './ledger';
+
+const STATE_FILE_PATH = path.join(process.cwd(), 'state.json');
+
+const QUARANTINE_LOG_PATH = path.join(process.cwd(), 'state.quarantine.jsonl');
+
+/**
+ * Parse a state document, rejecting anything that is not a JSON object
+ */
+function parseStateDocument(filePath: string): Record<string, any> {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('state document is not a JSON object');
+  }
+  return parsed;
+}
+
+/**
+ * Read the raw state document (null when the file does not exist yet)
+ * A corrupt file is moved aside and the last temp write is tried instead;
+ * what happened is reported through `events`
+ */
+export function readStateFile(events: RecoveryEvent[] = []): Record<string, any> | null {
+  if (!fs.existsSync(STATE_FILE_PATH)) {
+    return null;
+  }
+
+  try {
+    return parseStateDocument(STATE_FILE_PATH);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const quarantinedTo = `${STATE_FILE_PATH}.corrupt-${Date.now()}`;
+    fs.renameSync(STATE_FILE_PATH, quarantinedTo);
+    console.error(`[Store] state.json is corrupt (${reason}); moved to ${quarantinedTo}`);
+
+    // An interrupted atomic write leaves the previous good state in the temp file
+    const tempPath = STATE_FILE_PATH + '.tmp';
+    if (fs.existsSync(tempPath)) {
+      try {
+        const recovered = parseStateDocument(tempPath);
+        events.push({ source: 'state.json', reason, quarantinedTo, recoveredFrom: tempPath });
+        console.warn(`[Store] Recovered state from ${tempPath}`);
+        return recovered;
+      } catch {
+        // Temp file is no better; fall through to defaults
+      }
+    }
+
+    events.push({ source: 'state.json', reason, quarantinedTo });
+    console.warn('[Store] No recoverable state found, starting from defaults');
+    return null;
+  }
+}
+
+/**
+ * Append a rejected value to the quarantine log for later inspection
+ */
+export function appendQuarantineLog(source: string, value: any, reason: string): string {
+  fs.appendFileSync(
+    QUARANTINE_LOG_PATH,
+    JSON.stringify({ source, reason, quarantinedAt: Date.now(), value }) + '\n',
+    'utf8'
+  );
+  return QUARANTINE_LOG_PATH;
+}
+
+/**
+ * Save state to JSON file (atomic write)
+ */
+function writeStateFile(state: Record<string, any>): void {
+  try {
+    const tempPath = STATE_FILE_PATH + '.tmp';
+
+    // Write to temp file first
+    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf8');
+
+    // Atomic rename
+    fs.renameSync(tempPath, STATE_FILE_PATH);
+  } catch (error) {
+    console.error('[Store] Failed to save state:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get state file path (for debugging)
+ */
+export function getStateFilePath(): string {
+  return STATE_FILE_PATH;
+}
+
+export function createJsonBackend(): StorageBackend {
+  const recoveryEvents: RecoveryEvent[] = [];
+  const document: Record<string, any> = readStateFile(recoveryEvents) || {};
+  document.auditLog = document.auditLog || [];
+  document.executionLog = document.executionLog || [];
+  document.ledger = document.ledger || [];
+
+  const persist = () => writeStateFile(document);
+
+  return {
+    kind: 'json',
+    recoveryEvents,
+
+    loadSections() {
+      const { auditLog, executionLog, ledger, ...sections } = document;
+      return sections;
+    },
+
+    saveSection(key: string, value: any) {
+      document[key] = value;
+      persist();
+    },
+
+    quarantineSection(key: string, value: any, reason: string) {
+      appendQuarantineLog(key, value, reason);
+    },
+
+    appendAuditEntry(entry: AuditLogEntry) {
+      document.auditLog.push(entry);
+      persist();
+    },
+
+    queryAuditLog(query: AuditLogQuery = {}) {
+      let filtered: AuditLogEntry[] = [...document.auditLog];
+
+      if (query.eventType) {
+        filtered = filtered.filter((entry) => entry.eventType === query.eventType);
+      }
+      if (query.agentName) {
+        filtered = filtered.filter((entry) => entry.agentName === query.agentName);
+      }
+      if (query.opportunityId) {
+        filtered = filtered.filter((entry) => entry.opportunityId === query.opportunityId);
+      }
+      if (query.action) {
+        filtered = filtered.filter((entry) => entry.action === query.action);
+      }
+      if (query.since !== undefined) {
+        filtered = filtered.filter((entry) => entry.timestamp >= query.since!);
+      }
+      if (query.seed !== undefined) {
+        filtered = filtered.filter((entry) => entry.seed === query.seed);
+      }
+      if (query.limit) {
+        filtered = filtered.slice(-query.limit);
+      }
+
+      return filtered;
+    },
+
+    clearAuditLog() {
+      document.auditLog = [];
+      persist();
+    },
+
+    saveExecution(record: ExecutionRecord) {
+      const index = document.executionLog.findIndex((r: ExecutionRecord) => r.id === record.id);
+      if (index >= 0) {
+        document.executionLog[index] = record;
+      } else {
+        document.executionLog.push(record);
+      }
+      persist();
+    },
+
+    getExecution(id: string) {
+      return document.executionLog.find((r: ExecutionRecord) => r.id === id);
+    },
+
+    queryExecutions(limit?: number) {
+      return limit ? document.executionLog.slice(-limit) : [...document.executionLog];
+    },
+
+    appendLedgerTransaction(transaction: LedgerTransaction) {
+      document.ledger.push(transaction);
+      persist();
+    },
+
+    queryLedger(limit?: number) {
+      return limit ? document.ledger.slice(-limit) : [...document.ledger];
+    }
+  };
+}
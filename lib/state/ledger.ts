@@ -0,0 +1,381 @@
+/**
+ * Portfolio Ledger - double-entry record of every fill
+ * Each transaction's postings balance per asset: asset accounts hold what sits
+ * on each exchange, and the equity/expense accounts record where it came from.
+ * Balances and positions are always derived from the ledger, never stored.
+ */
+
+import { getBackend } from './store';
+import { getState } from './global';
+import { getUsdInrRate } from '@/lib/exchanges/fx';
+import { getInstrument, normalizeSymbol } from '@/lib/exchanges/symbols';
+
+export type LedgerAccount =
+  | 'assets'          // holdings on an exchange (exchange is set)
+  | 'equity:capital'  // paper capital paid in
+  | 'equity:trading'  // counterparty side of trades and transfers
+  | 'expenses:fees';  // trading fees (exchange is set)
+
+export interface LedgerPosting {
+  account: LedgerAccount;
+  exchange?: string;
+  asset: string;
+  amount: number; // debit positive, credit negative
+  unitCostUSDT?: number; // trade price of non-cash assets
+  symbol?: string; // market the asset trades as on this exchange, e.g. BTCUSDT
+}
+
+export interface LedgerTransaction {
+  id: string;
+  timestamp: number;
+  kind: 'opening' | 'deposit' | 'trade' | 'transfer';
+  description: string;
+  reference?: string; // order or execution id
+  postings: LedgerPosting[];
+}
+
+export interface ExchangeAssetBalance {
+  exchange: string;
+  asset: string;
+  balance: number;
+  valueUSDT: number; // cash converted at the current rate; inventory at cost
+}
+
+export interface LedgerHolding {
+  exchange: string;
+  asset: string;
+  quantity: number;
+  averageCostUSDT: number;
+  realizedPnLUSDT: number; // gains on reduced inventory, before fees
+  symbol?: string;
+}
+
+export interface FillEntry {
+  exchange: string;
+  settlementAsset: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number; // USDT per unit, or settlement coin per unit when quoteUSDT is set
+  fees: number; // USDT, or settlement coin when quoteUSDT is set
+  quoteUSDT?: number; // USDT per unit of the coin a cross pair settles in, e.g. BTC for ETHBTC
+  reference?: string;
+}
+
+// Assets that venues settle in; everything else is inventory
+const CASH_ASSETS = ['USDT', 'INR'];
+
+// Opening capital split across venues so both legs of an arbitrage can be funded
+const OPENING_ALLOCATION: { exchange: string; asset: string; share: number }[] = [
+  { exchange: 'binance', asset: 'USDT', share: 0.5 },
+  { exchange: 'wazirx', asset: 'INR', share: 0.5 },
+];
+
+const EPSILON = 1e-9;
+
+let transactions: LedgerTransaction[] | null = null;
+
+/**
+ * Units of `asset` per 1 USDT
+ */
+function unitsPerUSDT(asset: string): number {
+  return asset === 'INR' ? getUsdInrRate() : 1;
+}
+
+export function toUSDT(asset: string, amount: number): number {
+  return amount / unitsPerUSDT(asset);
+}
+
+export function isCashAsset(asset: string): boolean {
+  return CASH_ASSETS.includes(asset);
+}
+
+/**
+ * Base asset traded by a symbol, e.g. BTCUSDT -> BTC; equities trade as themselves
+ */
+export function baseAssetOf(symbol: string): string {
+  return getInstrument(symbol).baseAsset;
+}
+
+/**
+ * Reject transactions whose postings do not net to zero for every asset
+ */
+function assertBalanced(postings: LedgerPosting[]): void {
+  const totals = new Map<string, { sum: number; scale: number }>();
+  for (const posting of postings) {
+    if (!Number.isFinite(posting.amount)) {
+      throw new Error(`Ledger posting for ${posting.asset} has non-finite amount`);
+    }
+    const total = totals.get(posting.asset) || { sum: 0, scale: 0 };
+    total.sum += posting.amount;
+    total.scale = Math.max(total.scale, Math.abs(posting.amount));
+    totals.set(posting.asset, total);
+  }
+  for (const [asset, { sum, scale }] of Array.from(totals)) {
+    if (Math.abs(sum) > EPSILON * Math.max(1, scale)) {
+      throw new Error(`Unbalanced ledger transaction: ${asset} postings sum to ${sum}`);
+    }
+  }
+}
+
+/**
+ * Load the ledger, seeding opening balances from the paper cash on first use
+ */
+function loadTransactions(): LedgerTransaction[] {
+  if (!transactions) {
+    transactions = getBackend().queryLedger();
+    if (transactions.length === 0) {
+      postOpeningBalances(getState().portfolio.cash);
+    }
+  }
+  return transactions;
+}
+
+function post(transaction: Omit<LedgerTransaction, 'id' | 'timestamp'>): LedgerTransaction {
+  const ledger = loadTransactions();
+  const postings = transaction.postings.filter(p => p.amount !== 0);
+  assertBalanced(postings);
+
+  const entry: LedgerTransaction = {
+    ...transaction,
+    postings,
+    id: `ledger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: Date.now(),
+  };
+
+  getBackend().appendLedgerTransaction(entry);
+  ledger.push(entry);
+  return entry;
+}
+
+function postOpeningBalances(capitalUSDT: number): void {
+  const postings: LedgerPosting[] = [];
+  for (const { exchange, asset, share } of OPENING_ALLOCATION) {
+    const amount = capitalUSDT * share * unitsPerUSDT(asset);
+    postings.push(
+      { account: 'assets', exchange, asset, amount },
+      { account: 'equity:capital', asset, amount: -amount }
+    );
+  }
+
+  // Called while loading, so append directly instead of through post()
+  assertBalanced(postings);
+  const entry: LedgerTransaction = {
+    id: `ledger_${Date.now()}_opening`,
+    timestamp: Date.now(),
+    kind: 'opening',
+    description: `Opening paper capital of ${capitalUSDT.toFixed(2)} USDT`,
+    postings,
+  };
+  getBackend().appendLedgerTransaction(entry);
+  transactions!.push(entry);
+}
+
+/**
+ * Record an exchange fill
+ * Cash moves in the venue's settlement asset; fees are charged in it too
+ */
+export function recordFill(fill: FillEntry): LedgerTransaction {
+  const { exchange, settlementAsset, side, quantity, price, fees, quoteUSDT } = fill;
+  const symbol = normalizeSymbol(fill.symbol);
+  const asset = baseAssetOf(symbol);
+  const rate = unitsPerUSDT(settlementAsset);
+  const sign = side === 'buy' ? 1 : -1;
+  const cash = price * quantity * rate * sign;
+  const fee = fees * rate;
+
+  // A cross pair settles in a coin that is itself inventory: both sides are
+  // carried at their USDT cost and marked on their USDT markets
+  const crossPair = quoteUSDT !== undefined;
+  const settlement = crossPair ? { unitCostUSDT: quoteUSDT, symbol: `${settlementAsset}USDT` } : {};
+
+  return post({
+    kind: 'trade',
+    description: `${side.toUpperCase()} ${quantity.toFixed(6)} ${asset} @ ${price.toFixed(2)} on ${exchange}`,
+    reference: fill.reference,
+    postings: [
+      {
+        account: 'assets',
+        exchange,
+        asset,
+        amount: quantity * sign,
+        unitCostUSDT: crossPair ? price * quoteUSDT : price,
+        symbol: crossPair ? `${asset}USDT` : symbol,
+      },
+      { account: 'equity:trading', asset, amount: -quantity * sign },
+      { account: 'assets', exchange, asset: settlementAsset, amount: -cash, ...settlement },
+      { account: 'equity:trading', asset: settlementAsset, amount: cash },
+      { account: 'expenses:fees', exchange, asset: settlementAsset, amount: fee, unitCostUSDT: quoteUSDT },
+      { account: 'assets', exchange, asset: settlementAsset, amount: -fee, ...settlement },
+    ],
+  });
+}
+
+/**
+ * Move inventory between venues, carrying its cost basis along
+ */
+export function recordTransfer(
+  asset: string,
+  quantity: number,
+  fromExchange: string,
+  toExchange: string,
+  reference?: string
+): LedgerTransaction {
+  const source = getHoldings().find(h => h.exchange === fromExchange && h.asset === asset);
+
+  return post({
+    kind: 'transfer',
+    description: `Transfer ${quantity.toFixed(6)} ${asset} ${fromExchange} -> ${toExchange}`,
+    reference,
+    postings: [
+      {
+        account: 'assets',
+        exchange: toExchange,
+        asset,
+        amount: quantity,
+        unitCostUSDT: source?.averageCostUSDT,
+        symbol: source?.symbol,
+      },
+      { account: 'assets', exchange: fromExchange, asset, amount: -quantity },
+    ],
+  });
+}
+
+/**
+ * Pay inventory into a venue as capital, e.g. pre-funding the sell side for
+ * inventory arbitrage; it is carried at the given unit cost
+ */
+export function recordDeposit(
+  exchange: string,
+  symbol: string,
+  quantity: number,
+  unitCostUSDT: number,
+  reference?: string
+): LedgerTransaction {
+  const normalized = normalizeSymbol(symbol);
+  const asset = baseAssetOf(normalized);
+
+  return post({
+    kind: 'deposit',
+    description: `Deposit ${quantity.toFixed(6)} ${asset} on ${exchange} @ ${unitCostUSDT.toFixed(2)}`,
+    reference,
+    postings: [
+      { account: 'assets', exchange, asset, amount: quantity, unitCostUSDT, symbol: normalized },
+      { account: 'equity:capital', asset, amount: -quantity },
+    ],
+  });
+}
+
+/**
+ * Per exchange and asset holdings with average acquisition cost
+ * Priced postings that reduce a holding realize the difference to that cost;
+ * transfers carry no price and realize nothing
+ */
+export function getHoldings(): LedgerHolding[] {
+  const holdings = new Map<string, LedgerHolding>();
+
+  for (const transaction of loadTransactions()) {
+    for (const posting of transaction.postings) {
+      if (posting.account !== 'assets' || !posting.exchange) continue;
+
+      const key = `${posting.exchange}:${posting.asset}`;
+      const holding = holdings.get(key) || {
+        exchange: posting.exchange,
+        asset: posting.asset,
+        quantity: 0,
+        averageCostUSDT: 0,
+        realizedPnLUSDT: 0,
+      };
+      const next = holding.quantity + posting.amount;
+
+      if (posting.symbol) holding.symbol = posting.symbol;
+
+      if (
+        posting.unitCostUSDT !== undefined &&
+        holding.quantity !== 0 &&
+        Math.sign(posting.amount) !== Math.sign(holding.quantity)
+      ) {
+        const closed = Math.min(Math.abs(posting.amount), Math.abs(holding.quantity));
+        holding.realizedPnLUSDT +=
+          (posting.unitCostUSDT - holding.averageCostUSDT) * closed * Math.sign(holding.quantity);
+      }
+
+      if (posting.unitCostUSDT !== undefined && Math.sign(posting.amount) === Math.sign(next)) {
+        if (Math.sign(holding.quantity) === Math.sign(posting.amount)) {
+          // Adding to the position: weighted average cost
+          holding.averageCostUSDT =
+            (holding.averageCostUSDT * holding.quantity + posting.unitCostUSDT * posting.amount) / next;
+        } else {
+          // Opened from flat or flipped sides: the new leg sets the cost
+          holding.averageCostUSDT = posting.unitCostUSDT;
+        }
+      }
+
+      holding.quantity = Math.abs(next) < EPSILON ? 0 : next;
+      holdings.set(key, holding);
+    }
+  }
+
+  return Array.from(holdings.values());
+}
+
+/**
+ * Total trading fees paid across all venues, in USDT
+ */
+export function getFeesPaidUSDT(): number {
+  let fees = 0;
+  for (const transaction of loadTransactions()) {
+    for (const posting of transaction.postings) {
+      if (posting.account === 'expenses:fees') {
+        // Fees paid in a coin carry its USDT price
+        fees += posting.unitCostUSDT !== undefined
+          ? posting.amount * posting.unitCostUSDT
+          : toUSDT(posting.asset, posting.amount);
+      }
+    }
+  }
+  return fees;
+}
+
+/**
+ * Asset balances per exchange, valued in USDT
+ */
+export function getExchangeBalances(exchange?: string): ExchangeAssetBalance[] {
+  return getHoldings()
+    .filter(h => !exchange || h.exchange === exchange)
+    .map(h => ({
+      exchange: h.exchange,
+      asset: h.asset,
+      balance: h.quantity,
+      valueUSDT: isCashAsset(h.asset) ? toUSDT(h.asset, h.quantity) : h.quantity * h.averageCostUSDT,
+    }));
+}
+
+/**
+ * Most recent N ledger transactions (all when omitted), oldest first
+ */
+export function getLedgerTransactions(limit?: number): LedgerTransaction[] {
+  const all = loadTransactions();
+  return limit ? all.slice(-limit) : [...all];
+}
+
+/**
+ * Net non-cash inventory per exchange from transactions carrying any of the
+ * given references, e.g. what an execution bought but has not yet sold
+ */
+export function getInventoryByReference(references: string[]): { exchange: string; asset: string; quantity: number }[] {
+  const totals = new Map<string, { exchange: string; asset: string; quantity: number }>();
+
+  for (const transaction of loadTransactions()) {
+    if (!transaction.reference || !references.includes(transaction.reference)) continue;
+    for (const posting of transaction.postings) {
+      if (posting.account !== 'assets' || !posting.exchange || isCashAsset(posting.asset)) continue;
+      const key = `${posting.exchange}:${posting.asset}`;
+      const total = totals.get(key) ?? { exchange: posting.exchange, asset: posting.asset, quantity: 0 };
+      total.quantity += posting.amount;
+      totals.set(key, total);
+    }
+  }
+
+  return Array.from(totals.values()).filter(t => Math.abs(t.quantity) > EPSILON);
+}
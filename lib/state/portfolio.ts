@@ -1,70 +1,96 @@
 /**
  * Portfolio State Management
- * Now uses global persistent state
+ * Derived from the double-entry ledger and valued at the latest marks; the
+ * persisted portfolio section is a snapshot refreshed after fills are recorded
  */
 
 import { getState, updateState } from './global';
+import { getHoldings, getFeesPaidUSDT, isCashAsset, toUSDT } from './ledger';
+import { getMarkPrice, markToMarket } from './valuation';
+import type { ExchangeAssetBalance } from './ledger';
 
 export interface Position {
-  symbol: string;
+  symbol: string; // base asset held, e.g. BTC
   exchange: string;
   quantity: number;
   averagePrice: number;
-  currentPrice?: number;
+  currentPrice?: number; // latest mark; cost until the position is first marked
   unrealizedPnL?: number;
 }
 
 export interface Portfolio {
-  cash: number;
+  cash: number; // all settlement-asset balances in USDT
   positions: Position[];
   totalValue: number;
+  realizedPnL: number; // closed gains net of all fees paid
+  unrealizedPnL: number;
   lastUpdate: number;
+  balances: ExchangeAssetBalance[];
 }
 
+/**
+ * Derive cash, per-exchange positions and total value from the ledger
+ * Positions use their last mark; call getValuedPortfolio() to refresh marks first
+ */
 export function getPortfolio(): Portfolio {
-  return { ...getState().portfolio };
-}
+  const holdings = getHoldings();
+
+  const cash = holdings
+    .filter(h => isCashAsset(h.asset))
+    .reduce((sum, h) => sum + toUSDT(h.asset, h.quantity), 0);
+
+  const positions: Position[] = holdings
+    .filter(h => !isCashAsset(h.asset) && h.quantity !== 0)
+    .map(h => {
+      const currentPrice = getMarkPrice(h.exchange, h.asset)?.price ?? h.averageCostUSDT;
+      return {
+        symbol: h.asset,
+        exchange: h.exchange,
+        quantity: h.quantity,
+        averagePrice: h.averageCostUSDT,
+        currentPrice,
+        unrealizedPnL: h.quantity * (currentPrice - h.averageCostUSDT),
+      };
+    });
+
+  const balances: ExchangeAssetBalance[] = holdings.map(h => ({
+    exchange: h.exchange,
+    asset: h.asset,
+    balance: h.quantity,
+    valueUSDT: isCashAsset(h.asset)
+      ? toUSDT(h.asset, h.quantity)
+      : h.quantity * (getMarkPrice(h.exchange, h.asset)?.price ?? h.averageCostUSDT),
+  }));
 
-export function updatePortfolio(updates: Partial<Portfolio>): Portfolio {
-  const currentPortfolio = getState().portfolio;
-  const updatedPortfolio = {
-    ...currentPortfolio,
-    ...updates,
-    lastUpdate: Date.now(),
+  const positionsValue = positions.reduce((sum, p) => sum + p.quantity * p.currentPrice!, 0);
+  const realizedPnL = holdings.reduce((sum, h) => sum + h.realizedPnLUSDT, 0) - getFeesPaidUSDT();
+  const unrealizedPnL = positions.reduce((sum, p) => sum + p.unrealizedPnL!, 0);
+
+  return {
+    cash,
+    positions,
+    totalValue: cash + positionsValue,
+    realizedPnL,
+    unrealizedPnL,
+    lastUpdate: getState().portfolio.lastUpdate,
+    balances,
   };
-  
-  updateState('portfolio', updatedPortfolio);
-  return { ...updatedPortfolio };
 }
 
-export function addPosition(position: Position): void {
-  const state = getState();
-  const portfolio = state.portfolio;
-  
-  const existingIndex = portfolio.positions.findIndex(
-    (p) => p.symbol === position.symbol && p.exchange === position.exchange
-  );
-  
-  if (existingIndex >= 0) {
-    portfolio.positions[existingIndex] = position;
-  } else {
-    portfolio.positions.push(position);
-  }
-  
-  portfolio.lastUpdate = Date.now();
-  updateState('portfolio', portfolio);
+/**
+ * Mark open positions to their exchanges' latest prices, then derive
+ */
+export async function getValuedPortfolio(): Promise<Portfolio> {
+  await markToMarket();
+  return getPortfolio();
 }
 
-export function removePosition(symbol: string, exchange: string): void {
-  const state = getState();
-  const portfolio = state.portfolio;
-  
-  portfolio.positions = portfolio.positions.filter(
-    (p) => !(p.symbol === symbol && p.exchange === exchange)
-  );
-  portfolio.lastUpdate = Date.now();
-  
-  updateState('portfolio', portfolio);
+/**
+ * Persist a fresh snapshot of the derived portfolio
+ */
+export function refreshPortfolio(): Portfolio {
+  const portfolio = { ...getPortfolio(), lastUpdate: Date.now() };
+  const { balances, realizedPnL, unrealizedPnL, ...snapshot } = portfolio;
+  updateState('portfolio', snapshot);
+  return portfolio;
 }
-
-// TODO: Add more portfolio management functions
@@ -0,0 +1,74 @@
+/**
+ * Simulation RNG
+ * Seeded source of randomness for every simulated component (mock exchanges,
+ * slippage, fills, fault rates). The active seed is stamped on audit and
+ * execution records so a runner session can be replayed with the same draws.
+ */
+
+export interface Rng {
+  readonly seed: number;
+  next(): number; // uniform in [0, 1)
+}
+
+/**
+ * Mulberry32: small, fast and good enough for simulation noise
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return {
+    seed: seed >>> 0,
+    next() {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+  };
+}
+
+/**
+ * Fresh 32-bit seed for sessions that do not ask for one
+ */
+export function generateSeed(): number {
+  return (Date.now() ^ Math.floor(Math.random() * 4294967296)) >>> 0;
+}
+
+function initialSeed(): number {
+  const fromEnv = Number.parseInt(process.env.SIM_SEED || '', 10);
+  return Number.isFinite(fromEnv) ? fromEnv >>> 0 : generateSeed();
+}
+
+let active: Rng = createRng(initialSeed());
+
+export function getRng(): Rng {
+  return active;
+}
+
+export function getRngSeed(): number {
+  return active.seed;
+}
+
+/**
+ * Next draw from the active generator
+ */
+export function random(): number {
+  return active.next();
+}
+
+/**
+ * Install a generator (e.g. for an isolated backtest); returns the previous one
+ */
+export function setRng(rng: Rng): Rng {
+  const previous = active;
+  active = rng;
+  return previous;
+}
+
+/**
+ * Restart the active generator from a seed (a fresh one when omitted)
+ */
+export function reseedRng(seed: number = generateSeed()): Rng {
+  active = createRng(seed);
+  return active;
+}
@@ -0,0 +1,262 @@
+/**
+ * State Schema - versioning, migrations and validation for GlobalState
+ * Loaded sections are migrated to the current version, deep-merged over the
+ * defaults, then validated section by section
+ */
+
+import type { GlobalState } from './global';
+
+export const STATE_SCHEMA_VERSION = 2;
+
+export interface StateMigration {
+  version: number; // schema version this migration produces
+  description: string;
+  migrate: (state: Record<string, any>) => Record<string, any>;
+}
+
+// Ordered migrations; append new entries and bump STATE_SCHEMA_VERSION
+export const MIGRATIONS: StateMigration[] = [
+  {
+    version: 1,
+    description: 'Version unversioned state; audit and execution logs moved to the storage backend',
+    migrate: (state) => {
+      const { auditLog, executionLog, ...rest } = state;
+      return { ...rest, spreadHistory: rest.spreadHistory ?? {} };
+    }
+  },
+  {
+    version: 2,
+    description: 'Add marked-to-market equity curve',
+    migrate: (state) => ({ ...state, equityCurve: state.equityCurve ?? [] })
+  },
+];
+
+export interface SectionIssue {
+  section: string;
+  problems: string[];
+  value?: any; // the rejected section, for quarantine
+}
+
+export interface PreparedState {
+  state: GlobalState;
+  fromVersion: number;
+  migrationsApplied: number[];
+  invalidSections: SectionIssue[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Recursively fill keys missing from `loaded` with values from `defaults`
+ * Arrays and scalars from `loaded` are kept as-is
+ */
+export function mergeDefaults<T>(defaults: T, loaded: unknown): T {
+  if (!isPlainObject(defaults) || !isPlainObject(loaded)) {
+    return (loaded === undefined ? defaults : loaded) as T;
+  }
+
+  const merged: Record<string, any> = { ...loaded };
+  for (const [key, defaultValue] of Object.entries(defaults)) {
+    merged[key] = mergeDefaults(defaultValue, loaded[key]);
+  }
+  return merged as T;
+}
+
+/**
+ * Apply every migration newer than the state's recorded version
+ */
+export function migrateState(raw: Record<string, any>): {
+  state: Record<string, any>;
+  fromVersion: number;
+  applied: number[];
+} {
+  // Nothing stored yet: defaults are already current
+  if (Object.keys(raw).length === 0) {
+    return { state: raw, fromVersion: STATE_SCHEMA_VERSION, applied: [] };
+  }
+
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+
+  if (fromVersion > STATE_SCHEMA_VERSION) {
+    console.warn(`[Schema] State version ${fromVersion} is newer than supported ${STATE_SCHEMA_VERSION}`);
+    return { state: raw, fromVersion, applied: [] };
+  }
+
+  let state = raw;
+  const applied: number[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    state = migration.migrate(state);
+    state.schemaVersion = migration.version;
+    applied.push(migration.version);
+    console.log(`[Schema] Migrated state to v${migration.version}: ${migration.description}`);
+  }
+
+  return { state, fromVersion, applied };
+}
+
+// Validation helpers push a message for each problem found
+type Check = (value: any, path: string, problems: string[]) => void;
+
+const finiteNumber = (min = -Infinity, max = Infinity): Check => (value, path, problems) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    problems.push(`${path} must be a finite number`);
+  } else if (value < min || value > max) {
+    problems.push(`${path} must be between ${min} and ${max}`);
+  }
+};
+
+const boolean: Check = (value, path, problems) => {
+  if (typeof value !== 'boolean') problems.push(`${path} must be a boolean`);
+};
+
+const optionalString: Check = (value, path, problems) => {
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    problems.push(`${path} must be a string`);
+  }
+};
+
+const array = (item?: Check): Check => (value, path, problems) => {
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be an array`);
+    return;
+  }
+  if (item) value.forEach((entry, i) => item(entry, `${path}[${i}]`, problems));
+};
+
+const object = (shape: Record<string, Check> = {}): Check => (value, path, problems) => {
+  if (!isPlainObject(value)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  for (const [key, check] of Object.entries(shape)) {
+    check(value[key], `${path}.${key}`, problems);
+  }
+};
+
+const record = (item: Check): Check => (value, path, problems) => {
+  if (!isPlainObject(value)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    item(entry, `${path}.${key}`, problems);
+  }
+};
+
+const string: Check = (value, path, problems) => {
+  if (typeof value !== 'string') problems.push(`${path} must be a string`);
+};
+
+const oneOf = (...values: string[]): Check => (value, path, problems) => {
+  if (!values.includes(value)) problems.push(`${path} must be one of ${values.join(', ')}`);
+};
+
+// Per-section validators for GlobalState
+const SECTION_VALIDATORS: Record<string, Check> = {
+  portfolio: object({
+    cash: finiteNumber(),
+    totalValue: finiteNumber(),
+    lastUpdate: finiteNumber(0),
+    positions: array(object({ symbol: string, exchange: string, quantity: finiteNumber(), averagePrice: finiteNumber() }))
+  }),
+  enhancedAuditLog: array(),
+  runner: object({
+    isRunning: boolean,
+    startTime: optionalString,
+    pollCount: finiteNumber(0),
+    opportunitiesProcessed: finiteNumber(0),
+    executionsAttempted: finiteNumber(0),
+    executionsSuccessful: finiteNumber(0),
+    lastPollTime: optionalString,
+    currentSymbols: array(string)
+  }),
+  guardianSettings: object({
+    maxTradePctOfPortfolio: finiteNumber(0, 1),
+    dailyMaxTrades: finiteNumber(0),
+    globalMaxExposurePct: finiteNumber(0, 1),
+    vetoconditions: object({ exchangeOutage: boolean, highVolatility: boolean })
+  }),
+  settings: object({
+    autoMode: boolean,
+    binanceTestnet: boolean,
+    indianExchange: object({
+      enabled: boolean,
+      priceDriftPercent: finiteNumber(),
+      outageSimulated: boolean,
+      liquidityMultiplier: finiteNumber(0)
+    }),
+    nseExchange: object({
+      enabled: boolean,
+      priceDriftPercent: finiteNumber(),
+      outageSimulated: boolean
+    }),
+    maxPositionSize: finiteNumber(0),
+    maxPortfolioRisk: finiteNumber(0),
+    minSpreadPercent: finiteNumber(0),
+    maxOpportunityAgeMs: finiteNumber(0),
+    minNetEdgePct: finiteNumber(),
+    partialFillsEnabled: boolean,
+    hedgingEnabled: boolean,
+    legTimeoutMs: finiteNumber(0),
+    maxLegSkewMs: finiteNumber(0),
+    executionMode: oneOf('transfer', 'inventory'),
+    inventoryBands: record(object({ minShare: finiteNumber(0, 1), maxShare: finiteNumber(0, 1) })),
+    triangularExecution: boolean,
+    fees: record(object({
+      vipLevel: finiteNumber(0),
+      tiers: array(object({ vipLevel: finiteNumber(0), maker: finiteNumber(0, 1), taker: finiteNumber(0, 1) })),
+      levies: array(object({ name: string, rate: finiteNumber(0, 1) })),
+      withdrawal: record(finiteNumber(0)),
+      network: record(finiteNumber(0))
+    })),
+    runnerActive: boolean,
+    detectionIntervalMs: finiteNumber(0)
+  }),
+  spreadHistory: record(array()),
+  equityCurve: array(object({ timestamp: finiteNumber(0), totalValue: finiteNumber() })),
+  agents: object(),
+  schemaVersion: finiteNumber(0),
+};
+
+/**
+ * Validate each known section; returns the sections that failed
+ */
+export function validateState(state: Record<string, any>): SectionIssue[] {
+  const issues: SectionIssue[] = [];
+
+  for (const [section, check] of Object.entries(SECTION_VALIDATORS)) {
+    const problems: string[] = [];
+    check(state[section], section, problems);
+    if (problems.length > 0) {
+      issues.push({ section, problems });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Migrate, merge defaults and validate loaded sections
+ * Invalid sections are replaced with their defaults; the rejected values are
+ * returned on each issue so the caller can quarantine them
+ */
+export function prepareState(raw: Record<string, any>, defaults: GlobalState): PreparedState {
+  const { state: migrated, fromVersion, applied } = migrateState(raw);
+  const merged = mergeDefaults(defaults, migrated) as Record<string, any>;
+  const invalidSections = validateState(merged);
+
+  for (const issue of invalidSections) {
+    issue.value = merged[issue.section];
+    merged[issue.section] = structuredClone((defaults as Record<string, any>)[issue.section]);
+  }
+
+  return {
+    state: merged as GlobalState,
+    fromVersion,
+    migrationsApplied: applied,
+    invalidSections
+  };
+}
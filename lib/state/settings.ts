@@ -4,6 +4,15 @@
  */
 
 import { getState, updateState } from './global';
+import type { ExchangeFeeSchedule } from '@/lib/exchanges/fees';
+
+export type ExecutionMode = 'transfer' | 'inventory';
+
+// Share of an asset's inventory, across all venues, one venue may hold
+export interface InventoryBand {
+  minShare: number; // 0-1
+  maxShare: number; // 0-1
+}
 
 export interface SystemSettings {
   autoMode: boolean;
@@ -27,10 +36,20 @@ export interface SystemSettings {
   maxPositionSize: number;
   maxPortfolioRisk: number;
   minSpreadPercent: number;
+  maxOpportunityAgeMs: number; // opportunities quoted longer ago are not executed
+  minNetEdgePct: number; // edge after costs an opportunity must still show right before execution
   
   // Execution parameters
   partialFillsEnabled: boolean;
   hedgingEnabled: boolean;
+  legTimeoutMs: number; // a leg not done by then is abandoned and compensated
+  maxLegSkewMs: number; // how long the second leg may trail the first
+  executionMode: ExecutionMode; // inventory sells stock pre-funded on the sell venue instead of transferring the buy
+  inventoryBands: Record<string, InventoryBand>; // by base asset; see lib/agents/inventoryManager.ts
+  triangularExecution: boolean; // trade triangular cycles the guardian passes; otherwise they are only evaluated
+  
+  // Fee schedules edited through settings, by exchange id; see lib/exchanges/fees.ts
+  fees: Record<string, ExchangeFeeSchedule>;
   
   // Runner parameters
   runnerActive: boolean;
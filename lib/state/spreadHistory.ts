@@ -0,0 +1,110 @@
+/**
+ * Spread History State
+ * Per-pair spread time series recorded on every price discovery pass
+ */
+
+import { getState, updateState } from './global';
+
+export interface SpreadSample {
+  timestamp: number;
+  buyPrice: number;  // price on the first exchange of the pair
+  sellPrice: number; // price on the second exchange of the pair
+  spreadPct: number; // (sellPrice - buyPrice) / buyPrice * 100
+}
+
+export type SpreadListener = (symbol: string, prices: Record<string, number>, timestamp: number) => void;
+
+const MAX_SAMPLES_PER_PAIR = 500;
+
+const listeners: Set<SpreadListener> = new Set();
+
+/**
+ * Series key for a symbol and exchange pair
+ * Pairs are stored once in alphabetical order; reversed lookups are flipped on read
+ */
+function pairKey(symbol: string, exchangeA: string, exchangeB: string): string {
+  const [first, second] = [exchangeA, exchangeB].sort();
+  return `${symbol}_${first}_${second}`;
+}
+
+/**
+ * Record the spread for every exchange pair quoting a symbol
+ */
+export function recordPairSpreads(
+  symbol: string,
+  prices: Record<string, number>,
+  timestamp: number = Date.now()
+): void {
+  const exchanges = Object.keys(prices).filter(id => prices[id] > 0).sort();
+  if (exchanges.length < 2) return;
+
+  const spreadHistory = getState().spreadHistory;
+
+  for (let i = 0; i < exchanges.length; i++) {
+    for (let j = i + 1; j < exchanges.length; j++) {
+      const buyPrice = prices[exchanges[i]];
+      const sellPrice = prices[exchanges[j]];
+      const key = pairKey(symbol, exchanges[i], exchanges[j]);
+
+      if (!spreadHistory[key]) {
+        spreadHistory[key] = [];
+      }
+      const series = spreadHistory[key];
+      series.push({
+        timestamp,
+        buyPrice,
+        sellPrice,
+        spreadPct: ((sellPrice - buyPrice) / buyPrice) * 100
+      });
+
+      if (series.length > MAX_SAMPLES_PER_PAIR) {
+        series.splice(0, series.length - MAX_SAMPLES_PER_PAIR);
+      }
+    }
+  }
+
+  updateState('spreadHistory', spreadHistory);
+
+  listeners.forEach(listener => {
+    try {
+      listener(symbol, prices, timestamp);
+    } catch (error) {
+      console.error('[SpreadHistory] Listener error:', error);
+    }
+  });
+}
+
+/**
+ * Samples for a pair since a timestamp, oriented as buy on the first
+ * exchange and sell on the second
+ */
+export function getSpreadSamples(
+  symbol: string,
+  exchangePair: [string, string],
+  sinceTs: number = 0
+): SpreadSample[] {
+  const [buyExchange, sellExchange] = exchangePair;
+  const series = getState().spreadHistory[pairKey(symbol, buyExchange, sellExchange)] || [];
+  const reversed = buyExchange > sellExchange;
+
+  return series
+    .filter(sample => sample.timestamp >= sinceTs)
+    .map(sample => reversed
+      ? {
+          timestamp: sample.timestamp,
+          buyPrice: sample.sellPrice,
+          sellPrice: sample.buyPrice,
+          spreadPct: ((sample.buyPrice - sample.sellPrice) / sample.sellPrice) * 100
+        }
+      : { ...sample });
+}
+
+/**
+ * Subscribe to spread recordings; returns an unsubscribe function
+ */
+export function onSpreadRecorded(listener: SpreadListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,511 @@
+/**
+ * SQLite storage backend
+ * Embedded database with one table per record type; audit events, executions
+ * and ledger transactions are written row by row instead of rewriting all state
+ */
+
+import path from 'path';
+import Database from 'better-sqlite3';
+import { readStateFile, getStateFilePath } from './jsonStore';
+import type { StorageBackend, AuditLogQuery, RecoveryEvent } from './store';
+import type { AuditLogEntry } from './auditLog';
+import type { ExecutionRecord } from './executionLog';
+import type { LedgerTransaction, LedgerPosting } from './ledger';
+import type { RunnerState } from './global';
+
+const DB_PATH = process.env.STATE_DB_PATH || path.join(process.cwd(), 'state.db');
+
+// Sections stored in the settings table; runner has its own table and
+// everything else lives in state_sections
+const SETTINGS_KEYS = ['settings', 'guardianSettings'];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS quarantine (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    quarantined_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS state_sections (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS runner_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    is_running INTEGER NOT NULL,
+    start_time TEXT,
+    poll_count INTEGER NOT NULL,
+    opportunities_processed INTEGER NOT NULL,
+    executions_attempted INTEGER NOT NULL,
+    executions_successful INTEGER NOT NULL,
+    last_poll_time TEXT,
+    current_symbols TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    timestamp INTEGER NOT NULL,
+    event_type TEXT NOT NULL,
+    agent_name TEXT,
+    component TEXT,
+    opportunity_id TEXT,
+    action TEXT NOT NULL,
+    details TEXT NOT NULL,
+    decision TEXT,
+    metadata TEXT,
+    seed INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_events (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_event_type ON audit_events (event_type, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_agent ON audit_events (agent_name, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_opportunity ON audit_events (opportunity_id);
+  CREATE INDEX IF NOT EXISTS idx_audit_action ON audit_events (action, timestamp);
+
+  CREATE TABLE IF NOT EXISTS executions (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    symbol TEXT NOT NULL,
+    status TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_executions_symbol ON executions (symbol, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_executions_status ON executions (status);
+
+  CREATE TABLE IF NOT EXISTS ledger_transactions (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    timestamp INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    description TEXT NOT NULL,
+    reference TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_ledger_reference ON ledger_transactions (reference);
+
+  CREATE TABLE IF NOT EXISTS ledger_postings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    transaction_id TEXT NOT NULL REFERENCES ledger_transactions (id),
+    account TEXT NOT NULL,
+    exchange TEXT,
+    asset TEXT NOT NULL,
+    amount REAL NOT NULL,
+    unit_cost_usdt REAL,
+    symbol TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_postings_transaction ON ledger_postings (transaction_id);
+  CREATE INDEX IF NOT EXISTS idx_postings_account ON ledger_postings (account, exchange, asset);
+`;
+
+interface AuditRow {
+  id: string;
+  timestamp: number;
+  event_type: string;
+  agent_name: string | null;
+  component: string | null;
+  opportunity_id: string | null;
+  action: string;
+  details: string;
+  decision: string | null;
+  metadata: string | null;
+  seed: number | null;
+}
+
+interface LedgerTransactionRow {
+  id: string;
+  timestamp: number;
+  kind: string;
+  description: string;
+  reference: string | null;
+}
+
+interface LedgerPostingRow {
+  transaction_id: string;
+  account: string;
+  exchange: string | null;
+  asset: string;
+  amount: number;
+  unit_cost_usdt: number | null;
+  symbol: string | null;
+}
+
+function toTimestamp(value: number | Date | string | undefined): number {
+  if (value === undefined) return Date.now();
+  return typeof value === 'number' ? value : new Date(value).getTime();
+}
+
+/**
+ * Parse the stored symbol list; undefined lets the defaults fill it in
+ */
+function parseSymbols(value: string): string[] | undefined {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function rowToPosting(row: LedgerPostingRow): LedgerPosting {
+  const posting: LedgerPosting = {
+    account: row.account as LedgerPosting['account'],
+    asset: row.asset,
+    amount: row.amount
+  };
+  if (row.exchange !== null) posting.exchange = row.exchange;
+  if (row.unit_cost_usdt !== null) posting.unitCostUSDT = row.unit_cost_usdt;
+  if (row.symbol !== null) posting.symbol = row.symbol;
+  return posting;
+}
+
+function rowToAuditEntry(row: AuditRow): AuditLogEntry {
+  const entry: AuditLogEntry = {
+    id: row.id,
+    timestamp: row.timestamp,
+    eventType: row.event_type as AuditLogEntry['eventType'],
+    action: row.action,
+    details: JSON.parse(row.details)
+  };
+  if (row.agent_name !== null) entry.agentName = row.agent_name;
+  if (row.component !== null) entry.component = row.component;
+  if (row.opportunity_id !== null) entry.opportunityId = row.opportunity_id;
+  if (row.decision !== null) entry.decision = JSON.parse(row.decision);
+  if (row.metadata !== null) entry.metadata = JSON.parse(row.metadata);
+  if (row.seed !== null) entry.seed = row.seed;
+  return entry;
+}
+
+/**
+ * Add a column that was introduced after the table was first created
+ */
+function ensureColumn(db: Database.Database, table: string, column: string, type: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+export function createSqliteBackend(): StorageBackend {
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  ensureColumn(db, 'ledger_postings', 'symbol', 'TEXT');
+  ensureColumn(db, 'audit_events', 'seed', 'INTEGER');
+
+  const statements = {
+    insertQuarantine: db.prepare('INSERT INTO quarantine (source, reason, payload, quarantined_at) VALUES (?, ?, ?, ?)'),
+    deleteSetting: db.prepare('DELETE FROM settings WHERE key = ?'),
+    deleteSectionRow: db.prepare('DELETE FROM state_sections WHERE key = ?'),
+    getMeta: db.prepare('SELECT value FROM meta WHERE key = ?'),
+    setMeta: db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)'),
+    allSettings: db.prepare('SELECT key, value FROM settings'),
+    saveSetting: db.prepare('INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)'),
+    allSections: db.prepare('SELECT key, value FROM state_sections'),
+    saveSectionRow: db.prepare('INSERT OR REPLACE INTO state_sections (key, value, updated_at) VALUES (?, ?, ?)'),
+    getRunner: db.prepare('SELECT * FROM runner_state WHERE id = 1'),
+    saveRunner: db.prepare(`
+      INSERT OR REPLACE INTO runner_state (
+        id, is_running, start_time, poll_count, opportunities_processed,
+        executions_attempted, executions_successful, last_poll_time, current_symbols
+      ) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?)
+    `),
+    insertAudit: db.prepare(`
+      INSERT OR IGNORE INTO audit_events (
+        id, timestamp, event_type, agent_name, component, opportunity_id,
+        action, details, decision, metadata, seed
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `),
+    clearAudit: db.prepare('DELETE FROM audit_events'),
+    upsertExecution: db.prepare(`
+      INSERT INTO executions (id, symbol, status, timestamp, data) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        symbol = excluded.symbol,
+        status = excluded.status,
+        timestamp = excluded.timestamp,
+        data = excluded.data
+    `),
+    getExecution: db.prepare('SELECT data FROM executions WHERE id = ?'),
+    allExecutions: db.prepare('SELECT data FROM executions ORDER BY seq'),
+    recentExecutions: db.prepare('SELECT data FROM executions ORDER BY seq DESC LIMIT ?'),
+    insertLedgerTransaction: db.prepare(`
+      INSERT INTO ledger_transactions (id, timestamp, kind, description, reference) VALUES (?, ?, ?, ?, ?)
+    `),
+    insertPosting: db.prepare(`
+      INSERT INTO ledger_postings (transaction_id, account, exchange, asset, amount, unit_cost_usdt, symbol)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `),
+    allLedgerTransactions: db.prepare('SELECT * FROM ledger_transactions ORDER BY seq'),
+    recentLedgerTransactions: db.prepare('SELECT * FROM ledger_transactions ORDER BY seq DESC LIMIT ?'),
+    allPostings: db.prepare('SELECT * FROM ledger_postings ORDER BY id'),
+    postingsSince: db.prepare(`
+      SELECT * FROM ledger_postings WHERE transaction_id IN (
+        SELECT id FROM ledger_transactions WHERE seq >= (SELECT seq FROM ledger_transactions WHERE id = ?)
+      ) ORDER BY id
+    `)
+  };
+
+  const saveRunner = (runner: RunnerState) => {
+    statements.saveRunner.run(
+      runner.isRunning ? 1 : 0,
+      runner.startTime ?? null,
+      runner.pollCount ?? 0,
+      runner.opportunitiesProcessed ?? 0,
+      runner.executionsAttempted ?? 0,
+      runner.executionsSuccessful ?? 0,
+      runner.lastPollTime ?? null,
+      JSON.stringify(runner.currentSymbols ?? [])
+    );
+  };
+
+  const recoveryEvents: RecoveryEvent[] = [];
+
+  const quarantine = (source: string, payload: string, reason: string) => {
+    statements.insertQuarantine.run(source, reason, payload, Date.now());
+  };
+
+  const saveSection = (key: string, value: any) => {
+    if (key === 'runner') {
+      saveRunner(value);
+    } else if (SETTINGS_KEYS.includes(key)) {
+      statements.saveSetting.run(key, JSON.stringify(value), Date.now());
+    } else {
+      statements.saveSectionRow.run(key, JSON.stringify(value), Date.now());
+    }
+  };
+
+  const appendAuditEntry = (entry: AuditLogEntry) => {
+    statements.insertAudit.run(
+      entry.id,
+      toTimestamp(entry.timestamp),
+      entry.eventType ?? 'system',
+      entry.agentName ?? null,
+      entry.component ?? null,
+      entry.opportunityId ?? null,
+      entry.action,
+      JSON.stringify(entry.details ?? {}),
+      entry.decision ? JSON.stringify(entry.decision) : null,
+      entry.metadata ? JSON.stringify(entry.metadata) : null,
+      entry.seed ?? null
+    );
+  };
+
+  const saveExecution = (record: ExecutionRecord) => {
+    statements.upsertExecution.run(
+      record.id,
+      record.symbol,
+      record.status,
+      toTimestamp(record.timestamp),
+      JSON.stringify(record)
+    );
+  };
+
+  // A transaction and its postings are written atomically
+  const appendLedgerTransaction = db.transaction((transaction: LedgerTransaction) => {
+    statements.insertLedgerTransaction.run(
+      transaction.id,
+      transaction.timestamp,
+      transaction.kind,
+      transaction.description,
+      transaction.reference ?? null
+    );
+    for (const posting of transaction.postings) {
+      statements.insertPosting.run(
+        transaction.id,
+        posting.account,
+        posting.exchange ?? null,
+        posting.asset,
+        posting.amount,
+        posting.unitCostUSDT ?? null,
+        posting.symbol ?? null
+      );
+    }
+  });
+
+  /**
+   * One-time import of an existing state.json into an empty database
+   */
+  const importStateFile = () => {
+    if (statements.getMeta.get('json_imported_at')) return;
+
+    const document = readStateFile(recoveryEvents);
+
+    db.transaction(() => {
+      if (document) {
+        const { auditLog = [], executionLog = [], ledger = [], ...sections } = document;
+        for (const [key, value] of Object.entries(sections)) {
+          saveSection(key, value);
+        }
+        for (const entry of auditLog) {
+          appendAuditEntry(entry);
+        }
+        for (const record of executionLog) {
+          saveExecution(record);
+        }
+        for (const transaction of ledger) {
+          appendLedgerTransaction(transaction);
+        }
+        console.log(
+          `[Store] Imported ${getStateFilePath()}: ${auditLog.length} audit events, ` +
+          `${executionLog.length} executions, ${ledger.length} ledger transactions`
+        );
+      }
+      statements.setMeta.run('json_imported_at', String(Date.now()));
+    })();
+  };
+
+  importStateFile();
+
+  return {
+    kind: 'sqlite',
+    recoveryEvents,
+
+    loadSections() {
+      const sections: Record<string, any> = {};
+
+      // Rows that no longer parse are moved to quarantine and reloaded as defaults
+      const readRows = (rows: { key: string; value: string }[], table: 'settings' | 'state_sections') => {
+        for (const row of rows) {
+          try {
+            sections[row.key] = JSON.parse(row.value);
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            quarantine(`${table}.${row.key}`, row.value, reason);
+            (table === 'settings' ? statements.deleteSetting : statements.deleteSectionRow).run(row.key);
+            recoveryEvents.push({ source: `${table}.${row.key}`, reason, quarantinedTo: 'quarantine' });
+            console.error(`[Store] Quarantined corrupt ${table} row ${row.key}: ${reason}`);
+          }
+        }
+      };
+
+      readRows(statements.allSections.all() as { key: string; value: string }[], 'state_sections');
+      readRows(statements.allSettings.all() as { key: string; value: string }[], 'settings');
+
+      const runner = statements.getRunner.get() as any;
+      if (runner) {
+        sections.runner = {
+          isRunning: runner.is_running === 1,
+          startTime: runner.start_time ?? undefined,
+          pollCount: runner.poll_count,
+          opportunitiesProcessed: runner.opportunities_processed,
+          executionsAttempted: runner.executions_attempted,
+          executionsSuccessful: runner.executions_successful,
+          lastPollTime: runner.last_poll_time ?? undefined,
+          currentSymbols: parseSymbols(runner.current_symbols)
+        } as RunnerState;
+      }
+
+      return sections;
+    },
+
+    saveSection,
+
+    quarantineSection(key: string, value: any, reason: string) {
+      quarantine(key, JSON.stringify(value), reason);
+    },
+
+    appendAuditEntry,
+
+    queryAuditLog(query: AuditLogQuery = {}) {
+      const clauses: string[] = [];
+      const params: any[] = [];
+
+      if (query.eventType) {
+        clauses.push('event_type = ?');
+        params.push(query.eventType);
+      }
+      if (query.agentName) {
+        clauses.push('agent_name = ?');
+        params.push(query.agentName);
+      }
+      if (query.opportunityId) {
+        clauses.push('opportunity_id = ?');
+        params.push(query.opportunityId);
+      }
+      if (query.action) {
+        clauses.push('action = ?');
+        params.push(query.action);
+      }
+      if (query.since !== undefined) {
+        clauses.push('timestamp >= ?');
+        params.push(query.since);
+      }
+      if (query.seed !== undefined) {
+        clauses.push('seed = ?');
+        params.push(query.seed);
+      }
+
+      const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+
+      // Take the newest N, then return them in chronological order
+      const sql = query.limit
+        ? `SELECT * FROM (SELECT * FROM audit_events ${where} ORDER BY seq DESC LIMIT ?) ORDER BY seq`
+        : `SELECT * FROM audit_events ${where} ORDER BY seq`;
+      if (query.limit) params.push(query.limit);
+
+      return (db.prepare(sql).all(...params) as AuditRow[]).map(rowToAuditEntry);
+    },
+
+    clearAuditLog() {
+      statements.clearAudit.run();
+    },
+
+    saveExecution,
+
+    getExecution(id: string) {
+      const row = statements.getExecution.get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    queryExecutions(limit?: number) {
+      const rows = (limit
+        ? (statements.recentExecutions.all(limit) as { data: string }[]).reverse()
+        : statements.allExecutions.all() as { data: string }[]);
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    appendLedgerTransaction,
+
+    queryLedger(limit?: number) {
+      const rows = (limit
+        ? (statements.recentLedgerTransactions.all(limit) as LedgerTransactionRow[]).reverse()
+        : statements.allLedgerTransactions.all() as LedgerTransactionRow[]);
+      if (rows.length === 0) return [];
+
+      const postingRows = (limit
+        ? statements.postingsSince.all(rows[0].id)
+        : statements.allPostings.all()) as LedgerPostingRow[];
+      const postings = new Map<string, LedgerPosting[]>();
+      for (const row of postingRows) {
+        const list = postings.get(row.transaction_id) || [];
+        list.push(rowToPosting(row));
+        postings.set(row.transaction_id, list);
+      }
+
+      return rows.map(row => {
+        const transaction: LedgerTransaction = {
+          id: row.id,
+          timestamp: row.timestamp,
+          kind: row.kind as LedgerTransaction['kind'],
+          description: row.description,
+          postings: postings.get(row.id) || []
+        };
+        if (row.reference !== null) transaction.reference = row.reference;
+        return transaction;
+      });
+    }
+  };
+}
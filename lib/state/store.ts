@@ -1,69 +1,78 @@
 /**
- * Low-level JSON file persistence layer
- * Handles reading/writing state to disk
+ * Storage backend abstraction
+ * Sections (portfolio, settings, runner, ...) are stored whole; audit events,
+ * executions and ledger transactions are stored as individual records
  */
 
-import fs from 'fs';
-import path from 'path';
+import { createJsonBackend } from './jsonStore';
+import { createSqliteBackend } from './sqliteStore';
+import type { AuditLogEntry } from './auditLog';
+import type { ExecutionRecord } from './executionLog';
+import type { LedgerTransaction } from './ledger';
 
-const STATE_FILE_PATH = path.join(process.cwd(), 'state.json');
-
-/**
- * Ensure the state file exists with default content
- */
-function ensureStateFile(defaultState: any): void {
-  if (!fs.existsSync(STATE_FILE_PATH)) {
-    try {
-      fs.writeFileSync(STATE_FILE_PATH, JSON.stringify(defaultState, null, 2), 'utf8');
-      console.log('[Store] Created state.json with default state');
-    } catch (error) {
-      console.error('[Store] Failed to create state file:', error);
-      throw error;
-    }
-  }
+export interface AuditLogQuery {
+  eventType?: string;
+  agentName?: string;
+  opportunityId?: string;
+  action?: string;
+  since?: number; // timestamp (ms), inclusive
+  seed?: number; // simulation RNG seed
+  limit?: number; // most recent N, returned oldest first
 }
 
-/**
- * Load state from JSON file
- */
-export function loadState<T>(defaultState: T): T {
-  try {
-    ensureStateFile(defaultState);
-    
-    const fileContent = fs.readFileSync(STATE_FILE_PATH, 'utf8');
-    const parsedState = JSON.parse(fileContent);
-    
-    // Merge with default state to handle schema changes
-    return { ...defaultState, ...parsedState };
-  } catch (error) {
-    console.error('[Store] Failed to load state, using default:', error);
-    return defaultState;
-  }
+// Corrupt data set aside while opening a backend
+export interface RecoveryEvent {
+  source: string;
+  reason: string;
+  quarantinedTo?: string;
+  recoveredFrom?: string;
 }
 
-/**
- * Save state to JSON file (atomic write)
- */
-export function saveState<T>(state: T): void {
-  try {
-    const tempPath = STATE_FILE_PATH + '.tmp';
-    
-    // Write to temp file first
-    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf8');
-    
-    // Atomic rename
-    fs.renameSync(tempPath, STATE_FILE_PATH);
-    
-    // console.log('[Store] State persisted successfully');
-  } catch (error) {
-    console.error('[Store] Failed to save state:', error);
-    throw error;
-  }
+export interface StorageBackend {
+  readonly kind: 'sqlite' | 'json';
+  readonly recoveryEvents: RecoveryEvent[];
+
+  /** Load every persisted state section keyed by GlobalState field */
+  loadSections(): Record<string, any>;
+  saveSection(key: string, value: any): void;
+  /** Set aside a section that failed validation so it can be inspected later */
+  quarantineSection(key: string, value: any, reason: string): void;
+
+  appendAuditEntry(entry: AuditLogEntry): void;
+  queryAuditLog(query?: AuditLogQuery): AuditLogEntry[];
+  clearAuditLog(): void;
+
+  /** Insert or replace an execution by id */
+  saveExecution(record: ExecutionRecord): void;
+  getExecution(id: string): ExecutionRecord | undefined;
+  /** Most recent N executions (all when omitted), returned oldest first */
+  queryExecutions(limit?: number): ExecutionRecord[];
+
+  /** Append a balanced ledger transaction; entries are never updated */
+  appendLedgerTransaction(transaction: LedgerTransaction): void;
+  /** Most recent N ledger transactions (all when omitted), returned oldest first */
+  queryLedger(limit?: number): LedgerTransaction[];
 }
 
+let backend: StorageBackend | null = null;
+
 /**
- * Get state file path (for debugging)
+ * Get the configured storage backend
+ * STATE_BACKEND=json keeps the legacy state.json file; anything else uses SQLite
  */
-export function getStateFilePath(): string {
-  return STATE_FILE_PATH;
+export function getBackend(): StorageBackend {
+  if (!backend) {
+    if (process.env.STATE_BACKEND === 'json') {
+      backend = createJsonBackend();
+    } else {
+      try {
+        backend = createSqliteBackend();
+      } catch (error) {
+        console.error('[Store] SQLite unavailable, falling back to state.json:', error);
+        backend = createJsonBackend();
+      }
+    }
+    console.log(`[Store] Using ${backend.kind} storage backend`);
+  }
+  return backend;
 }
@@ -0,0 +1,45 @@
+/**
+ * Portfolio Valuation
+ * Marks open inventory to the latest price on the exchange that holds it
+ */
+
+import { findExchange } from '@/lib/exchanges/registry';
+import { isBacktestActive } from '@/lib/backtest/guard';
+import { getHoldings, isCashAsset } from './ledger';
+
+export interface MarkPrice {
+  price: number; // USDT per unit
+  timestamp: number;
+}
+
+// Last mark per `${exchange}:${asset}`; kept when a refresh fails
+const marks: Map<string, MarkPrice> = new Map();
+
+export function getMarkPrice(exchange: string, asset: string): MarkPrice | undefined {
+  return marks.get(`${exchange}:${asset}`);
+}
+
+/**
+ * Refresh marks for every open non-cash holding
+ * Skipped while a backtest runs, since quotes then come from its dataset
+ */
+export async function markToMarket(): Promise<void> {
+  if (isBacktestActive()) return;
+
+  const open = getHoldings().filter(h => !isCashAsset(h.asset) && h.quantity !== 0);
+
+  await Promise.all(open.map(async holding => {
+    const adapter = findExchange(holding.exchange);
+    if (!adapter) return;
+
+    const symbol = holding.symbol || `${holding.asset}USDT`;
+    try {
+      const ticker = await adapter.getTicker(symbol);
+      if (ticker.price > 0) {
+        marks.set(`${holding.exchange}:${holding.asset}`, { price: ticker.price, timestamp: Date.now() });
+      }
+    } catch (error) {
+      console.warn(`[Valuation] Could not mark ${symbol} on ${holding.exchange}, keeping last mark:`, error);
+    }
+  }));
+}
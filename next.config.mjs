@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Runs instrumentation.ts once at server startup (execution recovery)
+    instrumentationHook: true,
+  },
+};
 
 export default nextConfig;